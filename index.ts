@@ -6,31 +6,122 @@
 
 import { writeFileSync } from "node:fs";
 import { join } from "node:path";
-import { Client } from "@xhayper/discord-rpc";
-import { spotify, type SpotifyState } from "./src/spotify.ts";
+import {
+  spotify,
+  createPlayerSource,
+  type PlaybackEventType,
+  type SpotifyState,
+} from "./src/spotify.ts";
 import { createPresenceService } from "./src/presence.ts";
+import { ActivityScheduler } from "./src/activity-scheduler.ts";
+import { IdleTimer } from "./src/idle.ts";
+import {
+  needsButtonFilePath,
+  renderButtons,
+  validateButtons,
+  DEFAULT_BUTTONS,
+  type ActivityButton,
+  type ButtonError,
+  type ButtonRule,
+} from "./src/buttons.ts";
+import { DiscordConnection, type ConnectionState } from "./src/discord-connection.ts";
+import type { PrivacyAction } from "./src/privacy.ts";
 import {
   getConfigPath,
   getConfig,
   updateConfig,
   findLocalFile,
+  explainMatch,
+  parseLocalTrackInfo,
+  pickFile,
+  clearLocalFileCaches,
+  getSpotifyLocalFilePaths,
   localFiles,
   type AppConfig,
 } from "./src/local-files.ts";
-import { getImageOptimizerStatus } from "./src/cover.ts";
+import { getImageOptimizerStatus, setImageBackendPreference } from "./src/image-backend.ts";
+import { getSharedCoverCache, type CoverCacheStats } from "./src/cover-cache.ts";
+import { getSharedUploadQueue, type UploadQueueStatus } from "./src/upload-queue.ts";
+import type { CoverColors } from "./src/cover.ts";
+import { collectLibraryFiles, syncCovers, type CoverSyncProgress } from "./src/cover-sync.ts";
+import { LibraryIndex } from "./src/library-index.ts";
+import { formatMatchReport, type MatchReport } from "./src/matching.ts";
+import {
+  getSharedMatchOverrides,
+  MatchOverrides,
+  type MatchOverride,
+  type OverrideTarget,
+  type PinnedPaths,
+} from "./src/match-overrides.ts";
+import {
+  renderActivityText,
+  validateTemplates,
+  SAMPLE_TAGS,
+  SAMPLE_TRACK,
+  type ActivityText,
+  type ActivityTemplates,
+  type TemplateError,
+} from "./src/templates.ts";
 import { logger, acquireLock, LOG_DIR_PATH } from "./src/logger.ts";
 
+// Override console methods to use file logger
+console.log = (...args: unknown[]) => logger.log(...args);
+console.warn = (...args: unknown[]) => logger.warn(...args);
+console.error = (...args: unknown[]) => logger.error(...args);
+
+// Handle --match flag: show how a track is matched to a file, then exit.
+// Takes a local track ID, or --title with --artist, --album and --duration
+// (seconds). Only reads, so it runs next to the app, without the lock.
+if (process.argv.includes("--match")) {
+  const args = process.argv.slice(process.argv.indexOf("--match") + 1);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const seconds = Number(option("duration"));
+  const request: MatchRequest = {
+    trackId: args[0]?.startsWith("--") ? undefined : args[0],
+    title: option("title"),
+    artist: option("artist"),
+    album: option("album"),
+    durationMs: seconds > 0 ? seconds * 1000 : undefined,
+  };
+
+  // Pinned matches and the index as last built, without scanning or
+  // writing anything the app uses
+  localFiles.useMatchOverrides(new MatchOverrides({ readOnly: true }));
+  let library: LibraryIndex | null = null;
+  try {
+    library = new LibraryIndex();
+  } catch (err) {
+    console.error("[sidecar] Library index unavailable:", err);
+  }
+  // Not built yet: walk the folders, nothing else waits on this process
+  const result = await getMatchResult(request, library?.ready ? library : null);
+  library?.close();
+  if (!result.report) {
+    process.stderr.write(
+      `${result.error}\nUsage: --match <spotify:local:...> | --match --title <title> ` +
+        "[--artist <artist>] [--album <album>] [--duration <seconds>]\n",
+    );
+    process.exit(1);
+  }
+  process.stderr.write(`${formatMatchReport(result.report)}\n`);
+  process.exit(result.report.match || result.report.pinned?.filePath ? 0 : 1);
+}
+
 // Acquire lock to prevent multiple instances
 if (!acquireLock()) {
+  // The cover maintenance flags write the caches the app is using
+  const maintenance = ["--sync-covers", "--migrate-covers"].find((flag) => process.argv.includes(flag));
+  if (maintenance) {
+    process.stderr.write(`${maintenance} can't run while tini-presence is running. Quit the app first.\n`);
+    process.exit(1);
+  }
   logger.error("Failed to acquire lock, another instance may be running. Exiting.");
   process.exit(1);
 }
 
-// Override console methods to use file logger
-console.log = (...args: unknown[]) => logger.log(...args);
-console.warn = (...args: unknown[]) => logger.warn(...args);
-console.error = (...args: unknown[]) => logger.error(...args);
-
 async function writeStartupDiagnostics() {
   try {
     const diagnostics = {
@@ -43,6 +134,7 @@ async function writeStartupDiagnostics() {
       config: {
         musicFolders: getConfig().musicFolders.length,
         hasDiscordClientId: Boolean(getConfig().discordClientId),
+        playerSource: spotify.sourceKind,
       },
       optimizers: await getImageOptimizerStatus(),
     };
@@ -54,21 +146,33 @@ async function writeStartupDiagnostics() {
   }
 }
 
-await writeStartupDiagnostics();
-
 let config = getConfig();
-let clientId =
-  config.discordClientId || process.env.DISCORD_CLIENT_ID || "YOUR_CLIENT_ID";
+spotify.setSource(createPlayerSource(config));
+setImageBackendPreference(config.imageBackend);
+
+await writeStartupDiagnostics();
 
-const rpc = new Client({ clientId });
+const discord = new DiscordConnection(
+  config.discordClientId || process.env.DISCORD_CLIENT_ID || "YOUR_CLIENT_ID",
+);
+// All activity updates go through the scheduler to respect Discord's rate limit
+const activityScheduler = new ActivityScheduler(() => discord.user);
+// Clears presence once a pause or a closed player outlasts its allowance
+const idleTimer = new IdleTimer();
 let presence = createPresenceService(config);
 
 function refreshPresence(nextConfig: AppConfig) {
   if (presence) presence.destroy();
   presence = createPresenceService(nextConfig);
-  if (nextConfig.discordClientId && nextConfig.discordClientId !== clientId) {
-    clientId = nextConfig.discordClientId;
-    console.warn("Discord client ID changed. Restart the app to reconnect.");
+  spotify.setSource(createPlayerSource(nextConfig));
+  setImageBackendPreference(nextConfig.imageBackend);
+  // Idle settings may have changed; re-arm from the current state
+  idleTimer.cancel();
+  cancelCoverLookup();
+  void resyncPresence();
+  // Reconnects with the new application if the client ID changed
+  if (nextConfig.discordClientId) {
+    void discord.setClientId(nextConfig.discordClientId);
   }
 }
 
@@ -79,22 +183,110 @@ interface TrackStatus {
   artist?: string;
   album?: string;
   coverUrl?: string | null;
+  // "embedded", "folder", "override", "placeholder", "pinned" or "spotify"
+  coverSource?: string | null;
+  // Palette and a tiny data: URL preview of local covers
+  coverColors?: CoverColors | null;
+  // Covers waiting for storage to come back; null while nothing waits
+  uploadQueue?: UploadQueueStatus | null;
   source?: string;
   positionMs?: number;
   durationMs?: number;
   trackId?: string;
   filePath?: string | null;
+  // The user pinned the track's file or cover (see match-overrides.ts)
+  matchPinned?: boolean;
+  privacy?: PrivacyAction;
+}
+
+interface Diagnostics {
+  timestamp: number;
+  activity: ReturnType<ActivityScheduler["getStats"]>;
+  connection: ConnectionState;
+  coverCache: CoverCacheStats;
+  uploadQueue: UploadQueueStatus;
+}
+
+interface ActivityPreview {
+  templates: ActivityTemplates;
+  errors: TemplateError[];
+  text: ActivityText;
+  buttons: ActivityButton[];
+  buttonErrors: ButtonError[];
+  sample: boolean; // true when rendered against a sample track
+}
+
+interface CoverSyncStatus extends CoverSyncProgress {
+  error?: string;  // why the sync couldn't start
+}
+
+// A local track ID, or a title with what else is known
+interface MatchRequest {
+  trackId?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  durationMs?: number;
+}
+
+interface MatchResult {
+  request: MatchRequest;
+  report: MatchReport | null;
+  error?: string;  // why there was nothing to match
+}
+
+// A track and the file or cover image to pin it to; "pick" asks for one
+// with the native file dialog instead
+interface PinRequest extends MatchRequest, PinnedPaths {
+  pick?: "file" | "cover";
+}
+
+interface MatchOverridesStatus {
+  overrides: MatchOverride[];
+  error?: string;  // why the last pin failed
 }
 
 interface ProtocolMessage {
-  type: "status" | "config" | "heartbeat";
-  payload: TrackStatus | AppConfig | { timestamp: number };
+  type:
+    | "status"
+    | "config"
+    | "heartbeat"
+    | "diagnostics"
+    | "activity-preview"
+    | "connection"
+    | "cover-sync"
+    | "match"
+    | "match-overrides";
+  payload:
+    | TrackStatus
+    | AppConfig
+    | Diagnostics
+    | ConnectionState
+    | ActivityPreview
+    | CoverSyncStatus
+    | MatchResult
+    | MatchOverridesStatus
+    | { timestamp: number };
 }
 
 interface CommandMessage {
   type: "command";
-  command: "get-config" | "update-config" | "add-folder" | "open-config";
-  payload?: Partial<AppConfig>;
+  command:
+    | "get-config"
+    | "update-config"
+    | "add-folder"
+    | "open-config"
+    | "get-diagnostics"
+    | "preview-activity"
+    | "get-connection"
+    | "clear-caches"
+    | "sync-covers"
+    | "cancel-cover-sync"
+    | "match"
+    | "pin-match"
+    | "unpin-match"
+    | "list-matches";
+  payload?: Partial<AppConfig> & PinRequest;
 }
 
 function emitStatus(status: TrackStatus) {
@@ -107,6 +299,178 @@ function emitConfig(configPayload: AppConfig) {
   process.stdout.write(`${JSON.stringify(message)}\n`);
 }
 
+function emitDiagnostics() {
+  const payload: Diagnostics = {
+    timestamp: Date.now(),
+    activity: activityScheduler.getStats(),
+    connection: discord.state,
+    coverCache: getSharedCoverCache().getStats(),
+    uploadQueue: getSharedUploadQueue().getStatus(),
+  };
+  const message: ProtocolMessage = { type: "diagnostics", payload };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function emitConnection(state: ConnectionState) {
+  const message: ProtocolMessage = { type: "connection", payload: state };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function emitCoverSync(status: CoverSyncStatus) {
+  const message: ProtocolMessage = { type: "cover-sync", payload: status };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+let coverSync: { controller: AbortController; progress: CoverSyncProgress } | null = null;
+
+/**
+ * Upload every cover in the local library in the background. While a sync
+ * runs, starting another only reports its progress.
+ */
+async function runCoverSync(onProgress: (status: CoverSyncStatus) => void): Promise<void> {
+  if (coverSync) {
+    onProgress(coverSync.progress);
+    return;
+  }
+  const empty: CoverSyncProgress = {
+    state: "done",
+    total: 0,
+    done: 0,
+    uploaded: 0,
+    skipped: 0,
+    failed: 0,
+    resumed: 0,
+  };
+  if (!presence.hasUpload) {
+    onProgress({ ...empty, error: "No cover storage configured" });
+    return;
+  }
+
+  // Keeps the service it started with if the config is reloaded meanwhile
+  const service = presence;
+  const sync = {
+    controller: new AbortController(),
+    progress: { ...empty, state: "running" } as CoverSyncProgress,
+  };
+  coverSync = sync;
+  try {
+    const files = await collectLibraryFiles(service.getMusicFolders(), getSpotifyLocalFilePaths());
+    console.log(`[cover-sync] Syncing covers for ${files.length} files`);
+    await syncCovers(files, (filePath, signal) => service.syncFileCover(filePath, signal), {
+      target: service.uploadTarget,
+      signal: sync.controller.signal,
+      onProgress: (progress) => {
+        sync.progress = progress;
+        onProgress(progress);
+      },
+    });
+  } finally {
+    coverSync = null;
+    getSharedCoverCache().flush();
+  }
+}
+
+function toMatchQuery(request: MatchRequest): OverrideTarget | null {
+  if (request.trackId) {
+    const info = parseLocalTrackInfo(request.trackId);
+    return info && { ...info, trackId: request.trackId };
+  }
+  if (!request.title) return null;
+  const { title, artist, album, durationMs } = request;
+  return { title, artist, album, durationMs };
+}
+
+/**
+ * How a track is matched to a local file: the ranked candidates and why
+ */
+async function getMatchResult(request: MatchRequest, library?: LibraryIndex | null) {
+  const query = toMatchQuery(request);
+  const result: MatchResult = query
+    ? { request, report: await explainMatch(query, library) }
+    : { request, report: null, error: "Not a local track ID, and no title given" };
+  return result;
+}
+
+async function emitMatch(request: MatchRequest) {
+  const message: ProtocolMessage = { type: "match", payload: await getMatchResult(request) };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function emitMatchOverrides(error?: string) {
+  const payload: MatchOverridesStatus = { overrides: matchOverrides.list(), error };
+  const message: ProtocolMessage = { type: "match-overrides", payload };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+// Look the track's file and cover up again, and the playing track's
+function refreshMatchedTrack(trackId?: string) {
+  const state = spotify.lastState;
+  for (const id of [trackId, state?.isRunning ? state.track.id : undefined]) {
+    if (id) presence.forgetTrack(id);
+  }
+  localFiles.clearMatches();
+  lastSentActivityKey = null;
+  void resyncPresence();
+}
+
+async function pinMatch(request: PinRequest) {
+  const target = toMatchQuery(request);
+  if (!target) {
+    emitMatchOverrides("Not a local track ID, and no title given");
+    return;
+  }
+
+  let paths: PinnedPaths = { filePath: request.filePath, coverPath: request.coverPath };
+  if (request.pick === "file") {
+    paths = { filePath: (await pickFile("Select the file for this track", "public.audio")) ?? undefined };
+  } else if (request.pick === "cover") {
+    paths = { coverPath: (await pickFile("Select a cover image", "public.image")) ?? undefined };
+  }
+  // Dialog cancelled
+  if (request.pick && !paths.filePath && !paths.coverPath) {
+    emitMatchOverrides();
+    return;
+  }
+
+  try {
+    matchOverrides.pin(target, paths);
+  } catch (err) {
+    emitMatchOverrides(err instanceof Error ? err.message : String(err));
+    return;
+  }
+  refreshMatchedTrack(target.trackId);
+  emitMatchOverrides();
+}
+
+function unpinMatch(request: MatchRequest) {
+  const target = toMatchQuery(request);
+  if (target && matchOverrides.unpin(target)) {
+    refreshMatchedTrack(target.trackId);
+  }
+  emitMatchOverrides();
+}
+
+async function emitActivityPreview(templates: ActivityTemplates, buttons: ButtonRule[]) {
+  const state = spotify.lastState;
+  const track = state?.isRunning ? state.track : SAMPLE_TRACK;
+  const tags = state?.isRunning ? await presence.getTrackTags(track) : SAMPLE_TAGS;
+  const filePath =
+    state?.isRunning && track.source === "local" && needsButtonFilePath(buttons)
+      ? await findLocalFile(track.id)
+      : null;
+
+  const payload: ActivityPreview = {
+    templates,
+    errors: validateTemplates(templates),
+    text: renderActivityText(templates, track, tags),
+    buttons: renderButtons(buttons, track, tags, filePath),
+    buttonErrors: validateButtons(buttons),
+    sample: !state?.isRunning,
+  };
+  const message: ProtocolMessage = { type: "activity-preview", payload };
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
 function emitHeartbeat() {
   const message: ProtocolMessage = { type: "heartbeat", payload: { timestamp: Date.now() } };
   process.stdout.write(`${JSON.stringify(message)}\n`);
@@ -137,11 +501,61 @@ async function handleCommand(message: CommandMessage) {
     case "open-config":
       Bun.spawnSync(["open", getConfigPath()]);
       break;
+    case "get-diagnostics":
+      emitDiagnostics();
+      break;
+    case "get-connection":
+      emitConnection(discord.state);
+      break;
+    case "clear-caches":
+      console.log("[sidecar] clear-caches");
+      presence.clearCaches();
+      clearLocalFileCaches();
+      lastSentActivityKey = null;
+      emitDiagnostics();
+      void resyncPresence();
+      break;
+    case "sync-covers":
+      console.log("[sidecar] sync-covers");
+      void runCoverSync(emitCoverSync);
+      break;
+    case "cancel-cover-sync":
+      coverSync?.controller.abort();
+      break;
+    case "match":
+      await emitMatch({ ...message.payload });
+      break;
+    case "pin-match":
+      console.log("[sidecar] pin-match");
+      await pinMatch({ ...message.payload });
+      break;
+    case "unpin-match":
+      console.log("[sidecar] unpin-match");
+      unpinMatch({ ...message.payload });
+      break;
+    case "list-matches":
+      emitMatchOverrides();
+      break;
+    case "preview-activity":
+      // Preview unsaved templates on top of the saved ones; unsaved
+      // buttons replace the saved list
+      await emitActivityPreview(
+        {
+          ...config.activityTemplates,
+          ...message.payload?.activityTemplates,
+        },
+        message.payload?.activityButtons ?? config.activityButtons ?? DEFAULT_BUTTONS,
+      );
+      break;
     default:
       break;
   }
 }
 
+// Pinned matches win over matching
+const matchOverrides = getSharedMatchOverrides();
+localFiles.useMatchOverrides(matchOverrides);
+
 // Handle --add-folder flag
 if (process.argv.includes("--add-folder")) {
   const folder = await presence.addMusicFolder();
@@ -153,6 +567,41 @@ if (process.argv.includes("--add-folder")) {
   process.exit(0);
 }
 
+// Handle --sync-covers flag: upload the whole library's covers, then exit
+if (process.argv.includes("--sync-covers")) {
+  // Ctrl+C saves progress; the next run resumes from there
+  process.once("SIGINT", () => coverSync?.controller.abort());
+  await runCoverSync((status) => {
+    if (status.error) {
+      process.stderr.write(`Cover sync failed: ${status.error}\n`);
+      return;
+    }
+    process.stderr.write(
+      `\r${status.done}/${status.total} files, ${status.uploaded} uploaded, ${status.failed} failed`,
+    );
+    if (status.state !== "running") process.stderr.write("\n");
+  });
+  process.exit(0);
+}
+
+// Handle --migrate-covers flag: move per-song uploads to album paths, then exit
+if (process.argv.includes("--migrate-covers")) {
+  const result = await presence.migrateCovers();
+  process.stderr.write(
+    `Covers migrated: ${result.migrated}, kept at their old path: ${result.kept}, ` +
+      `failed: ${result.failed}\n`,
+  );
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+// Index the library's tags in the background; until the first scan is
+// done, lookups walk the folders as before
+try {
+  localFiles.useLibrary(new LibraryIndex());
+} catch (err) {
+  console.error("[sidecar] Library index unavailable:", err);
+}
+
 // Listen for commands from stdin
 process.stdin.setEncoding("utf-8");
 let stdinBuffer = "";
@@ -199,79 +648,149 @@ if (folders.length === 0) {
 }
 
 if (!presence.hasUpload) {
-  console.log("Warning: COPYPARTY_API_KEY not set, cover art upload disabled.");
+  console.log("Warning: no cover storage configured (COPYPARTY_API_KEY not set), cover art upload disabled.");
+}
+
+// Cover lookup for the current track; aborted when the track changes so a
+// slow upload for a skipped song doesn't hold up (or overwrite) the next one
+let coverLookup: { trackId: string; controller: AbortController } | null = null;
+
+function coverSignal(trackId: string): AbortSignal {
+  if (coverLookup?.trackId !== trackId) {
+    cancelCoverLookup();
+    coverLookup = { trackId, controller: new AbortController() };
+  }
+  return coverLookup.controller.signal;
+}
+
+function cancelCoverLookup() {
+  coverLookup?.controller.abort();
+  coverLookup = null;
+}
+
+function clearPresence(key: string, message: string) {
+  activityScheduler.set(null);
+  if (lastSentActivityKey !== key) {
+    lastSentActivityKey = key;
+    console.log(`Cleared presence - ${message}`);
+  }
+}
+
+function uploadQueueStatus(): UploadQueueStatus | null {
+  const status = getSharedUploadQueue().getStatus();
+  return status.pending > 0 || status.breaker.state !== "closed" ? status : null;
 }
 
 // Update Discord presence
 async function updatePresence(state: SpotifyState) {
   if (!state.isRunning) {
-    if (lastSentActivityKey !== "cleared:not-running") {
-      await rpc.user?.clearActivity();
-      lastSentActivityKey = "cleared:not-running";
-      console.log("Cleared presence - Spotify not running");
+    // Keep the last activity for a grace period so a restart doesn't wipe it
+    const holding = idleTimer.arm("not-running", presence.idle.notRunningGraceMs, () =>
+      clearPresence("cleared:not-running", "Spotify not running"),
+    );
+    if (!holding) {
+      clearPresence("cleared:not-running", "Spotify not running");
     }
+    cancelCoverLookup();
     emitStatus({ playing: false, reason: "spotify-not-running" });
     return;
   }
 
-  // Get cover URL for local files
-  const coverUrl = await presence.getCoverUrl(state.track);
+  const playing = state.state === "playing";
+  const paused = state.state === "paused";
 
-  // Build activity
-  const activity = presence.buildActivity(state, coverUrl);
+  // Privacy rules decide what (if anything) Discord may see
+  const privacy = (await presence.getPrivacyDecision(state.track))?.action;
+
+  // Get cover URL for local files
+  const signal = coverSignal(state.track.id);
+  const coverUrl = await presence.getCoverUrl(state.track, signal);
+  // The track changed while the cover was loading; a newer update handles it
+  if (signal.aborted) return;
+
+  // Build activity (file tags feed the text templates)
+  const tags = await presence.getTrackTags(state.track);
+  let activity = await presence.buildActivity(state, coverUrl, tags);
+
+  // A paused activity stays up until the idle timeout, if one is configured
+  if (paused && presence.idle.pausedMode === "timeout") {
+    const holding = idleTimer.arm("paused", presence.idle.pausedTimeoutMs, () =>
+      clearPresence("cleared:idle", "paused too long"),
+    );
+    if (!holding) activity = null;
+  } else {
+    idleTimer.cancel();
+  }
 
   // Get local file path if it's a local track
-  const filePath = state.track.source === "local" ? findLocalFile(state.track.id) : null;
+  const local = state.track.source === "local";
+  const filePath = local ? await findLocalFile(state.track.id) : null;
+  const matchPinned =
+    local &&
+    matchOverrides.get({
+      trackId: state.track.id,
+      title: state.track.title,
+      artist: state.track.artist,
+      album: state.track.album,
+    }) !== null;
+
+  const trackStatus = {
+    title: state.track.title,
+    artist: state.track.artist,
+    album: state.track.album,
+    coverUrl,
+    coverSource: coverUrl ? presence.getCoverSource(state.track) : null,
+    coverColors: coverUrl ? presence.getCoverColors(state.track) : null,
+    uploadQueue: uploadQueueStatus(),
+    source: state.track.source,
+    positionMs: state.positionMs,
+    durationMs: state.track.durationMs,
+    trackId: state.track.id,
+    filePath,
+    matchPinned,
+    privacy,
+  };
 
   if (activity) {
-    // Always update Discord activity - it handles deduplication internally
-    // This ensures seeks, position changes, etc. are reflected
-    await rpc.user?.setActivity(activity);
-    
-    const activityKey = `playing:${state.track.id}:${coverUrl || "none"}`;
+    // The scheduler skips no-op updates and coalesces bursts (seeks, skips)
+    // so the latest activity always reaches Discord within its rate limit
+    activityScheduler.set(activity);
+
+    const activityKey = `${playing ? "playing" : "paused"}:${state.track.id}:${coverUrl || "none"}`;
     if (activityKey !== lastSentActivityKey) {
       lastSentActivityKey = activityKey;
-      console.log(`Playing: ${state.track.title} - ${state.track.artist}`);
+      console.log(`${playing ? "Playing" : "Paused"}: ${state.track.title} - ${state.track.artist}`);
     }
-    
+
     emitStatus({
-      playing: true,
-      title: state.track.title,
-      artist: state.track.artist,
-      album: state.track.album,
-      coverUrl,
-      source: state.track.source,
-      positionMs: state.positionMs,
-      durationMs: state.track.durationMs,
-      trackId: state.track.id,
-      filePath,
+      playing,
+      reason: playing ? undefined : "paused",
+      ...trackStatus,
     });
+    return;
+  }
+
+  const hidden = privacy === "hide" && (playing || paused);
+  const expired = paused && idleTimer.reason === "paused";
+  if (hidden) {
+    clearPresence("cleared:hidden", "hidden by privacy rule");
+  } else if (expired) {
+    clearPresence("cleared:idle", "paused too long");
   } else {
-    await rpc.user?.clearActivity();
-    
-    if (lastSentActivityKey !== "cleared:not-playing") {
-      lastSentActivityKey = "cleared:not-playing";
-      console.log("Cleared presence - not playing");
-    }
-    emitStatus({
-      playing: false,
-      reason: "not-playing",
-      title: state.track.title,
-      artist: state.track.artist,
-      album: state.track.album,
-      coverUrl,
-      source: state.track.source,
-      positionMs: state.positionMs,
-      durationMs: state.track.durationMs,
-      trackId: state.track.id,
-      filePath,
-    });
+    clearPresence("cleared:not-playing", "not playing");
   }
+
+  emitStatus({
+    playing: false,
+    reason: hidden ? "hidden" : expired ? "idle" : paused ? "paused" : "not-playing",
+    ...trackStatus,
+  });
 }
 
-// Discord connection state
-let isConnected = false;
-let reconnectTimeout: Timer | null = null;
+// Cover cache changes are written in batches; write what is left on the
+// way out (signals exit through the lock's handlers)
+process.on("exit", () => getSharedCoverCache().flush());
+
 // Track last sent activity to avoid redundant Discord API calls
 let lastSentActivityKey: string | null = null;
 
@@ -279,50 +798,74 @@ let lastSentActivityKey: string | null = null;
 localFiles.onChange(() => {
   console.log("[sidecar] Local files changed, resetting activity key");
   lastSentActivityKey = null;
+  // A cover may have appeared for the current track; re-sync from a fresh poll
+  void resyncPresence();
 });
 
-async function connectToDiscord() {
-  if (reconnectTimeout) {
-    clearTimeout(reconnectTimeout);
-    reconnectTimeout = null;
-  }
+// A queued cover finally uploaded; it may belong to the current track
+getSharedUploadQueue().onUploaded(() => {
+  lastSentActivityKey = null;
+  void resyncPresence();
+});
 
-  try {
-    console.log("[sidecar] Connecting to Discord...");
-    await rpc.login();
-  } catch (err: unknown) {
-    console.error(
-      "[sidecar] Failed to connect to Discord, retrying in 5s...",
-      err,
-    );
+discord.onStateChange((state) => {
+  emitConnection(state);
+  if (state.status === "backoff") {
     emitStatus({ playing: false, reason: "discord-not-running" });
-    reconnectTimeout = setTimeout(connectToDiscord, 5000);
   }
-}
+});
 
-// Connect to Discord
-rpc.on("ready", () => {
-  isConnected = true;
-  console.log(`Connected to Discord as ${rpc.user?.username}`);
+discord.onReady(() => {
+  console.log(`Connected to Discord as ${discord.user?.username}`);
   emitStatus({ playing: false, reason: "idle" });
   emitConfig(getConfig());
-});
-
-rpc.on("disconnected", () => {
-  isConnected = false;
-  console.warn("[sidecar] Disconnected from Discord, retrying in 5s...");
-  reconnectTimeout = setTimeout(connectToDiscord, 5000);
+  // A fresh client shows nothing yet: put the last activity back right
+  // away, then catch up with events fired while disconnected
+  activityScheduler.resend();
+  void resyncPresence();
 });
 
 // Start initial connection
-void connectToDiscord();
+void discord.connect();
 
-// Poll Spotify and update presence
-spotify.onStateChange(async (state: SpotifyState) => {
-  if (!isConnected) return;
+async function syncPresence(state: SpotifyState) {
+  if (!discord.isConnected) return;
   try {
     await updatePresence(state);
   } catch (err) {
     console.error("Failed to update presence:", err);
   }
-}, 1000);
+}
+
+async function resyncPresence() {
+  try {
+    await syncPresence(await spotify.getState());
+  } catch {
+    // Player unavailable; the next playback event will catch up
+  }
+}
+
+// Presence, status and cover lookups follow semantic playback events
+// instead of every poll, so steady playback sends nothing to Discord.
+// playerOpened is always followed by trackChanged, so it is not listed.
+const PRESENCE_EVENTS: PlaybackEventType[] = [
+  "trackChanged",
+  "paused",
+  "resumed",
+  "seeked",
+  "stopped",
+  "playerClosed",
+];
+
+for (const type of PRESENCE_EVENTS) {
+  spotify.on(type, (event) => {
+    void syncPresence(event.state);
+  });
+}
+
+spotify.on("seeked", (event) => {
+  console.log(`[sidecar] Seek detected (${Math.round(event.driftMs / 1000)}s)`);
+});
+
+// Poll the player and dispatch events
+spotify.start(1000);
@@ -0,0 +1,245 @@
+/**
+ * Activity Scheduler
+ *
+ * Discord throttles Rich Presence updates (roughly 5 per 20 seconds) and
+ * silently drops anything above that, so a burst of seeks or skips can leave
+ * a stale activity on the profile. The scheduler sits between the presence
+ * flow and the RPC client:
+ * - skips updates identical to what Discord already shows
+ * - sends immediately while the rate window has room
+ * - otherwise keeps only the latest pending activity and sends it as soon
+ *   as the window allows
+ */
+
+import type { PresenceActivity } from "./presence.ts";
+
+export interface ActivityClient {
+  setActivity(activity: PresenceActivity): Promise<unknown>;
+  clearActivity(): Promise<unknown>;
+}
+
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface SchedulerOptions {
+  maxUpdates: number;
+  windowMs: number;
+  // Timestamps within this distance are treated as unchanged
+  timestampToleranceMs: number;
+  clock: SchedulerClock;
+}
+
+export interface SchedulerStats {
+  sent: number;
+  skipped: number;    // identical to the activity already shown
+  coalesced: number;  // replaced by a newer update before it was sent
+  dropped: number;    // no client connected, or the RPC call failed
+  pending: boolean;
+  nextSendAt: number | null;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+  maxUpdates: 5,
+  windowMs: 20_000,
+  timestampToleranceMs: 2000,
+  clock: systemClock,
+};
+
+// null means "clear the activity"
+type Update = PresenceActivity | null;
+
+const UNSET = Symbol("unset");
+
+function closeEnough(a: unknown, b: unknown, toleranceMs: number): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) <= toleranceMs;
+  }
+  return a === b;
+}
+
+/**
+ * Compare two updates, ignoring timestamp jitter from rebuilding the
+ * activity a few hundred ms later
+ */
+export function isSameActivity(
+  a: Update,
+  b: Update,
+  timestampToleranceMs: number = DEFAULT_OPTIONS.timestampToleranceMs,
+): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+
+  const { startTimestamp: aStart, endTimestamp: aEnd, ...aRest } = a;
+  const { startTimestamp: bStart, endTimestamp: bEnd, ...bRest } = b;
+
+  return (
+    JSON.stringify(aRest) === JSON.stringify(bRest) &&
+    closeEnough(aStart, bStart, timestampToleranceMs) &&
+    closeEnough(aEnd, bEnd, timestampToleranceMs)
+  );
+}
+
+export class ActivityScheduler {
+  private options: SchedulerOptions;
+  private sentAt: number[] = [];
+  private lastSent: Update | typeof UNSET = UNSET;
+  // Most recent update requested by the caller, sent or not
+  private latest: Update | typeof UNSET = UNSET;
+  private pending: Update | typeof UNSET = UNSET;
+  private timer: unknown = null;
+  private nextSendAt: number | null = null;
+  private counters = { sent: 0, skipped: 0, coalesced: 0, dropped: 0 };
+
+  constructor(
+    private getClient: () => ActivityClient | undefined,
+    options: Partial<SchedulerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Request an activity update (null clears the activity)
+   */
+  set(activity: Update): void {
+    this.latest = activity;
+
+    if (this.pending !== UNSET) {
+      this.pending = activity;
+      this.counters.coalesced++;
+      return;
+    }
+
+    if (
+      this.lastSent !== UNSET &&
+      isSameActivity(activity, this.lastSent, this.options.timestampToleranceMs)
+    ) {
+      this.counters.skipped++;
+      return;
+    }
+
+    const waitMs = this.getWaitMs();
+    if (waitMs === 0) {
+      void this.send(activity);
+      return;
+    }
+
+    this.pending = activity;
+    this.schedule(waitMs);
+  }
+
+  /**
+   * Forget what Discord is showing (e.g. after a reconnect) so the next
+   * update is always sent
+   */
+  reset(): void {
+    this.lastSent = UNSET;
+  }
+
+  /**
+   * Send the most recent activity again, e.g. to a freshly connected client
+   */
+  resend(): void {
+    this.reset();
+    if (this.latest !== UNSET) {
+      this.set(this.latest);
+    }
+  }
+
+  /**
+   * Cancel any pending update
+   */
+  destroy(): void {
+    if (this.timer !== null) {
+      this.options.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = UNSET;
+    this.nextSendAt = null;
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      ...this.counters,
+      pending: this.pending !== UNSET,
+      nextSendAt: this.nextSendAt,
+    };
+  }
+
+  private getWaitMs(): number {
+    const now = this.options.clock.now();
+    this.sentAt = this.sentAt.filter((t) => now - t < this.options.windowMs);
+
+    if (this.sentAt.length < this.options.maxUpdates) {
+      return 0;
+    }
+    return this.sentAt[0] + this.options.windowMs - now;
+  }
+
+  private schedule(waitMs: number): void {
+    this.nextSendAt = this.options.clock.now() + waitMs;
+    this.timer = this.options.clock.setTimeout(() => {
+      this.timer = null;
+      this.nextSendAt = null;
+      this.flush();
+    }, waitMs);
+  }
+
+  private flush(): void {
+    if (this.pending === UNSET) return;
+
+    const activity = this.pending;
+    this.pending = UNSET;
+
+    if (
+      this.lastSent !== UNSET &&
+      isSameActivity(activity, this.lastSent, this.options.timestampToleranceMs)
+    ) {
+      this.counters.skipped++;
+      return;
+    }
+
+    const waitMs = this.getWaitMs();
+    if (waitMs > 0) {
+      this.pending = activity;
+      this.schedule(waitMs);
+      return;
+    }
+
+    void this.send(activity);
+  }
+
+  private async send(activity: Update): Promise<void> {
+    const client = this.getClient();
+    if (!client) {
+      this.counters.dropped++;
+      return;
+    }
+
+    this.sentAt.push(this.options.clock.now());
+    this.lastSent = activity;
+
+    try {
+      if (activity) {
+        await client.setActivity(activity);
+      } else {
+        await client.clearActivity();
+      }
+      this.counters.sent++;
+    } catch (err) {
+      console.error("[scheduler] Failed to send activity:", err);
+      this.counters.dropped++;
+      // Unknown what Discord shows now; allow the next update through
+      this.lastSent = UNSET;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Spotify local-files.bnk parser
+ *
+ * Spotify keeps the local files it has found in local-files.bnk, one per
+ * account folder under its data directory. The file is a protobuf-style
+ * stream: after a short header, each file is a length-delimited record
+ * (field tag, varint length) whose own fields are the file's path, then
+ * the title (2), artist (3) and album (4) Spotify read from its tags, as
+ * length-delimited strings, plus numeric fields that are skipped here.
+ * Empty tags are left out of the record.
+ *
+ * Records are found by their framing rather than by what the path looks
+ * like, so headers and sections this parser doesn't know are stepped over,
+ * and paths of any length, on any volume and with any extension are read.
+ */
+
+import { existsSync, readdirSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export interface BnkEntry {
+  path: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+}
+
+interface Field {
+  number: number;
+  bytes: Uint8Array | null;   // length-delimited fields only
+}
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+// Record fields: the file's path, then the tags Spotify read from it
+const PATH_FIELD = 1;
+const TAG_FIELDS: Record<number, "title" | "artist" | "album"> = {
+  2: "title",
+  3: "artist",
+  4: "album",
+};
+
+// Larger "records" are data that happens to look like a tag
+const MAX_RECORD_BYTES = 64 * 1024;
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Spotify's account folders ("Users") on macOS and Linux, including the
+ * Snap and Flatpak builds. Not all of them exist.
+ */
+export function getSpotifyUsersDirs(home = process.env.HOME || homedir()): string[] {
+  return [
+    path.join(home, "Library", "Application Support", "Spotify", "Users"),
+    path.join(home, ".config", "spotify", "Users"),
+    path.join(home, "snap", "spotify", "current", ".config", "spotify", "Users"),
+    path.join(home, ".var", "app", "com.spotify.Client", "config", "spotify", "Users"),
+  ];
+}
+
+/**
+ * Every local-files.bnk on this machine, one per Spotify account
+ */
+export function findBnkFiles(home?: string): string[] {
+  const files: string[] = [];
+  for (const usersDir of getSpotifyUsersDirs(home)) {
+    try {
+      if (!existsSync(usersDir)) continue;
+      for (const entry of readdirSync(usersDir, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const bnkPath = path.join(usersDir, entry.name, "local-files.bnk");
+        if (existsSync(bnkPath)) files.push(bnkPath);
+      }
+    } catch {
+      // Unreadable data directory
+    }
+  }
+  return files;
+}
+
+function readVarint(buffer: Uint8Array, pos: number, end: number): [number, number] | null {
+  let value = 0;
+  for (let shift = 0; shift < 35 && pos < end; shift += 7) {
+    const byte = buffer[pos++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return [value, pos];
+  }
+  return null;
+}
+
+/**
+ * Decode the fields of a message spanning start..end exactly, or null if
+ * the bytes aren't one
+ */
+function decodeFields(buffer: Uint8Array, start: number, end: number): Field[] | null {
+  const fields: Field[] = [];
+  let pos = start;
+  while (pos < end) {
+    const key = readVarint(buffer, pos, end);
+    if (!key) return null;
+    const number = Math.floor(key[0] / 8);
+    const wireType = key[0] & 7;
+    if (number === 0) return null;
+    pos = key[1];
+
+    if (wireType === WIRE_VARINT) {
+      const value = readVarint(buffer, pos, end);
+      if (!value) return null;
+      pos = value[1];
+      fields.push({ number, bytes: null });
+    } else if (wireType === WIRE_FIXED64 || wireType === WIRE_FIXED32) {
+      pos += wireType === WIRE_FIXED64 ? 8 : 4;
+      if (pos > end) return null;
+      fields.push({ number, bytes: null });
+    } else if (wireType === WIRE_BYTES) {
+      const length = readVarint(buffer, pos, end);
+      if (!length || length[1] + length[0] > end) return null;
+      fields.push({ number, bytes: buffer.subarray(length[1], length[1] + length[0]) });
+      pos = length[1] + length[0];
+    } else {
+      return null;
+    }
+  }
+  return fields;
+}
+
+function decodeString(bytes: Uint8Array): string | null {
+  try {
+    const text = utf8.decode(bytes);
+    // Nested messages decode as text full of control characters
+    return /[\u0000-\u001f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An absolute file path (POSIX or Windows) or file:// URL, as a path
+ */
+function toFilePath(text: string): string | null {
+  let filePath = text;
+  if (text.startsWith("file://")) {
+    try {
+      filePath = fileURLToPath(text);
+    } catch {
+      return null;
+    }
+  } else if (!text.startsWith("/") && !/^[A-Za-z]:[\\/]/.test(text)) {
+    return null;
+  }
+  // A file, not a folder: its name has an extension
+  return /\.[^./\\]+$/.test(filePath) ? filePath : null;
+}
+
+/**
+ * Read the record starting at pos: a length-delimited field whose first
+ * field is a file path
+ */
+function readRecord(buffer: Uint8Array, pos: number): { entry: BnkEntry; end: number } | null {
+  const key = readVarint(buffer, pos, buffer.length);
+  if (!key || (key[0] & 7) !== WIRE_BYTES || key[0] < 8) return null;
+  const length = readVarint(buffer, key[1], buffer.length);
+  if (!length || length[0] === 0 || length[0] > MAX_RECORD_BYTES) return null;
+  const start = length[1];
+  const end = start + length[0];
+  if (end > buffer.length) return null;
+
+  const fields = decodeFields(buffer, start, end);
+  const pathField = fields?.[0];
+  if (!fields || pathField?.number !== PATH_FIELD || !pathField.bytes) return null;
+  const text = decodeString(pathField.bytes);
+  const filePath = text === null ? null : toFilePath(text);
+  if (!filePath) return null;
+
+  // Empty tags aren't written at all, so they go by field number
+  const entry: BnkEntry = { path: filePath };
+  for (const field of fields.slice(1)) {
+    const tag = TAG_FIELDS[field.number];
+    const value = tag && field.bytes ? decodeString(field.bytes) : null;
+    if (tag && value) entry[tag] = value;
+  }
+  return { entry, end };
+}
+
+/**
+ * Every file entry in a local-files.bnk, in file order
+ */
+export function parseBnk(buffer: Uint8Array): BnkEntry[] {
+  const entries: BnkEntry[] = [];
+  let pos = 0;
+  while (pos < buffer.length) {
+    const record = readRecord(buffer, pos);
+    if (record) {
+      entries.push(record.entry);
+      pos = record.end;
+    } else {
+      pos++;
+    }
+  }
+  return entries;
+}
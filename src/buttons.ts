@@ -0,0 +1,147 @@
+/**
+ * Activity buttons
+ *
+ * Discord shows up to two link buttons under an activity. Each configured
+ * button has a label and URL template (same placeholders as the text
+ * templates) and can be limited to a source or a local folder, e.g.
+ *   { label: "Listen on Spotify", url: "{spotifyUrl}", source: "spotify" }
+ *   { label: "Find on Bandcamp", url: "https://bandcamp.com/search?q={artist} {title}", source: "local" }
+ *
+ * The first two buttons that apply and render a valid URL are used.
+ */
+
+import { matchesFolder } from "./privacy.ts";
+import {
+  buildTemplateValues,
+  getTemplateFields,
+  renderTemplate,
+  validateTemplate,
+  type TemplateField,
+  type TemplateValues,
+  type TrackTags,
+} from "./templates.ts";
+import type { Track, TrackSource } from "./spotify.ts";
+
+// Discord limits
+export const MAX_BUTTONS = 2;
+export const BUTTON_LABEL_LIMIT = 32;
+export const BUTTON_URL_LIMIT = 512;
+
+export interface ActivityButton {
+  label: string;
+  url: string;
+}
+
+export interface ButtonRule {
+  enabled?: boolean;    // defaults to true
+  label: string;        // template
+  url: string;          // template; placeholder values are URL-encoded
+  source?: TrackSource;
+  folder?: string;      // local files under this folder only, "~" allowed
+}
+
+export interface ButtonError {
+  index: number;
+  message: string;
+}
+
+export const DEFAULT_BUTTONS: ButtonRule[] = [
+  { label: "Listen on Spotify", url: "{spotifyUrl}", source: "spotify" },
+];
+
+/**
+ * Whether a button needs the local file path (so callers can skip the lookup)
+ */
+export function needsButtonFilePath(rules: ButtonRule[] = DEFAULT_BUTTONS): boolean {
+  return rules.some((rule) => rule.enabled !== false && rule.folder);
+}
+
+/**
+ * Whether a button's label or URL uses any of the placeholders
+ */
+export function buttonUsesFields(rule: ButtonRule, fields: TemplateField[]): boolean {
+  return [rule.label, rule.url].some((template) =>
+    getTemplateFields(template ?? "").some((field) => fields.includes(field)),
+  );
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// URL-encode placeholder values, except ones that are whole URLs already
+function encodeValues(values: TemplateValues): TemplateValues {
+  const encoded = { ...values };
+  for (const key of Object.keys(encoded) as (keyof TemplateValues)[]) {
+    if (!isHttpUrl(encoded[key])) {
+      encoded[key] = encodeURIComponent(encoded[key]);
+    }
+  }
+  return encoded;
+}
+
+function ruleApplies(rule: ButtonRule, track: Track, filePath: string | null): boolean {
+  if (rule.enabled === false) return false;
+  if (rule.source && track.source !== rule.source) return false;
+  if (rule.folder && !matchesFolder(filePath, rule.folder)) return false;
+  return true;
+}
+
+export function renderButtons(
+  rules: ButtonRule[] = DEFAULT_BUTTONS,
+  track: Track,
+  tags: TrackTags = {},
+  filePath: string | null = null,
+): ActivityButton[] {
+  const values = buildTemplateValues(track, tags);
+  const urlValues = encodeValues(values);
+  const buttons: ActivityButton[] = [];
+
+  for (const rule of rules) {
+    if (buttons.length >= MAX_BUTTONS) break;
+    if (!ruleApplies(rule, track, filePath)) continue;
+    if (validateTemplate(rule.label).length || validateTemplate(rule.url).length) continue;
+
+    const label = renderTemplate(rule.label, values, BUTTON_LABEL_LIMIT);
+    // URLs are never truncated; a URL that doesn't fit is skipped
+    const rendered = renderTemplate(rule.url, urlValues, Number.POSITIVE_INFINITY);
+    if (!label || !isHttpUrl(rendered)) continue;
+    const url = new URL(rendered).href;
+    if (url.length > BUTTON_URL_LIMIT) continue;
+
+    buttons.push({ label, url });
+  }
+
+  return buttons;
+}
+
+export function validateButtons(rules: ButtonRule[] = []): ButtonError[] {
+  const errors: ButtonError[] = [];
+
+  rules.forEach((rule, index) => {
+    if (!rule.label?.trim()) {
+      errors.push({ index, message: "Button has no label" });
+    } else {
+      for (const message of validateTemplate(rule.label)) {
+        errors.push({ index, message: `Label: ${message}` });
+      }
+    }
+    if (!rule.url?.trim()) {
+      errors.push({ index, message: "Button has no URL" });
+    } else {
+      for (const message of validateTemplate(rule.url)) {
+        errors.push({ index, message: `URL: ${message}` });
+      }
+    }
+    if (rule.source && rule.source !== "local" && rule.source !== "spotify") {
+      errors.push({ index, message: `Unknown source "${rule.source}"` });
+    }
+  });
+
+  return errors;
+}
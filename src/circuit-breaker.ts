@@ -0,0 +1,106 @@
+/**
+ * Circuit breaker
+ *
+ * Stops calling a service that keeps failing. After `threshold` failures
+ * in a row the breaker opens: requests are refused without trying until
+ * the cooldown passes. Then one trial request goes through (half-open);
+ * success closes the breaker, failure opens it again for twice as long,
+ * up to maxCooldownMs.
+ */
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  threshold: number;
+  cooldownMs: number;
+  maxCooldownMs: number;
+  now: () => number;
+}
+
+export interface CircuitBreakerStatus {
+  state: BreakerState;
+  failures: number;        // failures in a row
+  retryAt: number | null;  // when an open breaker lets a trial through
+}
+
+export const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  threshold: 3,
+  cooldownMs: 30_000,
+  maxCooldownMs: 10 * 60_000,
+  now: () => Date.now(),
+};
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private failures = 0;
+  private trips = 0;
+  private openUntil = 0;
+  // Start of the half-open trial in flight; another is allowed once this
+  // one is older than the cooldown (its caller never reported back)
+  private trialStartedAt: number | null = null;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_BREAKER_OPTIONS, ...options };
+  }
+
+  get state(): BreakerState {
+    if (this.trips === 0) return "closed";
+    return this.options.now() < this.openUntil ? "open" : "half-open";
+  }
+
+  /**
+   * Whether a request may be made now. In the half-open state only the
+   * first caller gets a yes; it must report back with recordSuccess or
+   * recordFailure.
+   */
+  canRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open") return false;
+
+    const now = this.options.now();
+    if (this.trialStartedAt !== null && now - this.trialStartedAt < this.cooldown()) {
+      return false;
+    }
+    this.trialStartedAt = now;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.trips > 0) {
+      console.log("[breaker] Closed: storage is reachable again");
+    }
+    this.failures = 0;
+    this.trips = 0;
+    this.openUntil = 0;
+    this.trialStartedAt = null;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialStartedAt = null;
+    // A failed trial reopens right away; a closed breaker waits for the threshold
+    if (this.trips > 0 || this.failures >= this.options.threshold) {
+      this.trips++;
+      this.openUntil = this.options.now() + this.cooldown();
+      console.warn(
+        `[breaker] Open after ${this.failures} failures, next try in ` +
+          `${Math.round(this.cooldown() / 1000)}s`,
+      );
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.state;
+    return {
+      state,
+      failures: this.failures,
+      retryAt: state === "open" ? this.openUntil : null,
+    };
+  }
+
+  private cooldown(): number {
+    const { cooldownMs, maxCooldownMs } = this.options;
+    return Math.min(cooldownMs * 2 ** Math.max(0, this.trips - 1), maxCooldownMs);
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Persistent cover cache
+ *
+ * Remembers cover lookups across restarts in
+ * ~/.config/tini-presence/cover-cache.json, in two layers:
+ * - files:  audio file path + mtime + size -> cover hash (or "no cover"),
+ *           so unchanged files are never re-parsed or re-optimized. Folder
+ *           covers also record the folders and image they came from, so a
+ *           new or changed cover.jpg is picked up. Entries made with
+ *           another image profile are dropped.
+ * - covers: cover hash -> CDN URL, MIME type and upload time, so known
+ *           covers skip the HEAD request until the entry's TTL runs out.
+ *           Entries without a layout point at the old per-song upload
+ *           paths (see migrateCovers in presence.ts).
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import type { CoverColors, CoverSource } from "./cover.ts";
+import { hammingDistance } from "./perceptual-hash.ts";
+
+export interface FileEntry {
+  mtimeMs: number;
+  size: number;
+  hash: string | null;  // null: the file has no cover art
+  mimeType?: string;
+  source?: CoverSource;
+  dependencies?: Record<string, number>;  // path -> mtimeMs at lookup time
+  profile?: string;     // image profile key, unset for the default profile
+  colors?: CoverColors | null;  // null: colors couldn't be read
+}
+
+export interface CoverEntry {
+  url: string;
+  mimeType: string;
+  target: string;       // upload server + path the URL belongs to
+  uploadedAt: number;
+  checkedAt: number;    // last time the URL was known to work
+  layout?: "album";     // unset: uploaded under the old per-song path
+  phash?: string;       // perceptual hash, when perceptual dedupe is on
+}
+
+export interface LegacyCover {
+  hash: string;
+  entry: CoverEntry;
+  files: string[];      // cached audio files with this cover
+}
+
+export interface CoverLookup {
+  entry: CoverEntry;
+  fresh: boolean;       // false once the TTL has passed; revalidate before use
+}
+
+export interface CoverCacheOptions {
+  path: string;
+  ttlMs: number;
+  now: () => number;
+  saveDelayMs: number;  // changes within this window are written once
+}
+
+export interface CoverCacheStats {
+  hits: number;         // cover URLs served without extraction or HEAD
+  misses: number;       // lookups that needed extraction or upload
+  stale: number;        // entries past their TTL that needed revalidation
+  files: number;
+  covers: number;
+}
+
+interface CacheFile {
+  version: 1;
+  files: Record<string, FileEntry>;
+  covers: Record<string, CoverEntry>;
+}
+
+const CACHE_VERSION = 1;
+
+export const DEFAULT_COVER_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_SAVE_DELAY_MS = 2000;
+
+export function getCoverCachePath(): string {
+  const home = process.env.HOME || homedir();
+  return path.join(home, ".config", "tini-presence", "cover-cache.json");
+}
+
+function statFile(filePath: string): { mtimeMs: number; size: number } | null {
+  try {
+    const stat = statSync(filePath);
+    return { mtimeMs: stat.mtimeMs, size: stat.size };
+  } catch {
+    return null;
+  }
+}
+
+// The audio file and every folder or image its cover depended on
+function isUnchanged(filePath: string, entry: FileEntry): boolean {
+  const stat = statFile(filePath);
+  if (!stat || stat.mtimeMs !== entry.mtimeMs || stat.size !== entry.size) {
+    return false;
+  }
+  for (const [dependency, mtimeMs] of Object.entries(entry.dependencies ?? {})) {
+    if ((statFile(dependency)?.mtimeMs ?? -1) !== mtimeMs) return false;
+  }
+  return true;
+}
+
+export class CoverCache {
+  private options: CoverCacheOptions;
+  private files = new Map<string, FileEntry>();
+  private covers = new Map<string, CoverEntry>();
+  private counters = { hits: 0, misses: 0, stale: 0 };
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<CoverCacheOptions> = {}) {
+    this.options = {
+      path: getCoverCachePath(),
+      ttlMs: DEFAULT_COVER_CACHE_TTL_MS,
+      now: () => Date.now(),
+      saveDelayMs: DEFAULT_SAVE_DELAY_MS,
+      ...options,
+    };
+    this.load();
+  }
+
+  setTtl(ttlMs: number): void {
+    this.options.ttlMs = ttlMs;
+  }
+
+  /**
+   * Cover hash for an audio file, if the file is unchanged since it was
+   * cached with the same image profile
+   */
+  getFile(filePath: string, profile?: string): FileEntry | undefined {
+    const entry = this.files.get(filePath);
+    if (!entry) return undefined;
+
+    if (!isUnchanged(filePath, entry) || entry.profile !== profile) {
+      this.files.delete(filePath);
+      this.save();
+      return undefined;
+    }
+    return entry;
+  }
+
+  setFile(
+    filePath: string,
+    cover: {
+      hash: string | null;
+      mimeType?: string;
+      source?: CoverSource;
+      dependencies?: string[];
+      profile?: string;
+      colors?: CoverColors | null;
+    },
+  ): void {
+    const stat = statFile(filePath);
+    if (!stat) return;
+
+    const { dependencies, profile, ...rest } = cover;
+    const entry: FileEntry = { ...stat, ...rest };
+    if (profile) entry.profile = profile;
+    if (dependencies?.length) {
+      entry.dependencies = {};
+      for (const dependency of dependencies) {
+        entry.dependencies[dependency] = statFile(dependency)?.mtimeMs ?? -1;
+      }
+    }
+    this.files.set(filePath, entry);
+    this.save();
+  }
+
+  /**
+   * CDN URL for a cover hash on the given upload target
+   */
+  getCover(hash: string, target: string): CoverLookup | undefined {
+    const entry = this.covers.get(hash);
+    if (!entry || entry.target !== target) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    const fresh = this.options.now() - entry.checkedAt < this.options.ttlMs;
+    if (fresh) {
+      this.counters.hits++;
+    } else {
+      this.counters.stale++;
+    }
+    return { entry, fresh };
+  }
+
+  setCover(
+    hash: string,
+    cover: { url: string; mimeType: string; target: string; layout?: "album"; phash?: string },
+  ): void {
+    const now = this.options.now();
+    this.covers.set(hash, { ...cover, uploadedAt: now, checkedAt: now });
+    this.save();
+  }
+
+  /**
+   * A cover on the target whose perceptual hash is at most maxDistance
+   * bits from phash, closest first
+   */
+  findSimilar(
+    phash: string,
+    target: string,
+    maxDistance: number,
+  ): { hash: string; entry: CoverEntry } | undefined {
+    let best: { hash: string; entry: CoverEntry; distance: number } | undefined;
+    for (const [hash, entry] of this.covers) {
+      if (!entry.phash || entry.target !== target) continue;
+      const distance = hammingDistance(phash, entry.phash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { hash, entry, distance };
+      }
+    }
+    return best && { hash: best.hash, entry: best.entry };
+  }
+
+  /**
+   * Covers on the target still at their per-song upload path, with the
+   * files known to use them
+   */
+  getLegacyCovers(target: string): LegacyCover[] {
+    const legacy = new Map<string, LegacyCover>();
+    for (const [hash, entry] of this.covers) {
+      if (entry.target === target && !entry.layout) {
+        legacy.set(hash, { hash, entry, files: [] });
+      }
+    }
+    for (const [filePath, entry] of this.files) {
+      if (entry.hash) legacy.get(entry.hash)?.files.push(filePath);
+    }
+    return [...legacy.values()];
+  }
+
+  /**
+   * Mark a stale entry as verified
+   */
+  touchCover(hash: string): void {
+    const entry = this.covers.get(hash);
+    if (!entry) return;
+    entry.checkedAt = this.options.now();
+    this.save();
+  }
+
+  deleteCover(hash: string): void {
+    if (this.covers.delete(hash)) {
+      this.save();
+    }
+  }
+
+  /**
+   * Drop file entries for files that were removed or changed
+   */
+  prune(): number {
+    let removed = 0;
+    for (const [filePath, entry] of this.files) {
+      if (!isUnchanged(filePath, entry)) {
+        this.files.delete(filePath);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`[cover-cache] Pruned ${removed} changed or missing file(s)`);
+      this.save();
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.covers.clear();
+    this.counters = { hits: 0, misses: 0, stale: 0 };
+    this.save();
+  }
+
+  getStats(): CoverCacheStats {
+    return {
+      ...this.counters,
+      files: this.files.size,
+      covers: this.covers.size,
+    };
+  }
+
+  private load(): void {
+    try {
+      if (!existsSync(this.options.path)) return;
+      const data = JSON.parse(readFileSync(this.options.path, "utf-8")) as CacheFile;
+      if (data.version !== CACHE_VERSION) return;
+      this.files = new Map(Object.entries(data.files ?? {}));
+      this.covers = new Map(Object.entries(data.covers ?? {}));
+    } catch {
+      // Corrupted cache, start empty
+    }
+  }
+
+  /**
+   * Write pending changes now: on shutdown and after bulk operations.
+   * The file is replaced in one rename, so a crash can't leave half of it.
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    const data: CacheFile = {
+      version: CACHE_VERSION,
+      files: Object.fromEntries(this.files),
+      covers: Object.fromEntries(this.covers),
+    };
+    const temp = `${this.options.path}.${process.pid}.tmp`;
+    try {
+      mkdirSync(path.dirname(this.options.path), { recursive: true });
+      writeFileSync(temp, JSON.stringify(data));
+      renameSync(temp, this.options.path);
+    } catch (err) {
+      console.warn("[cover-cache] Failed to save:", err);
+    }
+  }
+
+  // Changes are written together after a short delay, so a bulk sync
+  // doesn't rewrite the whole file once per track
+  private save(): void {
+    this.dirty = true;
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), this.options.saveDelayMs);
+    this.saveTimer.unref?.();
+  }
+}
+
+// Shared by every PresenceService so stats survive config reloads
+let sharedCache: CoverCache | null = null;
+
+export function getSharedCoverCache(): CoverCache {
+  if (!sharedCache) {
+    sharedCache = new CoverCache();
+  }
+  return sharedCache;
+}
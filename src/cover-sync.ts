@@ -0,0 +1,213 @@
+/**
+ * Bulk cover sync
+ *
+ * Uploads the cover of every file in the local library ahead of time
+ * (Spotify's local files plus the music folders), so a track's first play
+ * doesn't wait for extraction and upload. Covers go through the same
+ * cover cache as playback, so files synced before are skipped cheaply.
+ *
+ * Files finished by an interrupted run are recorded in
+ * ~/.config/tini-presence/cover-sync.json, along with the storage target
+ * they went to; the next run to the same target skips them and retries the
+ * rest, including the ones that failed.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import type { FileCover } from "./presence.ts";
+import { isAbortError } from "./single-flight.ts";
+
+export type CoverSyncState = "running" | "done" | "cancelled";
+
+export interface CoverSyncProgress {
+  state: CoverSyncState;
+  total: number;
+  done: number;       // files handled so far, failures included
+  uploaded: number;   // covers sent to storage by this run
+  skipped: number;    // already uploaded, or no cover art
+  failed: number;
+  resumed: number;    // files finished by an earlier, interrupted run
+}
+
+export interface CoverSyncOptions {
+  concurrency: number;
+  // Resume state; null keeps nothing on disk
+  statePath: string | null;
+  // Storage the covers go to; a run to another one starts over
+  target: string | null;
+  // Minimum time between progress callbacks (the final one always fires)
+  progressIntervalMs: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: CoverSyncProgress) => void;
+}
+
+// Uploads one file's cover; null if it has none
+export type SyncFile = (filePath: string, signal: AbortSignal) => Promise<FileCover | null>;
+
+interface SyncStateFile {
+  version: 2;
+  target: string | null;
+  done: string[];
+}
+
+const STATE_VERSION = 2;
+// Resume state is written after this many files (and when the run stops)
+const SAVE_EVERY = 20;
+// Music folders are walked this deep, like the file finder's search
+const MAX_DEPTH = 5;
+
+const AUDIO_EXTENSIONS = [".mp3", ".m4a", ".flac", ".wav", ".ogg", ".opus", ".aac", ".wma"];
+
+export const DEFAULT_COVER_SYNC_CONCURRENCY = 3;
+
+export function getCoverSyncStatePath(): string {
+  const home = process.env.HOME || homedir();
+  return path.join(home, ".config", "tini-presence", "cover-sync.json");
+}
+
+async function walkAudioFiles(dir: string, depth: number, found: string[]): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (depth < MAX_DEPTH) await walkAudioFiles(fullPath, depth + 1, found);
+    } else if (AUDIO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      found.push(fullPath);
+    }
+  }
+}
+
+/**
+ * Every audio file in the music folders plus Spotify's local files, each
+ * once, in a stable order. Folders are read asynchronously so the walk
+ * doesn't hold up the sidecar.
+ */
+export async function collectLibraryFiles(folders: string[], spotifyPaths: string[]): Promise<string[]> {
+  const found: string[] = [];
+  for (const folder of folders) {
+    await walkAudioFiles(folder, 0, found);
+  }
+  for (const filePath of spotifyPaths) {
+    if (existsSync(filePath)) found.push(filePath);
+  }
+  return [...new Set(found.map((filePath) => path.resolve(filePath)))].sort();
+}
+
+function loadState(statePath: string | null, target: string | null): Set<string> {
+  if (!statePath) return new Set();
+  try {
+    const data = JSON.parse(readFileSync(statePath, "utf-8")) as SyncStateFile;
+    return data.version === STATE_VERSION && data.target === target ? new Set(data.done) : new Set();
+  } catch {
+    return new Set();
+  }
+}
+
+function saveState(statePath: string | null, target: string | null, done: Set<string>): void {
+  if (!statePath) return;
+  const data: SyncStateFile = { version: STATE_VERSION, target, done: [...done] };
+  try {
+    mkdirSync(path.dirname(statePath), { recursive: true });
+    writeFileSync(statePath, JSON.stringify(data));
+  } catch (err) {
+    console.warn("[cover-sync] Failed to save progress:", err);
+  }
+}
+
+/**
+ * Sync the covers of the given files, at most `concurrency` at a time.
+ * Aborting the signal stops starting new files, keeps the resume state and
+ * resolves with state "cancelled".
+ */
+export async function syncCovers(
+  files: string[],
+  syncFile: SyncFile,
+  options: Partial<CoverSyncOptions> = {},
+): Promise<CoverSyncProgress> {
+  const {
+    concurrency = DEFAULT_COVER_SYNC_CONCURRENCY,
+    statePath = getCoverSyncStatePath(),
+    target = null,
+    progressIntervalMs = 250,
+    signal = new AbortController().signal,
+    onProgress,
+  } = options;
+
+  const finished = loadState(statePath, target);
+  const pending = files.filter((filePath) => !finished.has(filePath));
+  const progress: CoverSyncProgress = {
+    state: "running",
+    total: files.length,
+    done: files.length - pending.length,
+    uploaded: 0,
+    skipped: 0,
+    failed: 0,
+    resumed: files.length - pending.length,
+  };
+  if (progress.resumed > 0) {
+    console.log(`[cover-sync] Resuming: ${progress.resumed} of ${files.length} files already done`);
+  }
+
+  let lastReport = 0;
+  const report = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastReport < progressIntervalMs) return;
+    lastReport = now;
+    onProgress?.({ ...progress });
+  };
+  report(true);
+
+  let unsaved = 0;
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length && !signal.aborted) {
+      const filePath = pending[next++];
+      try {
+        const cover = await syncFile(filePath, signal);
+        if (cover?.status === "uploaded") {
+          progress.uploaded++;
+        } else {
+          progress.skipped++;
+        }
+        finished.add(filePath);
+        if (++unsaved >= SAVE_EVERY) {
+          unsaved = 0;
+          saveState(statePath, target, finished);
+        }
+      } catch (err) {
+        if (signal.aborted && isAbortError(err)) break;
+        console.warn(`[cover-sync] Failed: ${filePath}:`, err);
+        progress.failed++;
+      }
+      progress.done++;
+      report();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker),
+  );
+
+  if (signal.aborted) {
+    progress.state = "cancelled";
+    saveState(statePath, target, finished);
+  } else {
+    progress.state = "done";
+    // Finished: the next run starts over (cached files are cheap to skip)
+    if (statePath) rmSync(statePath, { force: true });
+  }
+  console.log(
+    `[cover-sync] ${progress.state === "done" ? "Finished" : "Cancelled"}: ` +
+      `${progress.uploaded} uploaded, ${progress.skipped} skipped, ` +
+      `${progress.failed} failed of ${progress.total}`,
+  );
+  report(true);
+  return progress;
+}
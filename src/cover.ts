@@ -1,188 +1,517 @@
 import * as mm from "music-metadata";
 import { createHash } from "node:crypto";
-import { existsSync } from "node:fs";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
 import path from "node:path";
-type SharpModule = (input: Buffer) => import("sharp").Sharp;
-
-type JimpModule = {
-  read: (data: Buffer) => Promise<{
-    getWidth: () => number;
-    getHeight: () => number;
-    scaleToFit: (w: number, h: number) => void;
-    quality: (q: number) => void;
-    getBufferAsync: (mime: string) => Promise<Buffer>;
-  }>;
-  MIME_JPEG: string;
+import {
+  DEFAULT_IMAGE_PROFILE,
+  imageProfileKey,
+  type ImageProfile,
+} from "./image-profile.ts";
+import {
+  encodeWith,
+  getImageBackend,
+  optimizeWith,
+  type ImageSize,
+  type RgbPixels,
+} from "./image-backend.ts";
+import { extractPalette, type Palette } from "./palette.ts";
+import { differenceHash } from "./perceptual-hash.ts";
+
+// Where a cover came from: the audio file's tags, an image next to it
+// (cover.jpg, folder.png, ...), the per-album override folder, or a
+// generated placeholder
+export type CoverSource = "embedded" | "folder" | "override" | "placeholder" | "pinned";
+
+// Pictures smaller than this (on either side) are only used when no
+// bigger one decodes, so a tagger's 64px thumbnail loses to the real cover
+export const MIN_PICTURE_SIZE = 128;
+
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: string;
+  hash: string;
+  source: CoverSource;
+  sourcePath?: string;  // image file for folder, override and pinned covers
+}
+
+export interface CoverOptions {
+  // Image names to look for next to the file and in its parent, in order.
+  // Matched case-insensitively; "cover" or "cover.*" matches any image type.
+  folderImageNames?: string[];
+  // Folder with "{artist} - {album}.jpg" or "{album}.jpg" images
+  overrideFolder?: string | null;
+  // Generate artwork from the album and artist when nothing else is found
+  placeholder?: boolean;
+  // Size, format and quality of the uploaded image (see image-profile.ts)
+  image?: ImageProfile;
+}
+
+export interface AlbumHint {
+  artist?: string;
+  album?: string;
+}
+
+export interface CoverResolution {
+  cover: CoverArt | null;
+  // Files and folders whose changes could change the result
+  dependencies: string[];
+  // Artist and album from the hint, else from the file's tags
+  album: AlbumHint;
+}
+
+// Colors and a tiny preview for the UI, shown before the cover loads
+export interface CoverColors extends Palette {
+  thumbnail: string;  // data: URL, about 16px
+}
+
+export const DEFAULT_FOLDER_IMAGE_NAMES = ["cover", "folder", "front", "album", "albumart"];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
 };
 
-let sharpModule: SharpModule | null | undefined;
-let jimpModule: JimpModule | null | undefined;
+export function hashBuffer(buffer: Uint8Array): string {
+  return createHash("sha256").update(buffer).digest("hex").slice(0, 16);
+}
 
-async function loadSharp() {
-  if (sharpModule !== undefined) {
-    return sharpModule;
+/**
+ * Cover hash. Non-default image profiles are part of it, so a profile
+ * change gives new upload paths.
+ */
+export function hashCover(data: Uint8Array, profile: ImageProfile = DEFAULT_IMAGE_PROFILE): string {
+  const key = imageProfileKey(profile);
+  if (!key) return hashBuffer(data);
+  return createHash("sha256").update(`${key}\n`).update(data).digest("hex").slice(0, 16);
+}
+
+/**
+ * Resize and re-encode an image for Discord with the selected image
+ * backend (see image-backend.ts). Returns the original if no backend works.
+ */
+async function optimizeImage(
+  data: Uint8Array,
+  mimeType: string,
+  profile: ImageProfile = DEFAULT_IMAGE_PROFILE,
+): Promise<{ data: Uint8Array; mimeType: string }> {
+  const backend = await getImageBackend();
+  if (!backend) {
+    return { data, mimeType };
   }
   try {
-    const mod = await import("sharp");
-    sharpModule = mod.default ?? mod;
-    return sharpModule;
+    const result = await optimizeWith(backend, data, mimeType, profile);
+    if (result.data !== data) {
+      console.log(
+        `[cover] Optimized (${backend.name}): ${Math.round(data.length / 1024)}KB -> ${Math.round(result.data.length / 1024)}KB`,
+      );
+    }
+    return result;
   } catch (err) {
-    sharpModule = null;
-    console.warn("[cover] sharp not available, skipping optimization:", err);
-    return null;
+    console.error("[cover] Failed to optimize image:", err);
+    // Return original if optimization fails
+    return { data, mimeType };
   }
 }
 
-async function loadJimp() {
-  if (jimpModule !== undefined) {
-    return jimpModule;
+/**
+ * Decode an image to check it and get its size. Returns null for corrupt
+ * images; without any decoder the size is unknown (0x0) but not rejected.
+ */
+async function probeImage(data: Uint8Array): Promise<ImageSize | null> {
+  const backend = await getImageBackend();
+  if (!backend) {
+    return { width: 0, height: 0 };
   }
   try {
-    const mod = (await import("jimp")) as unknown as { default?: JimpModule } & JimpModule;
-    jimpModule = (mod.default ?? mod) as JimpModule;
-    return jimpModule;
-  } catch (err) {
-    jimpModule = null;
-    console.warn("[cover] jimp not available, skipping optimization:", err);
+    return await backend.probe(data);
+  } catch {
     return null;
   }
 }
 
-export async function getImageOptimizerStatus() {
-  const sharp = await loadSharp();
-  const jimp = await loadJimp();
-  return {
-    sharp: !!sharp,
-    jimp: !!jimp,
-  };
+function isFrontCover(picture: mm.IPicture): boolean {
+  return picture.type?.toLowerCase() === "cover (front)";
 }
 
-// Discord recommends 512x512 for activity images
-// Max size ~256KB to avoid loading issues
-const MAX_IMAGE_SIZE = 512;
-const MAX_FILE_SIZE = 256 * 1024; // 256KB
+/**
+ * Pick the best embedded picture, trying in order:
+ * 1. the largest front cover of at least MIN_PICTURE_SIZE
+ * 2. the largest picture of at least MIN_PICTURE_SIZE
+ * 3. the largest front cover, then the largest picture of any size
+ * Pictures that fail to decode are skipped.
+ */
+export async function selectPicture(
+  pictures: mm.IPicture[],
+  minSize = MIN_PICTURE_SIZE,
+): Promise<mm.IPicture | null> {
+  const candidates: (ImageSize & { picture: mm.IPicture })[] = [];
+  for (const picture of pictures) {
+    const size = await probeImage(picture.data);
+    if (!size) {
+      console.warn(`[cover] Skipping corrupt embedded picture (${picture.type ?? "untyped"})`);
+      continue;
+    }
+    candidates.push({ ...size, picture });
+  }
 
-export interface CoverArt {
-  data: Uint8Array;
-  mimeType: string;
-  hash: string;
-}
+  type Candidate = (typeof candidates)[number];
+  const largeEnough = (c: Candidate) => Math.min(c.width, c.height) >= minSize;
+  const tiers = [
+    (c: Candidate) => isFrontCover(c.picture) && largeEnough(c),
+    largeEnough,
+    (c: Candidate) => isFrontCover(c.picture),
+    () => true,
+  ];
+
+  for (const tier of tiers) {
+    const matching = candidates.filter(tier);
+    if (matching.length === 0) continue;
+    // Largest area wins; byte size breaks ties (and stands in for unknown sizes)
+    const best = matching.reduce((a, b) => {
+      const areaA = a.width * a.height;
+      const areaB = b.width * b.height;
+      if (areaA !== areaB) return areaB > areaA ? b : a;
+      return b.picture.data.length > a.picture.data.length ? b : a;
+    });
+    return best.picture;
+  }
 
-export function hashBuffer(buffer: Uint8Array): string {
-  return createHash("sha256").update(buffer).digest("hex").slice(0, 16);
+  return null;
 }
 
 /**
- * Compress and resize image for Discord
- * - Resize to max 512x512
- * - Convert to JPEG for smaller size
- * - Target ~256KB max
+ * Best embedded picture (see selectPicture) plus album tags
  */
-async function optimizeImage(data: Uint8Array, mimeType: string): Promise<{ data: Uint8Array; mimeType: string }> {
+async function readEmbeddedPicture(
+  filePath: string,
+): Promise<{ data: Uint8Array; mimeType: string; tags: AlbumHint } | null> {
   try {
-    // If already small enough and JPEG, return as-is
-    if (data.length <= MAX_FILE_SIZE && mimeType === "image/jpeg") {
-      return { data, mimeType };
+    const metadata = await mm.parseFile(filePath);
+    const tags = {
+      artist: metadata.common.albumartist || metadata.common.artist,
+      album: metadata.common.album,
+    };
+    const picture = await selectPicture(metadata.common.picture ?? []);
+    if (!picture) {
+      return { data: new Uint8Array(), mimeType: "", tags };
     }
+    return { data: new Uint8Array(picture.data), mimeType: picture.format, tags };
+  } catch {
+    // Unreadable tags; folder images may still apply
+    return null;
+  }
+}
 
-    const sharp = await loadSharp();
-    if (sharp) {
-      // Process with sharp
-      let image = sharp(Buffer.from(data));
-      const metadata = await image.metadata();
-
-      // Resize if larger than MAX_IMAGE_SIZE
-      if (metadata.width && metadata.height) {
-        if (metadata.width > MAX_IMAGE_SIZE || metadata.height > MAX_IMAGE_SIZE) {
-          image = image.resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, {
-            fit: "inside",
-            withoutEnlargement: true,
-          });
-        }
-      }
+function listImages(dir: string): string[] {
+  try {
+    return readdirSync(dir).filter(
+      (name) => IMAGE_MIME_TYPES[path.extname(name).toLowerCase()] !== undefined,
+    );
+  } catch {
+    return [];
+  }
+}
 
-      // Convert to JPEG with quality adjustment
-      let quality = 90;
-      let result = await image.jpeg({ quality, mozjpeg: true }).toBuffer();
+// "cover" and "cover.*" match any image type, "cover.png" only that file
+function findImage(dir: string, names: string[]): string | null {
+  const images = listImages(dir);
+  for (const name of names) {
+    const wanted = name.toLowerCase().replace(/\.\*$/, "");
+    const hasExtension = IMAGE_MIME_TYPES[path.extname(wanted)] !== undefined;
+    const match = images.find((image) => {
+      const lower = image.toLowerCase();
+      return hasExtension
+        ? lower === wanted
+        : path.basename(lower, path.extname(lower)) === wanted;
+    });
+    if (match) return path.join(dir, match);
+  }
+  return null;
+}
 
-      // If still too large, reduce quality
-      while (result.length > MAX_FILE_SIZE && quality > 50) {
-        quality -= 10;
-        result = await image.jpeg({ quality, mozjpeg: true }).toBuffer();
-      }
+// Characters that can't appear in file names on macOS or Windows
+function toFileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*]/g, "_").trim();
+}
 
-      console.log(`[cover] Optimized: ${Math.round(data.length / 1024)}KB -> ${Math.round(result.length / 1024)}KB`);
+function expandHome(dir: string): string {
+  return dir.startsWith("~") ? path.join(homedir(), dir.slice(1)) : dir;
+}
 
-      return {
-        data: new Uint8Array(result),
-        mimeType: "image/jpeg",
-      };
+async function loadImage(
+  imagePath: string,
+  source: CoverSource,
+  profile: ImageProfile,
+): Promise<CoverArt | null> {
+  try {
+    const raw = new Uint8Array(readFileSync(imagePath));
+    const mimeType = IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()];
+    const optimized = await optimizeImage(raw, mimeType, profile);
+    return { ...optimized, hash: hashCover(optimized.data, profile), source, sourcePath: imagePath };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a cover for an audio file, trying in order:
+ * 0. an image file (a cover pinned in match-overrides.ts) is its own cover
+ * 1. the best embedded picture, preferring the front cover
+ * 2. a well-known image (cover.jpg, folder.png, ...) in the file's folder,
+ *    then in its parent (for "Album/CD1/track.mp3" layouts)
+ * 3. "{artist} - {album}" or "{album}" in the override folder
+ * 4. a generated placeholder, if enabled
+ */
+export async function resolveCoverArt(
+  filePath: string,
+  options: CoverOptions = {},
+  hint: AlbumHint = {},
+): Promise<CoverResolution> {
+  const dependencies: string[] = [];
+  if (!existsSync(filePath)) {
+    return { cover: null, dependencies, album: hint };
+  }
+
+  const profile = options.image ?? DEFAULT_IMAGE_PROFILE;
+  if (IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()]) {
+    return { cover: await loadImage(filePath, "pinned", profile), dependencies, album: hint };
+  }
+
+  const embedded = await readEmbeddedPicture(filePath);
+  const artist = hint.artist || embedded?.tags.artist;
+  const album = hint.album || embedded?.tags.album;
+  if (embedded && embedded.data.length > 0) {
+    const { data, mimeType } = await optimizeImage(embedded.data, embedded.mimeType, profile);
+    return {
+      cover: { data, mimeType, hash: hashCover(data, profile), source: "embedded" },
+      dependencies,
+      album: { artist, album },
+    };
+  }
+
+  const names = options.folderImageNames ?? DEFAULT_FOLDER_IMAGE_NAMES;
+  if (names.length > 0) {
+    const dir = path.dirname(filePath);
+    const dirs = path.dirname(dir) === dir ? [dir] : [dir, path.dirname(dir)];
+    for (const candidate of dirs) {
+      dependencies.push(candidate);
+      const imagePath = findImage(candidate, names);
+      const cover = imagePath ? await loadImage(imagePath, "folder", profile) : null;
+      if (cover && imagePath) {
+        return { cover, dependencies: [...dependencies, imagePath], album: { artist, album } };
+      }
     }
+  }
 
-    const Jimp = await loadJimp();
-    if (!Jimp) {
-      return { data, mimeType };
+  const overrideFolder = options.overrideFolder ? expandHome(options.overrideFolder) : null;
+  if (overrideFolder && album) {
+    dependencies.push(overrideFolder);
+    const candidates = artist
+      ? [`${toFileName(artist)} - ${toFileName(album)}`, toFileName(album)]
+      : [toFileName(album)];
+    const imagePath = findImage(overrideFolder, candidates);
+    const cover = imagePath ? await loadImage(imagePath, "override", profile) : null;
+    if (cover && imagePath) {
+      return { cover, dependencies: [...dependencies, imagePath], album: { artist, album } };
     }
+  }
 
-    const image = await Jimp.read(Buffer.from(data));
-    const width = image.getWidth();
-    const height = image.getHeight();
+  if (options.placeholder) {
+    const cover = await renderPlaceholder({ artist, album }, profile);
+    // Folder images added later still take over
+    return { cover, dependencies, album: { artist, album } };
+  }
 
-    if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
-      image.scaleToFit(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE);
-    }
+  return { cover: null, dependencies, album: { artist, album } };
+}
 
-    let quality = 90;
-    image.quality(quality);
-    let result = await image.getBufferAsync(Jimp.MIME_JPEG);
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
 
-    while (result.length > MAX_FILE_SIZE && quality > 50) {
-      quality -= 10;
-      image.quality(quality);
-      result = await image.getBufferAsync(Jimp.MIME_JPEG);
+// Word-wrap into at most maxLines lines, ending with "…" if cut short
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
     }
+    if (line) lines.push(line);
+    line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (line) lines.push(line);
 
-    console.log(`[cover] Optimized (jimp): ${Math.round(data.length / 1024)}KB -> ${Math.round(result.length / 1024)}KB`);
-
-    return {
-      data: new Uint8Array(result),
-      mimeType: "image/jpeg",
-    };
-  } catch (err) {
-    console.error("[cover] Failed to optimize image:", err);
-    // Return original if optimization fails
-    return { data, mimeType };
+  if (lines.length > maxLines) {
+    const last = lines[maxLines - 1];
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${last.slice(0, maxChars - 1)}…`;
   }
+  return lines;
 }
 
-export async function extractCoverArt(filePath: string): Promise<CoverArt | null> {
-  try {
-    if (!existsSync(filePath)) {
-      return null;
-    }
+interface PlaceholderLayout {
+  album: string;
+  artist: string;
+  hues: [number, number];
+}
 
-    const metadata = await mm.parseFile(filePath);
-    const picture = metadata.common.picture?.[0];
+// Labels and gradient hues, seeded from the album and artist
+function layoutPlaceholder(hint: AlbumHint): PlaceholderLayout {
+  const album = hint.album?.trim() || "Unknown Album";
+  const artist = hint.artist?.trim() || "Unknown Artist";
+  const seed = createHash("sha256")
+    .update(`${artist.toLowerCase()}\n${album.toLowerCase()}`)
+    .digest();
+
+  const hue = Math.round((seed.readUInt16BE(0) / 0xffff) * 360);
+  // Second hue 40-140 degrees away keeps the gradient visible but calm
+  const hue2 = (hue + 40 + Math.round((seed[2] / 0xff) * 100)) % 360;
+  return { album, artist, hues: [hue, hue2] };
+}
 
-    if (!picture) {
-      return null;
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = saturation * (1 - Math.abs(2 * lightness - 1));
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Placeholder background: a diagonal gradient, top left to bottom right
+ */
+function drawPlaceholderGradient({ hues }: PlaceholderLayout, size: number): RgbPixels {
+  const from = hslToRgb(hues[0], 0.6, 0.48);
+  const to = hslToRgb(hues[1], 0.65, 0.22);
+  const data = new Uint8Array(size * size * 3);
+  const span = Math.max(1, 2 * (size - 1));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const t = (x + y) / span;
+      const i = (y * size + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      }
     }
+  }
+  return { width: size, height: size, data };
+}
+
+/**
+ * Placeholder text: the album and artist in white, laid out on a 512 grid
+ * and scaled to the requested size. Transparent, drawn over the gradient.
+ */
+function buildPlaceholderSvg({ album, artist }: PlaceholderLayout, pixels: number): string {
+  const size = 512;
+  const albumLines = wrapText(album, 18, 3);
+  const lineHeight = 52;
+  const albumTop = size - 96 - albumLines.length * lineHeight;
+  const albumText = albumLines
+    .map(
+      (line, i) =>
+        `<text x="40" y="${albumTop + (i + 1) * lineHeight}" font-size="44" font-weight="700">${escapeXml(line)}</text>`,
+    )
+    .join("");
+  const artistLine = wrapText(artist, 30, 1)[0] ?? "";
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${size} ${size}">`,
+    '<g fill="#ffffff" font-family="Helvetica, Arial, sans-serif">',
+    albumText,
+    `<text x="40" y="${size - 48}" font-size="28" fill-opacity="0.8">${escapeXml(artistLine)}</text>`,
+    "</g>",
+    "</svg>",
+  ].join("");
+}
+
+/**
+ * Render placeholder artwork: a gradient with colors seeded from the album
+ * and artist, so the same album always gets the same image. sharp writes
+ * both on top; Jimp, which can't draw text, leaves the gradient bare.
+ * Encoded following the image profile (512x512 JPEG by default).
+ */
+export async function renderPlaceholder(
+  hint: AlbumHint,
+  profile: ImageProfile = DEFAULT_IMAGE_PROFILE,
+): Promise<CoverArt | null> {
+  const backend = await getImageBackend();
+  if (!backend) {
+    console.warn("[cover] Could not render placeholder artwork (no image backend)");
+    return null;
+  }
+  try {
+    const layout = layoutPlaceholder(hint);
+    const image = await backend.create(drawPlaceholderGradient(layout, profile.size));
+    image.overlay?.(new TextEncoder().encode(buildPlaceholderSvg(layout, profile.size)));
+    const { data, mimeType } = await encodeWith(backend, image, profile);
+    return { data, mimeType, hash: hashCover(data, profile), source: "placeholder" };
+  } catch (err) {
+    console.error("[cover] Could not render placeholder artwork:", err);
+    return null;
+  }
+}
 
-    const rawData = new Uint8Array(picture.data);
-    
-    // Optimize large images
-    const { data, mimeType } = await optimizeImage(rawData, picture.format);
+// Pixels looked at for the palette, and the preview's size
+const PALETTE_SAMPLE_SIZE = 64;
+const THUMBNAIL_PROFILE: ImageProfile = {
+  ...DEFAULT_IMAGE_PROFILE,
+  size: 16,
+  quality: 60,
+  minQuality: 60,
+};
 
+/**
+ * Palette and a data: URL thumbnail for a cover. Null if no image
+ * backend works or the image can't be decoded.
+ */
+export async function analyzeCover(data: Uint8Array, mimeType: string): Promise<CoverColors | null> {
+  const backend = await getImageBackend();
+  if (!backend) return null;
+  try {
+    const palette = extractPalette((await backend.pixels(data, PALETTE_SAMPLE_SIZE)).data);
+    if (!palette) return null;
+    const thumbnail = await optimizeWith(backend, data, mimeType, THUMBNAIL_PROFILE);
     return {
-      data,
-      mimeType,
-      hash: hashBuffer(data),
+      ...palette,
+      thumbnail: `data:${thumbnail.mimeType};base64,${Buffer.from(thumbnail.data).toString("base64")}`,
     };
-  } catch {
+  } catch (err) {
+    console.warn("[cover] Could not read cover colors:", err);
+    return null;
+  }
+}
+
+/**
+ * Perceptual hash of a cover (see perceptual-hash.ts), or null if no image
+ * backend works or the image can't be decoded
+ */
+export async function perceptualHash(data: Uint8Array): Promise<string | null> {
+  const backend = await getImageBackend();
+  if (!backend) return null;
+  try {
+    return differenceHash(await backend.pixels(data, PALETTE_SAMPLE_SIZE));
+  } catch (err) {
+    console.warn("[cover] Could not hash cover:", err);
     return null;
   }
 }
 
+export async function extractCoverArt(
+  filePath: string,
+  options?: CoverOptions,
+): Promise<CoverArt | null> {
+  const { cover } = await resolveCoverArt(filePath, options);
+  return cover;
+}
+
 export function getExtension(mimeType: string): string {
   return mimeType.split("/")[1]?.replace("jpeg", "jpg") || "jpg";
 }
@@ -206,6 +535,9 @@ export interface TrackMetadata {
   album: string;
   filePath: string;
   hasCover: boolean;
+  year?: number;
+  genre?: string;
+  trackNumber?: number;
 }
 
 /**
@@ -218,7 +550,7 @@ export async function extractMetadata(filePath: string): Promise<TrackMetadata |
     }
 
     const metadata = await mm.parseFile(filePath);
-    const { title, artist, album, picture } = metadata.common;
+    const { title, artist, album, picture, year, genre, track } = metadata.common;
 
     return {
       title: title || path.basename(filePath, path.extname(filePath)),
@@ -226,6 +558,9 @@ export async function extractMetadata(filePath: string): Promise<TrackMetadata |
       album: album || "Unknown Album",
       filePath,
       hasCover: !!(picture && picture.length > 0),
+      year: year || undefined,
+      genre: genre?.[0] || undefined,
+      trackNumber: track?.no || undefined,
     };
   } catch {
     return null;
@@ -0,0 +1,200 @@
+/**
+ * Discord Connection
+ *
+ * Owns the RPC client so it can be replaced at runtime:
+ * - reconnects with exponential backoff when Discord is closed or drops
+ * - tears down and recreates the client when the client ID changes
+ * - reports its state (connecting, connected, backoff) to listeners
+ */
+
+import { Client } from "@xhayper/discord-rpc";
+import { systemClock, type ActivityClient, type SchedulerClock } from "./activity-scheduler.ts";
+
+export type ConnectionStatus = "idle" | "connecting" | "connected" | "backoff";
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  clientId: string;
+  username?: string;
+  attempt: number;        // consecutive failed attempts
+  nextRetryAt?: number;   // epoch ms, while in backoff
+  error?: string;
+}
+
+export interface RpcUser extends ActivityClient {
+  username: string;
+}
+
+export interface RpcClient {
+  readonly user?: RpcUser;
+  login(): Promise<void>;
+  destroy(): Promise<void>;
+  on(event: "ready" | "disconnected", listener: () => void): unknown;
+}
+
+export interface ConnectionOptions {
+  createClient: (clientId: string) => RpcClient;
+  clock: SchedulerClock;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+const DEFAULT_OPTIONS: ConnectionOptions = {
+  createClient: (clientId) => new Client({ clientId }),
+  clock: systemClock,
+  initialBackoffMs: 5000,
+  maxBackoffMs: 60_000,
+};
+
+type Listener = (state: ConnectionState) => void;
+
+export class DiscordConnection {
+  private options: ConnectionOptions;
+  private client: RpcClient | null = null;
+  // Bumped on every new client so events from a replaced one are ignored
+  private generation = 0;
+  private retryTimer: unknown = null;
+  private listeners = new Set<Listener>();
+  private readyListeners = new Set<() => void>();
+  private current: ConnectionState;
+
+  constructor(clientId: string, options: Partial<ConnectionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.current = { status: "idle", clientId, attempt: 0 };
+  }
+
+  get state(): ConnectionState {
+    return this.current;
+  }
+
+  get clientId(): string {
+    return this.current.clientId;
+  }
+
+  get isConnected(): boolean {
+    return this.current.status === "connected";
+  }
+
+  /**
+   * The logged-in user, used to send activities. Undefined while not connected.
+   */
+  get user(): RpcUser | undefined {
+    return this.isConnected ? this.client?.user : undefined;
+  }
+
+  onStateChange(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Called after every successful (re)connect
+   */
+  onReady(listener: () => void): () => void {
+    this.readyListeners.add(listener);
+    return () => this.readyListeners.delete(listener);
+  }
+
+  async connect(): Promise<void> {
+    this.clearRetry();
+    const generation = ++this.generation;
+    await this.teardown();
+    if (generation !== this.generation) return;
+
+    const client = this.options.createClient(this.current.clientId);
+    this.client = client;
+
+    client.on("ready", () => {
+      if (generation !== this.generation) return;
+      this.update({
+        status: "connected",
+        username: client.user?.username,
+        attempt: 0,
+        nextRetryAt: undefined,
+        error: undefined,
+      });
+      for (const listener of this.readyListeners) listener();
+    });
+
+    client.on("disconnected", () => {
+      if (generation !== this.generation) return;
+      console.warn("[discord] Disconnected");
+      this.scheduleRetry("Disconnected");
+    });
+
+    this.update({ status: "connecting", username: undefined, nextRetryAt: undefined });
+    console.log(`[discord] Connecting (client ${this.current.clientId})...`);
+
+    try {
+      await client.login();
+    } catch (err) {
+      if (generation !== this.generation) return;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error("[discord] Failed to connect:", message);
+      this.scheduleRetry(message);
+    }
+  }
+
+  /**
+   * Switch to another Discord application. Reconnects only if the ID changed.
+   */
+  async setClientId(clientId: string): Promise<void> {
+    if (!clientId || clientId === this.current.clientId) return;
+    console.log(`[discord] Client ID changed to ${clientId}, reconnecting`);
+    this.update({ clientId, attempt: 0 });
+    await this.connect();
+  }
+
+  async destroy(): Promise<void> {
+    this.clearRetry();
+    this.generation++;
+    await this.teardown();
+    this.update({ status: "idle", username: undefined, nextRetryAt: undefined });
+  }
+
+  private scheduleRetry(error: string): void {
+    this.clearRetry();
+    const attempt = this.current.attempt + 1;
+    const delay = Math.min(
+      this.options.initialBackoffMs * 2 ** (attempt - 1),
+      this.options.maxBackoffMs,
+    );
+
+    this.update({
+      status: "backoff",
+      username: undefined,
+      attempt,
+      nextRetryAt: this.options.clock.now() + delay,
+      error,
+    });
+    console.log(`[discord] Retrying in ${Math.round(delay / 1000)}s`);
+
+    this.retryTimer = this.options.clock.setTimeout(() => {
+      this.retryTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== null) {
+      this.options.clock.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async teardown(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (!client) return;
+    try {
+      await client.destroy();
+    } catch {
+      // Already closed
+    }
+  }
+
+  private update(patch: Partial<ConnectionState>): void {
+    this.current = { ...this.current, ...patch };
+    for (const listener of this.listeners) listener(this.current);
+  }
+}
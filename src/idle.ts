@@ -0,0 +1,113 @@
+/**
+ * Idle presence
+ *
+ * Decides how long presence stays on the profile once playback stops:
+ * - paused: keep the track with a "Paused" state ("show"), keep it until
+ *   an idle timeout ("timeout"), or clear right away ("clear")
+ * - player not running: keep the last activity for a grace period so
+ *   restarting Spotify doesn't wipe presence
+ */
+
+import { systemClock, type SchedulerClock } from "./activity-scheduler.ts";
+
+export type PausedPresenceMode = "show" | "timeout" | "clear";
+
+export const PAUSED_PRESENCE_MODES: PausedPresenceMode[] = ["show", "timeout", "clear"];
+
+export interface IdleConfig {
+  pausedMode: PausedPresenceMode;
+  pausedTimeoutMs: number;
+  notRunningGraceMs: number;
+}
+
+export const DEFAULT_IDLE_CONFIG: IdleConfig = {
+  pausedMode: "timeout",
+  pausedTimeoutMs: 5 * 60_000,
+  notRunningGraceMs: 15_000,
+};
+
+function seconds(value: unknown, fallbackMs: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value * 1000
+    : fallbackMs;
+}
+
+/**
+ * Build the idle config from config.json values (in seconds)
+ */
+export function resolveIdleConfig(config: {
+  pausedPresence?: PausedPresenceMode;
+  pausedTimeoutSeconds?: number;
+  notRunningGraceSeconds?: number;
+}): IdleConfig {
+  const mode = config.pausedPresence;
+  return {
+    pausedMode:
+      mode && PAUSED_PRESENCE_MODES.includes(mode) ? mode : DEFAULT_IDLE_CONFIG.pausedMode,
+    pausedTimeoutMs: seconds(config.pausedTimeoutSeconds, DEFAULT_IDLE_CONFIG.pausedTimeoutMs),
+    notRunningGraceMs: seconds(
+      config.notRunningGraceSeconds,
+      DEFAULT_IDLE_CONFIG.notRunningGraceMs,
+    ),
+  };
+}
+
+/**
+ * One-shot timer keyed by reason ("paused", "not-running").
+ *
+ * Arming again with the same reason keeps the original deadline, so
+ * repeated events during one pause don't extend it. Once expired, the
+ * reason stays expired until the timer is cancelled (playback resumed).
+ */
+export class IdleTimer {
+  private handle: unknown = null;
+  private currentReason: string | null = null;
+  private deadline: number | null = null;
+  private expired = false;
+
+  constructor(private clock: SchedulerClock = systemClock) {}
+
+  /**
+   * Start (or keep) the timer. Returns false if this reason already expired.
+   */
+  arm(reason: string, delayMs: number, onExpire: () => void): boolean {
+    if (this.currentReason === reason) {
+      return !this.expired;
+    }
+
+    this.cancel();
+    this.currentReason = reason;
+
+    if (delayMs <= 0) {
+      this.expired = true;
+      return false;
+    }
+
+    this.deadline = this.clock.now() + delayMs;
+    this.handle = this.clock.setTimeout(() => {
+      this.handle = null;
+      this.deadline = null;
+      this.expired = true;
+      onExpire();
+    }, delayMs);
+    return true;
+  }
+
+  cancel(): void {
+    if (this.handle !== null) {
+      this.clock.clearTimeout(this.handle);
+    }
+    this.handle = null;
+    this.currentReason = null;
+    this.deadline = null;
+    this.expired = false;
+  }
+
+  get reason(): string | null {
+    return this.currentReason;
+  }
+
+  get expiresAt(): number | null {
+    return this.deadline;
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Image backends
+ *
+ * Covers are decoded, resized and encoded by sharp when its native module
+ * loads, and by Jimp (pure JavaScript) otherwise, e.g. in the compiled
+ * sidecar. Backends only open, resize and encode images; sizing, the
+ * quality loop and the "already fine" check live here, so both follow an
+ * image profile the same way.
+ */
+
+import {
+  DEFAULT_IMAGE_PROFILE,
+  FORMAT_MIME_TYPES,
+  type ImageFit,
+  type ImageFormat,
+  type ImageProfile,
+} from "./image-profile.ts";
+
+export type ImageBackendName = "sharp" | "jimp";
+export type ImageBackendPreference = "auto" | ImageBackendName;
+
+export const IMAGE_BACKEND_PREFERENCES: ImageBackendPreference[] = ["auto", "sharp", "jimp"];
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface EncodedImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+// Raw RGB pixels, 3 bytes each
+export interface RgbPixels extends ImageSize {
+  data: Uint8Array;
+}
+
+export interface ImageHandle extends ImageSize {
+  // Resize to exactly width x height: stretched for "inside" (the caller
+  // keeps the aspect ratio), cropped for "cover", padded for "contain"
+  resize(width: number, height: number, fit: ImageFit, background: string): void;
+  // JPEG drops transparency onto the background color
+  encode(format: ImageFormat, quality: number, background: string): Promise<Uint8Array>;
+  // Draw an SVG of the same size on top; only backends that render SVG
+  overlay?(svg: Uint8Array): void;
+}
+
+export interface ImageBackend {
+  readonly name: ImageBackendName;
+  // Output formats; profiles asking for another one get JPEG
+  readonly formats: readonly ImageFormat[];
+  // Decodes every pixel; throws if the image is corrupt
+  probe(data: Uint8Array): Promise<ImageSize>;
+  open(data: Uint8Array): Promise<ImageHandle>;
+  // An image from raw RGB pixels, e.g. generated artwork
+  create(pixels: RgbPixels): Promise<ImageHandle>;
+  // Downscaled to fit maxSize, transparency dropped, for color analysis
+  pixels(data: Uint8Array, maxSize: number): Promise<RgbPixels>;
+}
+
+export interface ImageBackendStatus {
+  name: ImageBackendName;
+  available: boolean;
+  error?: string;
+}
+
+type SharpModule = typeof import("sharp");
+type JimpModule = typeof import("jimp");
+type JimpImage = Awaited<ReturnType<JimpModule["Jimp"]["read"]>>;
+
+function rgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+class SharpBackend implements ImageBackend {
+  readonly name = "sharp";
+  readonly formats: readonly ImageFormat[] = ["jpeg", "webp", "png"];
+
+  constructor(private sharp: SharpModule) {}
+
+  async probe(data: Uint8Array): Promise<ImageSize> {
+    const image = this.sharp(Buffer.from(data));
+    const { width, height } = await image.metadata();
+    // metadata() only reads the header; stats() decodes every pixel
+    await image.stats();
+    if (!width || !height) throw new Error("Image has no size");
+    return { width, height };
+  }
+
+  async pixels(data: Uint8Array, maxSize: number): Promise<RgbPixels> {
+    const { data: raw, info } = await this.sharp(Buffer.from(data))
+      .resize(maxSize, maxSize, { fit: "inside", withoutEnlargement: true })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { width: info.width, height: info.height, data: new Uint8Array(raw) };
+  }
+
+  async open(data: Uint8Array): Promise<ImageHandle> {
+    const image = this.sharp(Buffer.from(data));
+    const { width = 0, height = 0 } = await image.metadata();
+    return this.handle(image, width, height);
+  }
+
+  async create({ width, height, data }: RgbPixels): Promise<ImageHandle> {
+    return this.handle(this.sharp(Buffer.from(data), { raw: { width, height, channels: 3 } }), width, height);
+  }
+
+  private handle(image: ReturnType<SharpModule>, width: number, height: number): ImageHandle {
+    return {
+      width,
+      height,
+      resize(w, h, fit, background) {
+        image = image.resize(w, h, { fit: fit === "inside" ? "fill" : fit, background });
+      },
+      overlay(svg) {
+        image = image.composite([{ input: Buffer.from(svg) }]);
+      },
+      async encode(format, quality, background) {
+        switch (format) {
+          case "webp":
+            return new Uint8Array(await image.webp({ quality }).toBuffer());
+          case "png":
+            return new Uint8Array(await image.png({ compressionLevel: 9 }).toBuffer());
+          default:
+            return new Uint8Array(
+              await image.flatten({ background }).jpeg({ quality, mozjpeg: true }).toBuffer(),
+            );
+        }
+      },
+    };
+  }
+}
+
+class JimpBackend implements ImageBackend {
+  readonly name = "jimp";
+  // Jimp has no WebP encoder
+  readonly formats: readonly ImageFormat[] = ["jpeg", "png"];
+
+  constructor(private jimp: JimpModule) {}
+
+  async probe(data: Uint8Array): Promise<ImageSize> {
+    // Jimp always decodes the whole image
+    const image = await this.jimp.Jimp.read(Buffer.from(data));
+    return { width: image.width, height: image.height };
+  }
+
+  async pixels(data: Uint8Array, maxSize: number): Promise<RgbPixels> {
+    const image = await this.jimp.Jimp.read(Buffer.from(data));
+    if (image.width > maxSize || image.height > maxSize) {
+      image.scaleToFit({ w: maxSize, h: maxSize });
+    }
+    const { width, height, data: rgba } = image.bitmap;
+    const rgb = new Uint8Array(width * height * 3);
+    for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+      rgb[j] = rgba[i];
+      rgb[j + 1] = rgba[i + 1];
+      rgb[j + 2] = rgba[i + 2];
+    }
+    return { width, height, data: rgb };
+  }
+
+  async open(data: Uint8Array): Promise<ImageHandle> {
+    return this.handle(await this.jimp.Jimp.read(Buffer.from(data)));
+  }
+
+  async create({ width, height, data }: RgbPixels): Promise<ImageHandle> {
+    const image = new this.jimp.Jimp({ width, height });
+    const rgba = image.bitmap.data;
+    for (let i = 0, j = 0; j < data.length; i += 4, j += 3) {
+      rgba[i] = data[j];
+      rgba[i + 1] = data[j + 1];
+      rgba[i + 2] = data[j + 2];
+      rgba[i + 3] = 255;
+    }
+    return this.handle(image as unknown as JimpImage);
+  }
+
+  // No SVG renderer, so no overlay
+  private handle(image: JimpImage): ImageHandle {
+    const { Jimp, rgbaToInt } = this.jimp;
+    const canvas = (w: number, h: number, background: string) => {
+      const { r, g, b } = rgb(background);
+      return new Jimp({ width: w, height: h, color: rgbaToInt(r, g, b, 255) });
+    };
+
+    return {
+      width: image.width,
+      height: image.height,
+      resize(w, h, fit, background) {
+        if (fit === "cover") {
+          image.cover({ w, h });
+        } else if (fit === "contain") {
+          image.scaleToFit({ w, h });
+          const padded = canvas(w, h, background);
+          padded.composite(image, Math.round((w - image.width) / 2), Math.round((h - image.height) / 2));
+          image = padded as unknown as JimpImage;
+        } else {
+          image.resize({ w, h });
+        }
+      },
+      async encode(format, quality, background) {
+        if (format === "png") {
+          return new Uint8Array(await image.getBuffer("image/png"));
+        }
+        const flat = canvas(image.width, image.height, background);
+        flat.composite(image, 0, 0);
+        return new Uint8Array(await flat.getBuffer("image/jpeg", { quality }));
+      },
+    };
+  }
+}
+
+// Already in the profile's format, size and shape: upload as-is
+function matchesProfile(
+  data: Uint8Array,
+  mimeType: string,
+  { width, height }: ImageSize,
+  profile: ImageProfile,
+): boolean {
+  if (mimeType !== FORMAT_MIME_TYPES[profile.format] || data.length > profile.maxFileSizeKb * 1024) {
+    return false;
+  }
+  if (!width || !height || width > profile.size || height > profile.size) return false;
+  if (profile.fit !== "inside" && width !== height) return false;
+  return !profile.upscale || Math.max(width, height) === profile.size;
+}
+
+// Output size for an image of the given size under the profile
+function targetSize({ width, height }: ImageSize, profile: ImageProfile): ImageSize {
+  if (profile.fit === "inside") {
+    let scale = Math.min(profile.size / width, profile.size / height);
+    if (!profile.upscale) scale = Math.min(scale, 1);
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale)),
+    };
+  }
+  // Square: cropped to the short side or padded to the long one
+  let side = profile.size;
+  if (!profile.upscale) {
+    const source = profile.fit === "cover" ? Math.min(width, height) : Math.max(width, height);
+    side = Math.min(side, source);
+  }
+  return { width: side, height: side };
+}
+
+/**
+ * Resize and re-encode an image following the image profile: fit it to
+ * profile.size, encode as profile.format (JPEG if the backend can't) and
+ * lower the quality until it is under profile.maxFileSizeKb
+ */
+export async function optimizeWith(
+  backend: ImageBackend,
+  data: Uint8Array,
+  mimeType: string,
+  profile: ImageProfile = DEFAULT_IMAGE_PROFILE,
+): Promise<EncodedImage> {
+  const image = await backend.open(data);
+  if (!image.width || !image.height) throw new Error("Image has no size");
+  if (matchesProfile(data, mimeType, image, profile)) {
+    return { data, mimeType };
+  }
+
+  const target = targetSize(image, profile);
+  if (target.width !== image.width || target.height !== image.height) {
+    image.resize(target.width, target.height, profile.fit, profile.background);
+  }
+  return encodeWith(backend, image, profile);
+}
+
+/**
+ * Encode an image as profile.format (JPEG if the backend can't), lowering
+ * the quality until it is under profile.maxFileSizeKb. The image is not
+ * resized.
+ */
+export async function encodeWith(
+  backend: ImageBackend,
+  image: ImageHandle,
+  profile: ImageProfile = DEFAULT_IMAGE_PROFILE,
+): Promise<EncodedImage> {
+  const format = backend.formats.includes(profile.format) ? profile.format : "jpeg";
+  const maxBytes = profile.maxFileSizeKb * 1024;
+  let quality = profile.quality;
+  let result = await image.encode(format, quality, profile.background);
+
+  // If still too large, reduce quality (PNG is lossless)
+  while (result.length > maxBytes && quality > profile.minQuality && format !== "png") {
+    quality = Math.max(profile.minQuality, quality - 10);
+    result = await image.encode(format, quality, profile.background);
+  }
+
+  return { data: result, mimeType: FORMAT_MIME_TYPES[format] };
+}
+
+// Encode a tiny image to prove the backend works, not just that it imports
+async function checkHealth(backend: ImageBackend): Promise<void> {
+  const pixel = await optimizeWith(
+    backend,
+    new Uint8Array(
+      Buffer.from(
+        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC",
+        "base64",
+      ),
+    ),
+    "image/png",
+  );
+  if (pixel.mimeType !== "image/jpeg" || pixel.data.length === 0) {
+    throw new Error("Health check produced no JPEG");
+  }
+}
+
+const backendLoaders: Record<ImageBackendName, () => Promise<ImageBackend>> = {
+  sharp: async () => {
+    const mod = await import("sharp");
+    return new SharpBackend((mod.default ?? mod) as SharpModule);
+  },
+  jimp: async () => new JimpBackend(await import("jimp")),
+};
+
+const loaded = new Map<ImageBackendName, Promise<ImageBackend | ImageBackendStatus>>();
+let preference: ImageBackendPreference = "auto";
+
+/**
+ * Load a backend and check it works; the result is kept for the process
+ */
+export async function loadImageBackend(name: ImageBackendName): Promise<ImageBackend | null> {
+  let pending = loaded.get(name);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const backend = await backendLoaders[name]();
+        await checkHealth(backend);
+        return backend;
+      } catch (err) {
+        console.warn(`[image] ${name} not available:`, err);
+        return { name, available: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    })();
+    loaded.set(name, pending);
+  }
+  const result = await pending;
+  return "probe" in result ? result : null;
+}
+
+/**
+ * Which backend to use: "auto" tries sharp, then Jimp. A named backend
+ * still falls back to the other one if it doesn't work.
+ */
+export function setImageBackendPreference(value?: ImageBackendPreference | null): void {
+  preference = value && IMAGE_BACKEND_PREFERENCES.includes(value) ? value : "auto";
+}
+
+function backendOrder(): ImageBackendName[] {
+  return preference === "jimp" ? ["jimp", "sharp"] : ["sharp", "jimp"];
+}
+
+/**
+ * The backend covers are processed with, or null if neither works
+ */
+export async function getImageBackend(): Promise<ImageBackend | null> {
+  for (const name of backendOrder()) {
+    const backend = await loadImageBackend(name);
+    if (backend) return backend;
+  }
+  return null;
+}
+
+/**
+ * Selected backend and the health of each, for startup diagnostics
+ */
+export async function getImageOptimizerStatus() {
+  const backends: ImageBackendStatus[] = [];
+  for (const name of backendOrder()) {
+    const result = await loadImageBackend(name);
+    backends.push(result ? { name, available: true } : ((await loaded.get(name)) as ImageBackendStatus));
+  }
+  const selected = await getImageBackend();
+  return {
+    preference,
+    backend: selected?.name ?? null,
+    sharp: backends.some((b) => b.name === "sharp" && b.available),
+    jimp: backends.some((b) => b.name === "jimp" && b.available),
+    backends,
+  };
+}
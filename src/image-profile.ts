@@ -0,0 +1,110 @@
+/**
+ * Image profile
+ *
+ * How covers are resized and encoded before upload: target size, output
+ * format, quality bounds and how non-square art is fitted. Covers made
+ * with a non-default profile hash differently (see hashCover in cover.ts),
+ * so changing the profile uploads new images instead of reusing old ones.
+ */
+
+export type ImageFormat = "jpeg" | "webp" | "png";
+
+// "inside": keep the aspect ratio, "cover": crop to a square,
+// "contain": pad to a square with the background color
+export type ImageFit = "inside" | "cover" | "contain";
+
+export const IMAGE_FORMATS: ImageFormat[] = ["jpeg", "webp", "png"];
+export const IMAGE_FITS: ImageFit[] = ["inside", "cover", "contain"];
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  png: "image/png",
+};
+
+export interface ImageProfile {
+  size: number;           // longest side in pixels
+  format: ImageFormat;
+  quality: number;        // starting quality, 1-100 (ignored for PNG)
+  minQuality: number;     // quality is lowered in steps of 10 down to this
+  maxFileSizeKb: number;  // target file size
+  fit: ImageFit;
+  upscale: boolean;       // enlarge covers smaller than size
+  background: string;     // "#rrggbb", for padding and JPEG transparency
+}
+
+export type ImageProfileConfig = Partial<ImageProfile>;
+
+// Discord recommends 512x512 for activity images, and images over
+// ~256KB can fail to load
+export const DEFAULT_IMAGE_PROFILE: ImageProfile = {
+  size: 512,
+  format: "jpeg",
+  quality: 90,
+  minQuality: 50,
+  maxFileSizeKb: 256,
+  fit: "inside",
+  upscale: false,
+  background: "#000000",
+};
+
+function integer(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : undefined;
+}
+
+/**
+ * Build an image profile from config.json's coverImage, using the default
+ * for missing or invalid values
+ */
+export function resolveImageProfile(config?: ImageProfileConfig | null): ImageProfile {
+  if (!config) return DEFAULT_IMAGE_PROFILE;
+
+  const invalid: string[] = [];
+  function pick<T>(key: keyof ImageProfile, value: T | undefined): T {
+    if (value === undefined && config?.[key] != null) invalid.push(key);
+    return value ?? (DEFAULT_IMAGE_PROFILE[key] as T);
+  }
+
+  const quality = pick("quality", integer(config.quality, 1, 100));
+  const profile: ImageProfile = {
+    size: pick("size", integer(config.size, 16, 4096)),
+    format: pick("format", IMAGE_FORMATS.find((format) => format === config.format)),
+    quality,
+    minQuality: Math.min(quality, pick("minQuality", integer(config.minQuality, 1, 100))),
+    maxFileSizeKb: pick("maxFileSizeKb", integer(config.maxFileSizeKb, 1, 10_240)),
+    fit: pick("fit", IMAGE_FITS.find((fit) => fit === config.fit)),
+    upscale: pick("upscale", typeof config.upscale === "boolean" ? config.upscale : undefined),
+    background: pick(
+      "background",
+      typeof config.background === "string" && /^#[0-9a-f]{6}$/i.test(config.background)
+        ? config.background.toLowerCase()
+        : undefined,
+    ),
+  };
+
+  if (invalid.length > 0) {
+    console.warn(`[cover] Ignoring invalid coverImage settings: ${invalid.join(", ")}`);
+  }
+  return profile;
+}
+
+/**
+ * Stable key for a profile, mixed into cover hashes and file cache entries.
+ * Undefined for the default profile, so existing hashes stay valid.
+ */
+export function imageProfileKey(profile: ImageProfile): string | undefined {
+  const key = (p: ImageProfile) =>
+    [
+      p.format,
+      p.size,
+      p.fit,
+      `q${p.quality}-${p.minQuality}`,
+      `${p.maxFileSizeKb}kb`,
+      p.upscale ? "upscale" : "no-upscale",
+      p.background,
+    ].join(":");
+  const value = key(profile);
+  return value === key(DEFAULT_IMAGE_PROFILE) ? undefined : value;
+}
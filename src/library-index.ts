@@ -0,0 +1,432 @@
+/**
+ * Local library index
+ *
+ * Keeps the tags of every file in the music folders and Spotify's local
+ * files in ~/.config/tini-presence/library.db (SQLite), so a track is found
+ * by its title, artist and album without walking the folders. Scans are
+ * incremental: files whose mtime and size didn't change are not read
+ * again. The folder watchers in local-files.ts keep it up to date between
+ * scans.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import * as mm from "music-metadata";
+import { collectLibraryFiles } from "./cover-sync.ts";
+import {
+  getNameKeys,
+  normalizeForMatch,
+  scoreCandidates,
+  stripExtra,
+  type MatchCandidate,
+  type MatchingConfig,
+  type MatchQuery,
+} from "./matching.ts";
+
+export interface LibraryTrack {
+  path: string;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  albumArtist: string | null;
+  durationMs: number | null;
+  trackNumber: number | null;
+  hasCover: boolean;        // embedded art
+  mtimeMs: number;
+  size: number;
+}
+
+export interface LibraryMatch {
+  path: string;
+  score: number;
+  by: "tags" | "filename";
+}
+
+export interface LibraryScanResult {
+  total: number;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+interface TrackRow {
+  path: string;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  album_artist: string | null;
+  duration_ms: number | null;
+  track_number: number | null;
+  has_cover: number;
+  mtime_ms: number;
+  size: number;
+  title_key: string | null;
+  title_base: string | null;
+  artist_key: string | null;
+  album_artist_key: string | null;
+  album_key: string | null;
+  name_keys: string;
+  name_base_keys: string;
+}
+
+// Bump to rebuild the index when the schema or the keys change
+const SCHEMA_VERSION = 3;
+
+// Files written per transaction during a scan
+const SCAN_BATCH_SIZE = 500;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tracks (
+    path TEXT PRIMARY KEY,
+    title TEXT,
+    artist TEXT,
+    album TEXT,
+    album_artist TEXT,
+    duration_ms INTEGER,
+    track_number INTEGER,
+    has_cover INTEGER NOT NULL DEFAULT 0,
+    mtime_ms REAL NOT NULL,
+    size INTEGER NOT NULL,
+    title_key TEXT,
+    title_base TEXT,
+    artist_key TEXT,
+    album_artist_key TEXT,
+    album_key TEXT,
+    name_keys TEXT NOT NULL,
+    name_base_keys TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tracks_title_key ON tracks (title_key);
+  CREATE INDEX IF NOT EXISTS tracks_title_base ON tracks (title_base);
+  CREATE TABLE IF NOT EXISTS name_keys (path TEXT NOT NULL, key TEXT NOT NULL);
+  CREATE INDEX IF NOT EXISTS name_keys_key ON name_keys (key);
+  CREATE INDEX IF NOT EXISTS name_keys_path ON name_keys (path);
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+
+export function getLibraryIndexPath(): string {
+  const home = process.env.HOME || homedir();
+  return path.join(home, ".config", "tini-presence", "library.db");
+}
+
+// Comparison key of a tag; null when empty
+function tagKey(value: string | null | undefined): string | null {
+  const key = value ? normalizeForMatch(value) : "";
+  return key || null;
+}
+
+function toTrack(row: TrackRow): LibraryTrack {
+  return {
+    path: row.path,
+    title: row.title,
+    artist: row.artist,
+    album: row.album,
+    albumArtist: row.album_artist,
+    durationMs: row.duration_ms,
+    trackNumber: row.track_number,
+    hasCover: row.has_cover === 1,
+    mtimeMs: row.mtime_ms,
+    size: row.size,
+  };
+}
+
+// Keys stored space-separated; none of them has a space
+function splitKeys(keys: string): string[] {
+  return keys ? keys.split(" ") : [];
+}
+
+function toCandidate(row: TrackRow): MatchCandidate {
+  return {
+    path: row.path,
+    tags: { title: row.title, artist: row.artist, albumArtist: row.album_artist, album: row.album },
+    durationMs: row.duration_ms,
+    nameKeys: { full: splitKeys(row.name_keys), base: splitKeys(row.name_base_keys) },
+  };
+}
+
+// Tags and comparison keys of a file, as stored
+async function readTrack(filePath: string, stat: { mtimeMs: number; size: number }): Promise<TrackRow> {
+  let common: mm.ICommonTagsResult | null = null;
+  let duration: number | undefined;
+  try {
+    const metadata = await mm.parseFile(filePath);
+    common = metadata.common;
+    duration = metadata.format.duration;
+  } catch {
+    // Unreadable tags: the file can still be found by name
+  }
+
+  const title = common?.title || null;
+  const artist = common?.artist || null;
+  const album = common?.album || null;
+  const albumArtist = common?.albumartist || null;
+  const nameKeys = getNameKeys(path.basename(filePath, path.extname(filePath)));
+
+  return {
+    path: filePath,
+    title,
+    artist,
+    album,
+    album_artist: albumArtist,
+    duration_ms: duration ? Math.round(duration * 1000) : null,
+    track_number: common?.track.no ?? null,
+    has_cover: common?.picture?.length ? 1 : 0,
+    mtime_ms: stat.mtimeMs,
+    size: stat.size,
+    title_key: tagKey(title),
+    title_base: title ? tagKey(stripExtra(title)) : null,
+    artist_key: tagKey(artist),
+    album_artist_key: tagKey(albumArtist),
+    album_key: tagKey(album),
+    name_keys: nameKeys.full.join(" "),
+    name_base_keys: nameKeys.base.join(" "),
+  };
+}
+
+export class LibraryIndex {
+  private db: Database;
+  private scanning: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param dbPath SQLite file, or ":memory:"
+   */
+  constructor(dbPath = getLibraryIndexPath()) {
+    if (dbPath !== ":memory:") {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+
+    const { user_version } = this.db.query("PRAGMA user_version").get() as { user_version: number };
+    if (user_version !== SCHEMA_VERSION) {
+      this.db.exec("DROP TABLE IF EXISTS tracks; DROP TABLE IF EXISTS name_keys; DROP TABLE IF EXISTS meta;");
+      this.db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    }
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Whether a scan has completed, so lookups can trust the index.
+   * Kept across restarts; later scans only catch up on changes.
+   */
+  get ready(): boolean {
+    return this.db.query("SELECT 1 FROM meta WHERE key = 'scannedAt'").get() !== null;
+  }
+
+  get size(): number {
+    return (this.db.query("SELECT COUNT(*) AS count FROM tracks").get() as { count: number }).count;
+  }
+
+  get(filePath: string): LibraryTrack | null {
+    const row = this.db.query("SELECT * FROM tracks WHERE path = ?").get(filePath) as TrackRow | null;
+    return row ? toTrack(row) : null;
+  }
+
+  /**
+   * Index every audio file in the folders plus the given Spotify paths and
+   * drop files no longer among them. Scans run one after another.
+   */
+  scan(folders: string[], spotifyPaths: string[]): Promise<LibraryScanResult> {
+    const run = this.scanning.catch(() => {}).then(() => this.runScan(folders, spotifyPaths));
+    this.scanning = run;
+    return run;
+  }
+
+  /**
+   * Re-read one file after a change, or forget it if it's gone.
+   * Returns whether the index changed.
+   */
+  async updateFile(filePath: string): Promise<boolean> {
+    const resolved = path.resolve(filePath);
+    let stat: { mtimeMs: number; size: number; isFile(): boolean };
+    try {
+      stat = statSync(resolved);
+    } catch {
+      return this.remove(resolved);
+    }
+    if (!stat.isFile()) return false;
+
+    const existing = this.db
+      .query("SELECT mtime_ms, size FROM tracks WHERE path = ?")
+      .get(resolved) as Pick<TrackRow, "mtime_ms" | "size"> | null;
+    if (existing && existing.mtime_ms === stat.mtimeMs && existing.size === stat.size) {
+      return false;
+    }
+    this.write([await readTrack(resolved, stat)]);
+    return true;
+  }
+
+  /**
+   * Files whose tags or name may be the track's, for the matching engine
+   */
+  getCandidates(query: MatchQuery): MatchCandidate[] {
+    const rows = new Map<string, TrackRow>();
+    const tagged = this.db
+      .query("SELECT * FROM tracks WHERE title_key = ?1 OR title_base = ?2")
+      .all(tagKey(query.title), tagKey(stripExtra(query.title))) as TrackRow[];
+    for (const row of tagged) rows.set(row.path, row);
+
+    // Untagged or mistagged files: go by the file name
+    const named = new Map(this.getNamedLike(query).map((row) => [row.path, row]));
+    const byName = [...named.values()].map((row) => ({
+      path: row.path,
+      nameKeys: toCandidate(row).nameKeys,
+    }));
+    for (const match of scoreCandidates(byName, { title: query.title, artist: query.artist })) {
+      if (!rows.has(match.path)) rows.set(match.path, named.get(match.path)!);
+    }
+
+    return [...rows.values()].filter((row) => this.stillExists(row.path)).map(toCandidate);
+  }
+
+  /**
+   * Best file for a track, by tags and file name
+   */
+  find(query: MatchQuery, config?: MatchingConfig): LibraryMatch | null {
+    const best = scoreCandidates(this.getCandidates(query), query, config)[0];
+    if (!best) return null;
+    console.log(`[library] Found "${query.title}" -> ${best.path} by ${best.by} (score: ${best.score})`);
+    return { path: best.path, score: best.score, by: best.by };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private async runScan(folders: string[], spotifyPaths: string[]): Promise<LibraryScanResult> {
+    const started = Date.now();
+    const files = await collectLibraryFiles(folders, spotifyPaths);
+    const known = new Map(
+      (this.db.query("SELECT path, mtime_ms, size FROM tracks").all() as TrackRow[]).map((row) => [
+        row.path,
+        row,
+      ]),
+    );
+    const result: LibraryScanResult = { total: files.length, added: 0, updated: 0, removed: 0 };
+
+    let pending: TrackRow[] = [];
+    for (const filePath of files) {
+      let stat: { mtimeMs: number; size: number };
+      try {
+        stat = statSync(filePath);
+      } catch {
+        continue;
+      }
+      const existing = known.get(filePath);
+      known.delete(filePath);
+      if (existing && existing.mtime_ms === stat.mtimeMs && existing.size === stat.size) {
+        continue;
+      }
+      pending.push(await readTrack(filePath, stat));
+      if (existing) result.updated++;
+      else result.added++;
+      if (pending.length >= SCAN_BATCH_SIZE) {
+        this.write(pending);
+        pending = [];
+      }
+    }
+    this.write(pending);
+
+    // Whatever is left was deleted, or is no longer in a music folder
+    this.db.transaction(() => {
+      for (const filePath of known.keys()) {
+        if (this.remove(filePath)) result.removed++;
+      }
+    })();
+
+    this.db
+      .query("INSERT OR REPLACE INTO meta (key, value) VALUES ('scannedAt', ?)")
+      .run(String(Date.now()));
+    console.log(
+      `[library] Indexed ${result.total} files in ${Date.now() - started}ms ` +
+        `(${result.added} added, ${result.updated} updated, ${result.removed} removed)`,
+    );
+    return result;
+  }
+
+  // Store read files, in one transaction
+  private write(tracks: TrackRow[]): void {
+    if (tracks.length === 0) return;
+    const insert = this.db.query(
+      `INSERT OR REPLACE INTO tracks (
+        path, title, artist, album, album_artist, duration_ms, track_number, has_cover,
+        mtime_ms, size, title_key, title_base, artist_key, album_artist_key, album_key,
+        name_keys, name_base_keys
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const dropKeys = this.db.query("DELETE FROM name_keys WHERE path = ?");
+    const insertKey = this.db.query("INSERT INTO name_keys (path, key) VALUES (?, ?)");
+    this.db.transaction(() => {
+      for (const row of tracks) {
+        insert.run(
+          row.path,
+          row.title,
+          row.artist,
+          row.album,
+          row.album_artist,
+          row.duration_ms,
+          row.track_number,
+          row.has_cover,
+          row.mtime_ms,
+          row.size,
+          row.title_key,
+          row.title_base,
+          row.artist_key,
+          row.album_artist_key,
+          row.album_key,
+          row.name_keys,
+          row.name_base_keys,
+        );
+        dropKeys.run(row.path);
+        for (const key of new Set([...splitKeys(row.name_keys), ...splitKeys(row.name_base_keys)])) {
+          insertKey.run(row.path, key);
+        }
+      }
+    })();
+  }
+
+  private remove(filePath: string): boolean {
+    const { changes } = this.db.query("DELETE FROM tracks WHERE path = ?").run(filePath);
+    this.db.query("DELETE FROM name_keys WHERE path = ?").run(filePath);
+    return changes > 0;
+  }
+
+  // Deleted since it was indexed: forget it now instead of at the next scan
+  private stillExists(filePath: string): boolean {
+    if (existsSync(filePath)) return true;
+    this.remove(filePath);
+    return false;
+  }
+
+  /**
+   * Files whose name keys could match the title by the filename rules in
+   * matching.ts: a key equal to, containing or contained in a title key,
+   * or holding both the artist and a short title
+   */
+  private getNamedLike(query: MatchQuery): TrackRow[] {
+    const { full, base } = getNameKeys(query.title);
+    const artist = tagKey(query.artist);
+    const conditions: string[] = [];
+    const params: string[] = [];
+    for (const key of new Set([...full, ...base])) {
+      conditions.push("k.key = ?");
+      params.push(key);
+      if (key.length >= 3) {
+        conditions.push("instr(k.key, ?) > 0", "(length(k.key) >= 3 AND instr(?, k.key) > 0)");
+        params.push(key, key);
+      } else if (artist) {
+        conditions.push("(instr(k.key, ?) > 0 AND instr(k.key, ?) > 0)");
+        params.push(artist, key);
+      }
+    }
+    if (conditions.length === 0) return [];
+    return this.db
+      .query(
+        `SELECT * FROM tracks WHERE path IN (
+          SELECT k.path FROM name_keys k WHERE ${conditions.join(" OR ")}
+        )`,
+      )
+      .all(...params) as TrackRow[];
+  }
+}
@@ -11,7 +11,31 @@ import {
 import { homedir } from "node:os";
 import path from "node:path";
 import { promisify } from "node:util";
+import * as mm from "music-metadata";
 import slugify from "slugify";
+import { findBnkFiles, getSpotifyUsersDirs, parseBnk, type BnkEntry } from "./bnk.ts";
+import type { ButtonRule } from "./buttons.ts";
+import { collectLibraryFiles } from "./cover-sync.ts";
+import type { PausedPresenceMode } from "./idle.ts";
+import type { ImageBackendPreference } from "./image-backend.ts";
+import type { ImageProfileConfig } from "./image-profile.ts";
+import type { LibraryIndex } from "./library-index.ts";
+import type { MatchOverrides, OverrideTarget } from "./match-overrides.ts";
+import {
+  acceptMatch,
+  rankCandidates,
+  DEFAULT_MIN_CONFIDENCE,
+  type MatchCandidate,
+  type MatchingConfig,
+  type MatchOptions,
+  type MatchReport,
+  type RankedMatch,
+} from "./matching.ts";
+import type { PrivacyRule } from "./privacy.ts";
+import type { CoverStorageConfig } from "./storage.ts";
+import type { ActivityTemplates } from "./templates.ts";
+
+export { getNormalizedVariants, normalizeForMatch, stripExtra } from "./matching.ts";
 
 const execAsync = promisify(exec);
 
@@ -19,13 +43,6 @@ export function getConfigPath(): string {
   const home = process.env.HOME || homedir();
   return path.join(home, ".config", "tini-presence", "config.json");
 }
-const SPOTIFY_USERS_PATH = path.join(
-  homedir(),
-  "Library",
-  "Application Support",
-  "Spotify",
-  "Users",
-);
 
 export interface AppConfig {
   musicFolders: string[];
@@ -33,6 +50,47 @@ export interface AppConfig {
   copypartyApiKey?: string;
   copypartyUrl?: string;
   copypartyPath?: string;
+  // Player backend: "applescript" (macOS) or "mpris" (Linux D-Bus).
+  // Defaults to the platform's native backend when unset.
+  playerSource?: "applescript" | "mpris";
+  // MPRIS bus name suffix ("spotify") or "auto" for any player
+  mprisPlayer?: string;
+  // Text templates for the Discord activity (see src/templates.ts)
+  activityTemplates?: ActivityTemplates;
+  // Hide or redact presence for matching tracks (see src/privacy.ts)
+  privacyRules?: PrivacyRule[];
+  // What to show while paused: "show", "timeout" (clear after
+  // pausedTimeoutSeconds) or "clear" (see src/idle.ts)
+  pausedPresence?: PausedPresenceMode;
+  pausedTimeoutSeconds?: number;
+  // Keep presence this long after the player quits
+  notRunningGraceSeconds?: number;
+  // Activity link buttons, at most two shown (see src/buttons.ts).
+  // Defaults to "Listen on Spotify" for Spotify tracks.
+  activityButtons?: ButtonRule[];
+  // How long cached cover URLs are trusted before a HEAD check (default 168)
+  coverCacheTtlHours?: number;
+  // Images used when a file has no embedded art, checked in the file's
+  // folder and its parent (default: cover, folder, front, album, albumart)
+  coverImageNames?: string[];
+  // Folder with "{artist} - {album}.jpg" or "{album}.jpg" covers, used last
+  coverOverrideFolder?: string;
+  // Generate artwork from the album and artist when no cover is found
+  // (default true)
+  coverPlaceholder?: boolean;
+  // Size, format, quality and fit of uploaded covers (see src/image-profile.ts)
+  coverImage?: ImageProfileConfig;
+  // Image library for covers: "auto" (sharp, else Jimp), "sharp" or "jimp"
+  imageBackend?: ImageBackendPreference;
+  // "exact" (default): covers are shared by identical bytes; "perceptual":
+  // also by look, so re-encoded copies of the same art reuse one upload
+  coverDedupe?: "exact" | "perceptual";
+  // Where covers are uploaded: Copyparty (default, uses the copyparty*
+  // settings), S3-compatible, WebDAV or a local folder (see src/storage.ts)
+  coverStorage?: CoverStorageConfig;
+  // Points per matching rule and the confidence below which a file isn't
+  // used for a track (see src/matching.ts)
+  matching?: MatchingConfig;
 }
 
 export type LocalFilesConfig = AppConfig;
@@ -68,6 +126,8 @@ export function loadConfig(): AppConfig {
 export function saveConfig(config: AppConfig): void {
   ensureConfigDir();
   writeFileSync(getConfigPath(), JSON.stringify(config, null, 2));
+  // Folders and matching settings decide which file a track gets
+  matchCache.clear();
 }
 
 export async function pickFolder(): Promise<string | null> {
@@ -84,6 +144,24 @@ export async function pickFolder(): Promise<string | null> {
   }
 }
 
+/**
+ * Ask for a file with the native dialog, limited to a type such as
+ * "public.audio" or "public.image". Null if cancelled.
+ */
+export async function pickFile(prompt: string, type: string): Promise<string | null> {
+  const script = `
+    set chosenFile to choose file with prompt "${prompt}" of type {"${type}"}
+    return POSIX path of chosenFile
+  `;
+
+  try {
+    const { stdout } = await execAsync(`osascript -e '${script}'`);
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
 export async function addMusicFolder(): Promise<string | null> {
   const folder = await pickFolder();
 
@@ -124,40 +202,6 @@ export function updateConfig(partial: Partial<AppConfig>): AppConfig {
   return next;
 }
 
-/**
- * Normalizes a string for comparison by removing all non-alphanumeric characters
- * and converting to lowercase. This creates a "signature" for fuzzy matching.
- * Handles multiple scripts (Latin, Cyrillic, CJK, etc.)
- */
-export function normalizeForMatch(str: string): string {
-  // Process character by character to handle mixed scripts
-  let result = "";
-
-  for (const char of str.toLowerCase()) {
-    // Try to transliterate this character using slugify
-    // biome-ignore lint/suspicious/noExplicitAny: library type issue
-    // @ts-ignore
-    const slugified = (slugify as any)(char, {
-      replacement: "",
-      lower: true,
-      strict: true,
-      locale: "en",
-      trim: true,
-    });
-
-    if (slugified.length > 0) {
-      // Slugify handled it (e.g., é -> e, Б -> b)
-      result += slugified;
-    } else if (/[\p{L}\p{N}]/u.test(char)) {
-      // Keep letters/numbers that slugify couldn't transliterate (CJK, etc.)
-      result += char;
-    }
-    // Otherwise skip (punctuation, spaces, etc.)
-  }
-
-  return result;
-}
-
 /**
  * Normalizes a string for comparison by:
  * 1. Converting to lowercase
@@ -209,24 +253,79 @@ export function normalizeString(
     .trim();
 }
 
-// Cache for file paths from Spotify's local files database
+// Cache for files from Spotify's local files database
+let spotifyFilesCache: BnkEntry[] | null = null;
 let spotifyFilePathsCache: string[] | null = null;
+let spotifyFilesByPathCache: Map<string, BnkEntry> | null = null;
+
+// File found per track ID (or the lookup in flight), so playback events
+// don't rerun the matching and its disk reads. Cleared when the files,
+// the index, the pins or the config change.
+const matchCache = new Map<string, Promise<string | null>>();
+
+// Delay before rescanning the library, so bursts of changes scan once
+const LIBRARY_SCAN_DELAY_MS = 1000;
 
 export class LocalFileFinder {
   private watchers: Map<string, FSWatcher> = new Map();
   private listeners: (() => void)[] = [];
+  private library: LibraryIndex | null = null;
+  private overrides: MatchOverrides | null = null;
+  private libraryScanTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Initial sync
     this.refreshWatchers();
   }
 
+  /**
+   * Look tracks up in a library index, kept up to date from here on
+   * (null goes back to searching the folders)
+   */
+  useLibrary(library: LibraryIndex | null): void {
+    if (this.libraryScanTimer) {
+      clearTimeout(this.libraryScanTimer);
+      this.libraryScanTimer = null;
+    }
+    this.library = library;
+    matchCache.clear();
+    this.scheduleLibraryScan(0);
+  }
+
+  getLibrary(): LibraryIndex | null {
+    return this.library;
+  }
+
+  /**
+   * Use the user's pinned matches (see match-overrides.ts) before matching
+   */
+  useMatchOverrides(overrides: MatchOverrides | null): void {
+    this.overrides = overrides;
+    matchCache.clear();
+  }
+
+  getMatchOverrides(): MatchOverrides | null {
+    return this.overrides;
+  }
+
+  /**
+   * Look every track up again on its next lookup, e.g. after a pin changed
+   */
+  clearMatches(): void {
+    matchCache.clear();
+  }
+
   /**
    * Force clear all local file caches
    */
   clearCaches(notify = false): void {
     console.log("[local-files] Clearing all caches...");
+    spotifyFilesCache = null;
     spotifyFilePathsCache = null;
+    spotifyFilesByPathCache = null;
+    durationCache.clear();
+    matchCache.clear();
+    this.scheduleLibraryScan();
 
     if (notify) {
       this.notifyChange();
@@ -234,11 +333,33 @@ export class LocalFileFinder {
   }
 
   notifyChange(): void {
+    matchCache.clear();
     for (const listener of this.listeners) {
       listener();
     }
   }
 
+  /**
+   * Catch the library index up with the folders and Spotify's files
+   */
+  private scheduleLibraryScan(delayMs = LIBRARY_SCAN_DELAY_MS): void {
+    const library = this.library;
+    if (!library) return;
+    if (this.libraryScanTimer) clearTimeout(this.libraryScanTimer);
+    this.libraryScanTimer = setTimeout(() => {
+      this.libraryScanTimer = null;
+      const wasReady = library.ready;
+      library
+        .scan(getMusicFolders(), getSpotifyLocalFilePaths())
+        .then((result) => {
+          // A first scan replaces Spotify's database for lookups
+          if (!wasReady || result.added || result.updated || result.removed) this.notifyChange();
+        })
+        .catch((err) => console.error("[local-files] Library scan failed:", err));
+    }, delayMs);
+    this.libraryScanTimer.unref?.();
+  }
+
   private refreshWatchers(): void {
     const folders = getMusicFolders();
 
@@ -277,6 +398,17 @@ export class LocalFileFinder {
                 if (filename !== ".DS_Store" && !audioExts.includes(ext)) {
                   return;
                 }
+
+                // Re-read just this file, then let lookups retry
+                if (this.library && filename !== ".DS_Store") {
+                  void this.library
+                    .updateFile(path.join(folder, filename))
+                    .then((changed) => {
+                      if (changed) this.notifyChange();
+                    })
+                    .catch((err) => console.error("[local-files] Failed to index change:", err));
+                  return;
+                }
               }
 
               // Invalidate caches and notify
@@ -318,6 +450,7 @@ export class LocalFileFinder {
     const folder = await addMusicFolder();
     if (folder) {
       this.refreshWatchers();
+      this.scheduleLibraryScan(0);
     }
     return folder;
   }
@@ -333,11 +466,16 @@ export class LocalFileFinder {
       watcher.close();
       this.watchers.delete(folder);
     }
+    this.scheduleLibraryScan(0);
   }
 
-  findFile(trackId: string): string | null {
+  findFile(trackId: string): Promise<string | null> {
     return findLocalFile(trackId);
   }
+
+  getSpotifyEntry(filePath: string): BnkEntry | undefined {
+    return getSpotifyLocalFile(filePath);
+  }
 }
 
 // Single instance
@@ -386,25 +524,15 @@ let lastBnkMtime = 0;
  * Get the mtime of all .bnk files combined (used for cache invalidation)
  */
 function getBnkMtime(): number {
-  try {
-    if (!existsSync(SPOTIFY_USERS_PATH)) return 0;
-
-    const userDirs = readdirSync(SPOTIFY_USERS_PATH, { withFileTypes: true })
-      .filter((d) => d.isDirectory())
-      .map((d) => d.name);
-
-    let maxMtime = 0;
-    for (const userDir of userDirs) {
-      const bnkPath = path.join(SPOTIFY_USERS_PATH, userDir, "local-files.bnk");
-      if (existsSync(bnkPath)) {
-        const stat = statSync(bnkPath);
-        maxMtime = Math.max(maxMtime, stat.mtimeMs);
-      }
+  let maxMtime = 0;
+  for (const bnkPath of findBnkFiles()) {
+    try {
+      maxMtime = Math.max(maxMtime, statSync(bnkPath).mtimeMs);
+    } catch {
+      // Removed since it was found
     }
-    return maxMtime;
-  } catch {
-    return 0;
   }
+  return maxMtime;
 }
 
 /**
@@ -414,259 +542,182 @@ function startBnkWatchers(): void {
   if (bnkFileWatchersStarted) return;
   bnkFileWatchersStarted = true;
 
-  try {
-    if (!existsSync(SPOTIFY_USERS_PATH)) return;
+  for (const usersDir of getSpotifyUsersDirs()) {
+    try {
+      if (!existsSync(usersDir)) continue;
 
-    const userDirs = readdirSync(SPOTIFY_USERS_PATH, { withFileTypes: true })
-      .filter((d) => d.isDirectory())
-      .map((d) => d.name);
+      const userDirs = readdirSync(usersDir, { withFileTypes: true })
+        .filter((d) => d.isDirectory())
+        .map((d) => d.name);
 
-    for (const userDir of userDirs) {
-      const userPath = path.join(SPOTIFY_USERS_PATH, userDir);
+      for (const userDir of userDirs) {
+        const userPath = path.join(usersDir, userDir);
+
+        // Watch the directory for file creation/changes
+        try {
+          watch(userPath, (event, filename) => {
+            if (filename === "local-files.bnk") {
+              console.log(
+                "[local-files] Spotify database (bnk) changed, invalidating...",
+              );
+              localFiles.clearCaches(true);
+            }
+          });
+        } catch {
+          // Ignore watch errors
+        }
+      }
 
-      // Watch the directory for file creation/changes
+      // Also watch the Users directory for new user folders
       try {
-        watch(userPath, (event, filename) => {
-          if (filename === "local-files.bnk") {
-            console.log(
-              "[local-files] Spotify database (bnk) changed, invalidating...",
-            );
-            localFiles.clearCaches(true);
-          }
+        watch(usersDir, () => {
+          localFiles.clearCaches(true);
         });
       } catch {
         // Ignore watch errors
       }
-    }
-
-    // Also watch the Users directory for new user folders
-    try {
-      watch(SPOTIFY_USERS_PATH, () => {
-        localFiles.clearCaches(true);
-      });
     } catch {
-      // Ignore watch errors
+      // Ignore errors
     }
-  } catch {
-    // Ignore errors
   }
 }
 
 /**
- * Extract all file paths from Spotify's local-files.bnk database.
- * Simply finds paths starting with /Users/ and ending with audio extensions.
+ * Files in Spotify's local-files.bnk databases that still exist, with the
+ * tags Spotify stored for them (see src/bnk.ts)
  */
-export function getSpotifyLocalFilePaths(): string[] {
+export function getSpotifyLocalFiles(): BnkEntry[] {
   // Start watchers on first call
   startBnkWatchers();
 
   // Check if file has changed
   const currentMtime = getBnkMtime();
   if (currentMtime !== lastBnkMtime) {
+    spotifyFilesCache = null;
     spotifyFilePathsCache = null;
+    spotifyFilesByPathCache = null;
     lastBnkMtime = currentMtime;
   }
 
   // Return cached result if valid
-  if (spotifyFilePathsCache) {
-    return spotifyFilePathsCache;
+  if (spotifyFilesCache) {
+    return spotifyFilesCache;
   }
 
-  const paths: string[] = [];
-  const spotifyUsersPath = path.join(
-    process.env.HOME || "",
-    "Library/Application Support/Spotify/Users",
-  );
-
-  const audioExtensions = [".mp3", ".m4a", ".flac", ".wav", ".ogg", ".opus", ".aac", ".wma"];
-
-  try {
-    if (!existsSync(spotifyUsersPath)) {
-      return paths;
-    }
-
-    const userDirs = readdirSync(spotifyUsersPath, { withFileTypes: true })
-      .filter((d) => d.isDirectory())
-      .map((d) => d.name);
-
-    for (const userDir of userDirs) {
-      const bnkPath = path.join(spotifyUsersPath, userDir, "local-files.bnk");
-      if (!existsSync(bnkPath)) continue;
-
-      const buffer = readFileSync(bnkPath);
-      const usersPattern = Buffer.from("/Users/");
-
-      let i = 0;
-      while (i < buffer.length - 20) {
-        const idx = buffer.indexOf(usersPattern, i);
-        if (idx === -1) break;
-
-        // Find end of path by looking for audio extension
-        let pathEnd = idx;
-        for (let j = idx; j < Math.min(idx + 300, buffer.length); j++) {
-          const slice = buffer.subarray(j, Math.min(j + 5, buffer.length)).toString("utf-8").toLowerCase();
-          for (const ext of audioExtensions) {
-            if (slice.startsWith(ext)) {
-              pathEnd = j + ext.length;
-              break;
-            }
-          }
-          if (pathEnd > idx) break;
-        }
-
-        if (pathEnd > idx) {
-          const filePath = buffer.subarray(idx, pathEnd).toString("utf-8");
-          if (existsSync(filePath) && !paths.includes(filePath)) {
-            paths.push(filePath);
-          }
-          i = pathEnd;
-        } else {
-          i = idx + 1;
+  const files = new Map<string, BnkEntry>();
+  for (const bnkPath of findBnkFiles()) {
+    try {
+      for (const entry of parseBnk(readFileSync(bnkPath))) {
+        if (!files.has(entry.path) && existsSync(entry.path)) {
+          files.set(entry.path, entry);
         }
       }
+    } catch (err) {
+      console.error(`[local-files] Error parsing Spotify database ${bnkPath}:`, err);
     }
-  } catch (err) {
-    console.error("[local-files] Error parsing Spotify database:", err);
   }
 
-  spotifyFilePathsCache = paths;
-  console.log(`[local-files] Found ${paths.length} files in Spotify database`);
-  return paths;
-}
-
-interface MatchResult {
-  path: string;
-  score: number;
+  spotifyFilesCache = [...files.values()];
+  console.log(`[local-files] Found ${spotifyFilesCache.length} files in Spotify database`);
+  return spotifyFilesCache;
 }
 
 /**
- * Strip parentheses/brackets content and leading track numbers from a string
+ * Paths of the files in Spotify's local-files.bnk databases
  */
-function stripExtra(str: string): string {
-  return str
-    .replace(/\s*[\(\[].*?[\)\]]/g, "") // Remove (feat...), [V1], etc.
-    .replace(/^\d+[\s.\-_]*/g, "")      // Remove leading "01. ", "19. ", etc.
-    .trim();
+export function getSpotifyLocalFilePaths(): string[] {
+  const files = getSpotifyLocalFiles();
+  spotifyFilePathsCache ??= files.map((file) => file.path);
+  return spotifyFilePathsCache;
 }
 
 /**
- * Create multiple normalized variants for matching
- * Handles cases like "Arm & Leg" vs "ArmLeg" 
+ * Spotify's database entry for a file, whose tags are the ones Spotify
+ * shows (and reports) when playing it
  */
-function getNormalizedVariants(str: string): string[] {
-  const variants: string[] = [];
-  
-  // Basic normalized
-  const norm = normalizeForMatch(str);
-  variants.push(norm);
-  
-  // Without "and" (for & -> and conversion issues)
-  const noAnd = norm.replace(/and/g, "");
-  if (noAnd !== norm && noAnd.length >= 3) {
-    variants.push(noAnd);
-  }
-  
-  // Stripped version
-  const stripped = normalizeForMatch(stripExtra(str));
-  if (stripped !== norm) {
-    variants.push(stripped);
-    const strippedNoAnd = stripped.replace(/and/g, "");
-    if (strippedNoAnd !== stripped && strippedNoAnd.length >= 3) {
-      variants.push(strippedNoAnd);
-    }
-  }
-  
-  return [...new Set(variants)]; // Dedupe
+export function getSpotifyLocalFile(filePath: string): BnkEntry | undefined {
+  const files = getSpotifyLocalFiles();
+  spotifyFilesByPathCache ??= new Map(files.map((file) => [file.path, file]));
+  return spotifyFilesByPathCache.get(filePath);
 }
 
 /**
- * Find a local file by matching title/artist against filenames.
- * Searches Spotify's known file paths.
+ * What a Spotify local track ID tells about the track
  */
-export function findFileFromSpotifyDb(
-  title: string,
-  artist?: string,
-  album?: string,
-): string | null {
-  const files = getSpotifyLocalFilePaths();
-
-  // Create multiple normalized variants for matching
-  const titleVariants = getNormalizedVariants(title);
-  const artistNorm = artist ? normalizeForMatch(artist) : "";
-
-  const matches: MatchResult[] = [];
-
-  for (const filePath of files) {
-    const fileName = path.basename(filePath, path.extname(filePath));
-    const fileVariants = getNormalizedVariants(fileName);
+export interface LocalTrackInfo {
+  artist: string;
+  album: string;
+  title: string;
+  durationMs: number | null;
+}
 
-    let score = 0;
-    let matched = false;
+// Durations read from files, dropped when the file changes
+const durationCache = new Map<string, { mtimeMs: number; size: number; durationMs: number | null }>();
 
-    // Check all combinations of title and file variants
-    for (const titleVar of titleVariants) {
-      for (const fileVar of fileVariants) {
-        // Exact match
-        if (fileVar === titleVar) {
-          score = Math.max(score, 100);
-          matched = true;
-        }
-        // File contains title or title contains file
-        else if (titleVar.length >= 3 && fileVar.length >= 3) {
-          if (fileVar.includes(titleVar)) {
-            score = Math.max(score, 85);
-            matched = true;
-          } else if (titleVar.includes(fileVar)) {
-            score = Math.max(score, 80);
-            matched = true;
-          }
-        }
-      }
-    }
+/**
+ * Duration of an audio file in ms, or null when it can't be read.
+ * Taken from the library index when it knows the file.
+ */
+export async function getFileDuration(filePath: string): Promise<number | null> {
+  let stat: { mtimeMs: number; size: number };
+  try {
+    stat = statSync(filePath);
+  } catch {
+    return null;
+  }
 
-    // Check if filename contains both artist and title
-    if (!matched && artistNorm) {
-      const fileNorm = fileVariants[0];
-      for (const titleVar of titleVariants) {
-        if (fileNorm.includes(artistNorm) && fileNorm.includes(titleVar)) {
-          score = Math.max(score, 90);
-          matched = true;
-          break;
-        }
-      }
-    }
+  const indexed = localFiles.getLibrary()?.get(filePath);
+  if (indexed && indexed.mtimeMs === stat.mtimeMs && indexed.size === stat.size) {
+    return indexed.durationMs;
+  }
+  const cached = durationCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.durationMs;
+  }
 
-    if (matched) {
-      // Bonus for artist in filename
-      if (artistNorm && fileVariants[0].includes(artistNorm)) {
-        score += 20;
-      }
-      // Bonus for high quality
-      const ext = path.extname(filePath).toLowerCase();
-      if (ext === ".flac" || ext === ".wav") {
-        score += 5;
-      }
-      matches.push({ path: filePath, score });
-    }
+  let durationMs: number | null = null;
+  try {
+    const { format } = await mm.parseFile(filePath, { skipCovers: true });
+    durationMs = format.duration ? Math.round(format.duration * 1000) : null;
+  } catch {
+    // Not a readable audio file
   }
+  durationCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, durationMs });
+  return durationMs;
+}
 
-  matches.sort((a, b) => b.score - a.score);
+function getMatchOptions(): MatchOptions {
+  return { ...loadConfig().matching, loadDuration: getFileDuration };
+}
 
-  if (matches.length > 0) {
-    console.log(`[local-files] Found "${title}" -> ${matches[0].path} (score: ${matches[0].score})`);
-    return matches[0].path;
-  }
+// Spotify's files, with the tags it stored for them
+function getSpotifyCandidates(): MatchCandidate[] {
+  return getSpotifyLocalFiles().map((entry) => ({
+    path: entry.path,
+    tags: { title: entry.title, artist: entry.artist, album: entry.album },
+  }));
+}
 
-  return null;
+/**
+ * Find a local file by matching title/artist against the tags Spotify
+ * stored for its files, and against filenames.
+ * Searches Spotify's known file paths.
+ */
+export async function findFileFromSpotifyDb(
+  title: string,
+  artist?: string,
+  album?: string,
+  durationMs: number | null = null,
+): Promise<string | null> {
+  const query = { title, artist, album, durationMs };
+  const options = getMatchOptions();
+  const ranked = await rankCandidates(getSpotifyCandidates(), query, options);
+  return acceptMatch(ranked, query, options.minConfidence)?.path ?? null;
 }
 
 // Parse track info from Spotify local track ID
-// Format: spotify:local:Artist:Album:Title:Duration
-export function parseLocalTrackInfo(trackId: string): {
-  artist: string;
-  album: string;
-  title: string;
-} | null {
+// Format: spotify:local:Artist:Album:Title:Duration (in seconds)
+export function parseLocalTrackInfo(trackId: string): LocalTrackInfo | null {
   if (!trackId.startsWith("spotify:local:")) {
     return null;
   }
@@ -674,161 +725,86 @@ export function parseLocalTrackInfo(trackId: string): {
   const parts = trackId.replace("spotify:local:", "").split(":");
   if (parts.length < 3) return null;
 
-  const [artistEncoded, albumEncoded, titleEncoded] = parts;
+  const [artistEncoded, albumEncoded, titleEncoded, durationSeconds] = parts;
+  const duration = Number(durationSeconds);
 
   return {
     artist: decodeURIComponent(artistEncoded.replace(/\+/g, " ")),
     album: decodeURIComponent(albumEncoded.replace(/\+/g, " ")),
     title: decodeURIComponent(titleEncoded.replace(/\+/g, " ")),
+    durationMs: durationSeconds && duration > 0 ? duration * 1000 : null,
   };
 }
 
 /**
- * Find a local music file for a Spotify track.
- * 1. Checks Spotify's local-files.bnk database
- * 2. Falls back to recursive folder search
+ * Rank the files that may be the track, and pick one if it's confident
+ * enough (see src/matching.ts). Uses the library index once it has been
+ * built; until then, only Spotify's local-files.bnk database. Without an
+ * index at all, the music folders are walked when Spotify's database finds
+ * nothing good enough. The report also carries the user's pin for the
+ * track, which wins over the match.
  */
-export function findLocalFile(trackId: string): string | null {
-  const info = parseLocalTrackInfo(trackId);
-  if (!info) return null;
-
-  const { title, artist, album } = info;
-
-  // Try Spotify DB first
-  const dbPath = findFileFromSpotifyDb(title, artist, album);
-  if (dbPath) return dbPath;
-
-  // Fallback: search configured folders
-  const folders = getMusicFolders();
-  const extensions = [".mp3", ".m4a", ".flac", ".wav", ".ogg", ".opus"];
-  const matches: MatchResult[] = [];
-
-  // Search recursively in each configured folder
-  for (const folder of folders) {
-    searchRecursiveAll(folder, title, artist, album, extensions, matches);
-  }
+export async function explainMatch(
+  query: OverrideTarget,
+  library = localFiles.getLibrary(),
+): Promise<MatchReport> {
+  const options = getMatchOptions();
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const pinned = localFiles.getMatchOverrides()?.get(query) ?? null;
+  const report = (searched: MatchReport["searched"], candidates: RankedMatch[]): MatchReport => ({
+    query,
+    searched,
+    candidates,
+    match: acceptMatch(candidates, query, minConfidence),
+    minConfidence,
+    pinned,
+  });
 
-  if (matches.length > 0) {
-    matches.sort((a, b) => b.score - a.score);
-    return matches[0].path;
+  if (library?.ready) {
+    return report(["library"], await rankCandidates(library.getCandidates(query), query, options));
   }
 
-  return null;
+  const spotifyCandidates = getSpotifyCandidates();
+  const fromSpotify = report(["spotify"], await rankCandidates(spotifyCandidates, query, options));
+  // Walking every folder would block each lookup while the index is built
+  if (fromSpotify.match || library) return fromSpotify;
+
+  // Files Spotify doesn't know, or whose tags it didn't store
+  const known = new Set(spotifyCandidates.map((candidate) => candidate.path));
+  const folderCandidates = (await collectLibraryFiles(getMusicFolders(), []))
+    .filter((filePath) => !known.has(filePath))
+    .map((filePath) => ({ path: filePath }));
+  return report(
+    ["spotify", "folders"],
+    await rankCandidates([...spotifyCandidates, ...folderCandidates], query, options),
+  );
 }
 
-function searchRecursiveAll(
-  dir: string,
-  title: string,
-  artist: string,
-  album: string,
-  extensions: string[],
-  matches: MatchResult[],
-  depth = 0,
-): void {
-  if (depth > 5) return;
-
-  try {
-    if (!existsSync(dir)) return;
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    const titleNorm = normalizeString(title);
-    const titleNoExtra = normalizeString(title, true);
-    const titleNoSpace = titleNorm.replace(/\s/g, "");
-    const artistNorm = normalizeString(artist);
-    const albumNorm = normalizeString(album);
-
-    // Files first
-    for (const entry of entries) {
-      if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (!extensions.includes(ext)) continue;
-
-        const name = path.basename(entry.name, ext);
-        const nameNorm = normalizeString(name);
-        const nameNoExtra = normalizeString(name, true);
-        const nameNoNum = normalizeString(name, false, true);
-        const nameNoExtraNoNum = normalizeString(name, true, true);
-        const nameNoSpace = nameNorm.replace(/\s/g, "");
-
-        let score = 0;
-        let matched = false;
-
-        // Match Logic & Scoring
-        if (nameNorm === titleNorm) {
-          score += 100;
-          matched = true;
-        } else if (nameNoExtra === titleNoExtra) {
-          score += 75;
-          matched = true;
-        } else if (nameNoNum === titleNorm) {
-          score += 80;
-          matched = true;
-        } else if (nameNoExtraNoNum === titleNoExtra) {
-          score += 70;
-          matched = true;
-        } else if (
-          titleNoExtra.length >= 4 &&
-          (nameNoExtra.includes(titleNoExtra) ||
-            nameNoNum.includes(titleNoExtra) ||
-            nameNoExtraNoNum.includes(titleNoExtra))
-        ) {
-          score += 50;
-          matched = true;
-        } else if (
-          titleNoSpace.length >= 5 &&
-          (nameNoSpace === titleNoSpace ||
-            nameNoSpace.includes(titleNoSpace) ||
-            titleNoSpace.includes(nameNoSpace))
-        ) {
-          score += 30;
-          matched = true;
-        } else if (
-          artistNorm &&
-          nameNorm.includes(artistNorm) &&
-          (nameNorm.includes(titleNorm) || nameNorm.includes(titleNoExtra))
-        ) {
-          score += 85;
-          matched = true;
-        }
-
-        if (matched) {
-          // Bonus: Album match in path?
-          if (albumNorm && dir.toLowerCase().includes(albumNorm)) {
-            score += 20;
-          }
-          // Bonus: High quality?
-          if (ext === ".flac" || ext === ".wav") {
-            score += 5;
-          }
-          matches.push({ path: path.join(dir, entry.name), score });
-        }
-      }
-    }
+/**
+ * Find a local music file for a Spotify track: the file the user pinned,
+ * else the best match (see explainMatch). Cached per track ID.
+ */
+export async function findLocalFile(trackId: string): Promise<string | null> {
+  const cached = matchCache.get(trackId);
+  if (cached) {
+    const filePath = await cached;
+    // Files outside the watched folders can go without notice
+    if (filePath === null || existsSync(filePath)) return filePath;
+    if (matchCache.get(trackId) === cached) matchCache.delete(trackId);
+  }
 
-    // Then directories
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        if (
-          entry.name.startsWith(".") ||
-          ["node_modules", "Library", "System", "Applications"].includes(
-            entry.name,
-          )
-        ) {
-          continue;
-        }
+  const lookup = lookUpLocalFile(trackId);
+  matchCache.set(trackId, lookup);
+  lookup.catch(() => {
+    if (matchCache.get(trackId) === lookup) matchCache.delete(trackId);
+  });
+  return lookup;
+}
 
-        searchRecursiveAll(
-          path.join(dir, entry.name),
-          title,
-          artist,
-          album,
-          extensions,
-          matches,
-          depth + 1,
-        );
-      }
-    }
-  } catch {
-    // Ignore errors
-  }
+async function lookUpLocalFile(trackId: string): Promise<string | null> {
+  const info = parseLocalTrackInfo(trackId);
+  if (!info) return null;
+  const pinned = localFiles.getMatchOverrides()?.get({ ...info, trackId });
+  if (pinned?.filePath) return pinned.filePath;
+  return (await explainMatch(info)).match?.path ?? null;
 }
@@ -0,0 +1,220 @@
+/**
+ * Manual match overrides
+ *
+ * When matching picks the wrong file for a local track, the right file (or
+ * just the image to show as its cover) can be pinned in
+ * ~/.config/tini-presence/match-overrides.json. A pin is keyed by the
+ * track's Spotify local ID, or by its title, artist and album when made
+ * without one. Pinned files take priority over the library index, Spotify's
+ * database and the folder search. A pin whose file is gone is dropped the
+ * next time it is looked up, and matching takes over again.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { normalizeForMatch, type MatchQuery } from "./matching.ts";
+
+/**
+ * The track a pin is for: what is known about it, and its ID if any
+ */
+export interface OverrideTarget extends MatchQuery {
+  trackId?: string;
+}
+
+export interface MatchOverride {
+  key: string;          // track ID, or "tuple:title:artist:album" (normalized)
+  trackId?: string;
+  title: string;
+  artist?: string;
+  album?: string;
+  filePath?: string;    // audio file to use for the track
+  coverPath?: string;   // image to show as its cover
+  pinnedAt: number;
+}
+
+export interface PinnedPaths {
+  filePath?: string;
+  coverPath?: string;
+}
+
+export interface MatchOverridesOptions {
+  path: string;
+  now: () => number;
+  // Never write the file, e.g. from the command line next to the app.
+  // Gone files are still skipped, just not dropped from disk.
+  readOnly: boolean;
+}
+
+interface OverridesFile {
+  version: 1;
+  overrides: Record<string, MatchOverride>;
+}
+
+const OVERRIDES_VERSION = 1;
+
+export function getMatchOverridesPath(): string {
+  const home = process.env.HOME || homedir();
+  return path.join(home, ".config", "tini-presence", "match-overrides.json");
+}
+
+/**
+ * Key of a pin made by title, artist and album
+ */
+export function getTupleKey({ title, artist, album }: MatchQuery): string {
+  const parts = [title, artist ?? "", album ?? ""].map((part) => normalizeForMatch(part));
+  return `tuple:${parts.join(":")}`;
+}
+
+// Keys a track's pin can be under, most specific first
+function getKeys(target: OverrideTarget): string[] {
+  const tupleKey = getTupleKey(target);
+  return target.trackId ? [target.trackId, tupleKey] : [tupleKey];
+}
+
+export class MatchOverrides {
+  private options: MatchOverridesOptions;
+  private overrides = new Map<string, MatchOverride>();
+
+  constructor(options: Partial<MatchOverridesOptions> = {}) {
+    this.options = {
+      path: getMatchOverridesPath(),
+      now: () => Date.now(),
+      readOnly: false,
+      ...options,
+    };
+    this.load();
+  }
+
+  /**
+   * The pin for a track: by its ID, else by title, artist and album
+   */
+  get(target: OverrideTarget): MatchOverride | null {
+    for (const key of getKeys(target)) {
+      const override = this.overrides.get(key);
+      const valid = override ? this.prune(override) : null;
+      if (valid) return valid;
+    }
+    return null;
+  }
+
+  /**
+   * Pin a track to a file and/or cover image. Pinning one keeps the
+   * other's earlier pin. Throws if a path doesn't exist.
+   */
+  pin(target: OverrideTarget, paths: PinnedPaths): MatchOverride {
+    if (!paths.filePath && !paths.coverPath) {
+      throw new Error("Nothing to pin: give a file or a cover image");
+    }
+    for (const pinned of [paths.filePath, paths.coverPath]) {
+      if (pinned && !existsSync(pinned)) {
+        throw new Error(`No such file: ${pinned}`);
+      }
+    }
+
+    const key = target.trackId ?? getTupleKey(target);
+    const previous = this.overrides.get(key);
+    const override: MatchOverride = { key, title: target.title, pinnedAt: this.options.now() };
+    if (target.trackId) override.trackId = target.trackId;
+    if (target.artist) override.artist = target.artist;
+    if (target.album) override.album = target.album;
+    const filePath = paths.filePath ?? previous?.filePath;
+    const coverPath = paths.coverPath ?? previous?.coverPath;
+    if (filePath) override.filePath = filePath;
+    if (coverPath) override.coverPath = coverPath;
+
+    this.overrides.set(key, override);
+    this.save();
+    console.log(
+      `[match-overrides] Pinned "${target.title}" to ${[filePath, coverPath].filter(Boolean).join(" and ")}`,
+    );
+    return override;
+  }
+
+  /**
+   * Remove every pin that applies to a track. False if there was none.
+   */
+  unpin(target: OverrideTarget): boolean {
+    let removed = false;
+    for (const key of getKeys(target)) {
+      removed = this.overrides.delete(key) || removed;
+    }
+    if (removed) {
+      this.save();
+      console.log(`[match-overrides] Unpinned "${target.title}"`);
+    }
+    return removed;
+  }
+
+  /**
+   * All pins whose files still exist, latest first
+   */
+  list(): MatchOverride[] {
+    return [...this.overrides.values()]
+      .map((override) => this.prune(override))
+      .filter((override): override is MatchOverride => override !== null)
+      .sort((a, b) => b.pinnedAt - a.pinnedAt);
+  }
+
+  // Drop pinned paths that are gone; null once nothing is left
+  private prune(override: MatchOverride): MatchOverride | null {
+    const { filePath, coverPath, ...rest } = override;
+    const next: MatchOverride = { ...rest };
+    for (const [field, pinned] of [["filePath", filePath], ["coverPath", coverPath]] as const) {
+      if (!pinned) continue;
+      if (existsSync(pinned)) {
+        next[field] = pinned;
+      } else {
+        const action = this.options.readOnly ? "skipping" : "unpinning";
+        console.log(`[match-overrides] Pinned file is gone, ${action}: ${pinned}`);
+      }
+    }
+    if (next.filePath === filePath && next.coverPath === coverPath) {
+      return override;
+    }
+
+    const valid = next.filePath || next.coverPath ? next : null;
+    if (valid) {
+      this.overrides.set(override.key, valid);
+    } else {
+      this.overrides.delete(override.key);
+    }
+    this.save();
+    return valid;
+  }
+
+  private load(): void {
+    try {
+      if (!existsSync(this.options.path)) return;
+      const data = JSON.parse(readFileSync(this.options.path, "utf-8")) as OverridesFile;
+      if (data.version !== OVERRIDES_VERSION) return;
+      this.overrides = new Map(Object.entries(data.overrides ?? {}));
+    } catch {
+      // Corrupted file, start empty
+    }
+  }
+
+  private save(): void {
+    if (this.options.readOnly) return;
+    const data: OverridesFile = {
+      version: OVERRIDES_VERSION,
+      overrides: Object.fromEntries(this.overrides),
+    };
+    try {
+      mkdirSync(path.dirname(this.options.path), { recursive: true });
+      writeFileSync(this.options.path, JSON.stringify(data, null, 2));
+    } catch (err) {
+      console.warn("[match-overrides] Failed to save:", err);
+    }
+  }
+}
+
+// Shared by the sidecar and every PresenceService
+let sharedOverrides: MatchOverrides | null = null;
+
+export function getSharedMatchOverrides(): MatchOverrides {
+  if (!sharedOverrides) {
+    sharedOverrides = new MatchOverrides();
+  }
+  return sharedOverrides;
+}
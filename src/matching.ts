@@ -0,0 +1,503 @@
+/**
+ * Track matching engine
+ *
+ * Scores the candidate files for a local track with one set of rules,
+ * whether the candidates come from Spotify's database, the music folders or
+ * the library index. Every rule that applies adds (or takes away) points
+ * and says why, so a wrong pick can be traced back to the rule behind it.
+ * Points can be tuned with "matching" in config.json, and matches below the
+ * confidence threshold are rejected rather than shown with the wrong cover.
+ */
+
+import path from "node:path";
+import slugify from "slugify";
+import type { MatchOverride } from "./match-overrides.ts";
+
+/**
+ * What is known about the track being looked up
+ */
+export interface MatchQuery {
+  title: string;
+  artist?: string;
+  album?: string;
+  durationMs?: number | null;
+}
+
+/**
+ * A file that may be the track
+ */
+export interface MatchCandidate {
+  path: string;
+  // Tags read from the file or stored by Spotify, when known
+  tags?: {
+    title?: string | null;
+    artist?: string | null;
+    albumArtist?: string | null;
+    album?: string | null;
+  };
+  // Length in ms; null when unreadable, undefined when not read yet
+  durationMs?: number | null;
+  // Comparison keys of the file name, when already computed
+  nameKeys?: NameKeys;
+}
+
+/**
+ * Points of each rule; a match needs one of the title rules
+ */
+export const DEFAULT_MATCH_POINTS = {
+  titleTag: 100,           // tagged title equals the track's
+  titleTagBase: 90,        // equal once "(Live)", "[V1]", "01." are stripped
+  titleName: 100,          // file name equals the title
+  titleNameBase: 90,       // equal once extras are stripped
+  nameContainsTitle: 85,
+  titleContainsName: 80,
+  nameArtistTitle: 90,     // short titles: name has both artist and title
+  tagTitleMismatch: -30,   // the name matches, but the tags name another song
+  artistTag: 20,
+  artistTagPartial: 10,    // "Artist feat. Guest" on one side only
+  artistName: 20,
+  albumTag: 20,
+  albumFolder: 20,         // file's folder, or the one above, named after the album
+  albumFolderPartial: 10,
+  durationClose: 30,       // within 2s (Spotify's ID rounds to the second)
+  durationNear: 15,        // within 5s
+  durationOff: -30,        // over 10s off: likely a remix or a live take
+  lossless: 5,
+};
+
+export type MatchPoints = typeof DEFAULT_MATCH_POINTS;
+export type MatchRule = keyof MatchPoints;
+
+export interface MatchingConfig {
+  // Points per rule, on top of DEFAULT_MATCH_POINTS
+  points?: Partial<MatchPoints>;
+  // Matches below this confidence (0-1) are rejected (default 0.5; 0 keeps all)
+  minConfidence?: number;
+}
+
+export interface MatchOptions extends MatchingConfig {
+  // Reads a file's duration; only called for the best few candidates
+  loadDuration?: (filePath: string) => Promise<number | null>;
+}
+
+export interface MatchReason {
+  rule: MatchRule;
+  points: number;
+  detail: string;
+}
+
+export interface RankedMatch {
+  path: string;
+  score: number;
+  confidence: number;   // score out of 100 (an exact title match), capped at 1
+  by: "tags" | "filename";
+  reasons: MatchReason[];
+}
+
+/**
+ * How a track was matched: every candidate considered, best first, and the
+ * user's pin if there is one (it wins over the match)
+ */
+export interface MatchReport {
+  query: MatchQuery;
+  searched: ("library" | "spotify" | "folders")[];
+  candidates: RankedMatch[];
+  match: RankedMatch | null;   // null when none clears minConfidence
+  minConfidence: number;
+  pinned: MatchOverride | null;
+}
+
+/**
+ * Comparison keys of a title or file name: as is, and with extras stripped
+ */
+export interface NameKeys {
+  full: string[];
+  base: string[];
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+const FULL_CONFIDENCE_SCORE = 100;
+
+// Candidates this close to the best one get their duration read
+const NEAR_TIE_SCORE = 30;
+const MAX_NEAR_TIES = 8;
+
+const LOSSLESS_EXTENSIONS = [".flac", ".wav"];
+
+/**
+ * Normalizes a string for comparison by removing all non-alphanumeric characters
+ * and converting to lowercase. This creates a "signature" for fuzzy matching.
+ * Handles multiple scripts (Latin, Cyrillic, CJK, etc.)
+ */
+export function normalizeForMatch(str: string): string {
+  // Process character by character to handle mixed scripts
+  let result = "";
+
+  for (const char of str.toLowerCase()) {
+    // Try to transliterate this character using slugify
+    // biome-ignore lint/suspicious/noExplicitAny: library type issue
+    // @ts-ignore
+    const slugified = (slugify as any)(char, {
+      replacement: "",
+      lower: true,
+      strict: true,
+      locale: "en",
+      trim: true,
+    });
+
+    if (slugified.length > 0) {
+      // Slugify handled it (e.g., é -> e, Б -> b)
+      result += slugified;
+    } else if (/[\p{L}\p{N}]/u.test(char)) {
+      // Keep letters/numbers that slugify couldn't transliterate (CJK, etc.)
+      result += char;
+    }
+    // Otherwise skip (punctuation, spaces, etc.)
+  }
+
+  return result;
+}
+
+/**
+ * Strip parentheses/brackets content and leading track numbers from a string
+ */
+export function stripExtra(str: string): string {
+  return str
+    .replace(/\s*[\(\[].*?[\)\]]/g, "") // Remove (feat...), [V1], etc.
+    .replace(/^\d+[\s.\-_]*/g, "")      // Remove leading "01. ", "19. ", etc.
+    .trim();
+}
+
+// The key, plus one without "and" (for & -> and conversion issues)
+function withoutAnd(key: string): string[] {
+  const noAnd = key.replace(/and/g, "");
+  return noAnd !== key && noAnd.length >= 3 ? [key, noAnd] : [key];
+}
+
+/**
+ * Comparison keys of a string. Handles cases like "Arm & Leg" vs "ArmLeg"
+ * and "01. Song (Live)" vs "Song".
+ */
+export function getNameKeys(str: string): NameKeys {
+  const full = withoutAnd(normalizeForMatch(str)).filter(Boolean);
+  const base = withoutAnd(normalizeForMatch(stripExtra(str))).filter(
+    (key) => key && !full.includes(key),
+  );
+  return { full, base };
+}
+
+/**
+ * Create multiple normalized variants for matching
+ * Handles cases like "Arm & Leg" vs "ArmLeg"
+ */
+export function getNormalizedVariants(str: string): string[] {
+  const { full, base } = getNameKeys(str);
+  return [...full, ...base];
+}
+
+// Comparison key of a tag; null when empty
+function tagKey(value: string | null | undefined): string | null {
+  const key = value ? normalizeForMatch(value) : "";
+  return key || null;
+}
+
+export function getMatchPoints(config?: MatchingConfig): MatchPoints {
+  return { ...DEFAULT_MATCH_POINTS, ...config?.points };
+}
+
+interface QueryKeys {
+  title: NameKeys;
+  titleTag: string | null;
+  titleBase: string | null;
+  artist: string | null;
+  album: string | null;
+}
+
+function getQueryKeys(query: MatchQuery): QueryKeys {
+  return {
+    title: getNameKeys(query.title),
+    titleTag: tagKey(query.title),
+    titleBase: tagKey(stripExtra(query.title)),
+    artist: tagKey(query.artist),
+    album: tagKey(query.album),
+  };
+}
+
+// Of the rules that applied, the one worth the most
+function best(reasons: (MatchReason | null)[]): MatchReason | null {
+  let top: MatchReason | null = null;
+  for (const found of reasons) {
+    if (found && (!top || found.points > top.points)) top = found;
+  }
+  return top;
+}
+
+function reason(rule: MatchRule, points: MatchPoints, detail: string): MatchReason {
+  return { rule, points: points[rule], detail };
+}
+
+function titleByTags(candidate: MatchCandidate, keys: QueryKeys, points: MatchPoints) {
+  const title = candidate.tags?.title;
+  if (!title) return null;
+  if (keys.titleTag && tagKey(title) === keys.titleTag) {
+    return reason("titleTag", points, `Title tag "${title}" matches`);
+  }
+  if (keys.titleBase && tagKey(stripExtra(title)) === keys.titleBase) {
+    return reason("titleTagBase", points, `Title tag "${title}" matches without extras`);
+  }
+  return null;
+}
+
+function titleByName(name: string, nameKeys: NameKeys, keys: QueryKeys, points: MatchPoints) {
+  const { full, base } = keys.title;
+  const titleKeys = [...full, ...base];
+  const fileKeys = [...nameKeys.full, ...nameKeys.base];
+  const found: MatchReason[] = [];
+
+  if (full.some((key) => nameKeys.full.includes(key))) {
+    found.push(reason("titleName", points, `File name "${name}" matches`));
+  } else if (titleKeys.some((key) => fileKeys.includes(key))) {
+    found.push(reason("titleNameBase", points, `File name "${name}" matches without extras`));
+  }
+  const long = (key: string) => key.length >= 3;
+  if (titleKeys.some((key) => long(key) && fileKeys.some((file) => long(file) && file.includes(key)))) {
+    found.push(reason("nameContainsTitle", points, `File name "${name}" contains the title`));
+  }
+  if (titleKeys.some((key) => long(key) && fileKeys.some((file) => long(file) && key.includes(file)))) {
+    found.push(reason("titleContainsName", points, `Title contains the file name "${name}"`));
+  }
+  if (found.length === 0 && keys.artist) {
+    const artist = keys.artist;
+    if (titleKeys.some((key) => nameKeys.full[0]?.includes(artist) && nameKeys.full[0].includes(key))) {
+      found.push(reason("nameArtistTitle", points, `File name "${name}" has the artist and title`));
+    }
+  }
+  return best(found);
+}
+
+function artistReason(
+  candidate: MatchCandidate,
+  nameKeys: NameKeys,
+  keys: QueryKeys,
+  points: MatchPoints,
+): MatchReason | null {
+  const artist = keys.artist;
+  if (!artist) return null;
+  const tagged = tagKey(candidate.tags?.artist);
+  const albumArtist = tagKey(candidate.tags?.albumArtist);
+
+  let byTags: MatchReason | null = null;
+  if (tagged === artist || albumArtist === artist) {
+    byTags = reason("artistTag", points, "Artist tag matches");
+  } else if (tagged && (tagged.includes(artist) || artist.includes(tagged))) {
+    byTags = reason("artistTagPartial", points, `Artist tag "${candidate.tags?.artist}" overlaps`);
+  }
+  const byName = nameKeys.full[0]?.includes(artist)
+    ? reason("artistName", points, "File name has the artist")
+    : null;
+  return best([byTags, byName]);
+}
+
+function albumReason(candidate: MatchCandidate, keys: QueryKeys, points: MatchPoints) {
+  const album = keys.album;
+  if (!album) return null;
+  const byTags =
+    tagKey(candidate.tags?.album) === album ? reason("albumTag", points, "Album tag matches") : null;
+
+  let byFolder: MatchReason | null = null;
+  const parent = path.dirname(candidate.path);
+  for (const dir of [parent, path.dirname(parent)]) {
+    const folder = path.basename(dir);
+    const dirKey = normalizeForMatch(folder);
+    if (dirKey === album) {
+      byFolder = reason("albumFolder", points, `Folder "${folder}" is named after the album`);
+      break;
+    }
+    if (dirKey.length >= 3 && (dirKey.includes(album) || album.includes(dirKey))) {
+      byFolder = reason("albumFolderPartial", points, `Folder "${folder}" is named like the album`);
+      break;
+    }
+  }
+  return best([byTags, byFolder]);
+}
+
+function durationReason(
+  fileMs: number | null | undefined,
+  trackMs: number | null | undefined,
+  points: MatchPoints,
+): MatchReason | null {
+  if (!fileMs || !trackMs) return null;
+  const diff = Math.abs(fileMs - trackMs);
+  const seconds = `${(diff / 1000).toFixed(1)}s`;
+  if (diff <= 2000) return reason("durationClose", points, `Length matches (${seconds} off)`);
+  if (diff <= 5000) return reason("durationNear", points, `Length ${seconds} off`);
+  if (diff <= 10000) return null;
+  return reason("durationOff", points, `Length ${seconds} off`);
+}
+
+/**
+ * Score one file against the track, or null when no title rule applies
+ */
+export function scoreCandidate(
+  candidate: MatchCandidate,
+  query: MatchQuery,
+  points: MatchPoints = DEFAULT_MATCH_POINTS,
+  keys = getQueryKeys(query),
+): RankedMatch | null {
+  const ext = path.extname(candidate.path);
+  const name = path.basename(candidate.path, ext);
+  const nameKeys = candidate.nameKeys ?? getNameKeys(name);
+
+  const byTags = titleByTags(candidate, keys, points);
+  const byName = titleByName(name, nameKeys, keys, points);
+  const title = best([byTags, byName]);
+  if (!title) return null;
+
+  const reasons: MatchReason[] = [title];
+  if (title === byName && !byTags && candidate.tags?.title) {
+    reasons.push(
+      reason("tagTitleMismatch", points, `Title tag "${candidate.tags.title}" names another song`),
+    );
+  }
+  for (const extra of [
+    artistReason(candidate, nameKeys, keys, points),
+    albumReason(candidate, keys, points),
+    durationReason(candidate.durationMs, query.durationMs, points),
+  ]) {
+    if (extra) reasons.push(extra);
+  }
+  if (LOSSLESS_EXTENSIONS.includes(ext.toLowerCase())) {
+    reasons.push(reason("lossless", points, "Lossless file"));
+  }
+
+  const score = reasons.reduce((sum, { points: value }) => sum + value, 0);
+  return {
+    path: candidate.path,
+    score,
+    confidence: Math.min(1, Math.max(0, score / FULL_CONFIDENCE_SCORE)),
+    by: title === byTags ? "tags" : "filename",
+    reasons,
+  };
+}
+
+/**
+ * Score every candidate, best first; candidates no title rule matches are
+ * left out
+ */
+export function scoreCandidates(
+  candidates: MatchCandidate[],
+  query: MatchQuery,
+  config?: MatchingConfig,
+): RankedMatch[] {
+  const points = getMatchPoints(config);
+  const keys = getQueryKeys(query);
+  const ranked: RankedMatch[] = [];
+  for (const candidate of candidates) {
+    const match = scoreCandidate(candidate, query, points, keys);
+    if (match) ranked.push(match);
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score every candidate, reading the durations of the ones close to the
+ * best when the track's length is known, best first
+ */
+export async function rankCandidates(
+  candidates: MatchCandidate[],
+  query: MatchQuery,
+  options: MatchOptions = {},
+): Promise<RankedMatch[]> {
+  const ranked = scoreCandidates(candidates, query, options);
+  const { loadDuration } = options;
+  if (!loadDuration || !query.durationMs || ranked.length === 0) return ranked;
+
+  const byPath = new Map(candidates.map((candidate) => [candidate.path, candidate]));
+  const nearTies = ranked
+    .filter((match) => match.score >= ranked[0].score - NEAR_TIE_SCORE)
+    .slice(0, MAX_NEAR_TIES);
+  const points = getMatchPoints(options);
+  let changed = false;
+  for (const match of nearTies) {
+    const candidate = byPath.get(match.path);
+    if (!candidate || candidate.durationMs !== undefined) continue;
+    const rescored = scoreCandidate(
+      { ...candidate, durationMs: await loadDuration(candidate.path) },
+      query,
+      points,
+    );
+    if (rescored) {
+      ranked[ranked.indexOf(match)] = rescored;
+      changed = true;
+    }
+  }
+  if (!changed) return ranked;
+
+  const leader = ranked[0];
+  ranked.sort((a, b) => b.score - a.score);
+  if (ranked[0] !== leader) {
+    console.log(`[matching] "${query.title}": picked ${ranked[0].path} over ${leader.path} by duration`);
+  }
+  return ranked;
+}
+
+/**
+ * The best match if it's confident enough
+ */
+export function acceptMatch(
+  ranked: RankedMatch[],
+  query: MatchQuery,
+  minConfidence = DEFAULT_MIN_CONFIDENCE,
+): RankedMatch | null {
+  const top = ranked[0];
+  if (!top) return null;
+  if (top.confidence < minConfidence) {
+    console.log(
+      `[matching] Rejected "${query.title}" -> ${top.path} ` +
+        `(confidence ${top.confidence.toFixed(2)} < ${minConfidence})`,
+    );
+    return null;
+  }
+  console.log(`[matching] Found "${query.title}" -> ${top.path} (score: ${top.score})`);
+  return top;
+}
+
+/**
+ * A match report as text: the top candidates, each with its reasons
+ */
+export function formatMatchReport(report: MatchReport, limit = 5): string {
+  const { query } = report;
+  const track = [query.artist, query.album, query.title].filter(Boolean).join(" / ");
+  const seconds = query.durationMs ? ` (${Math.round(query.durationMs / 1000)}s)` : "";
+  const lines = [`Track: ${track}${seconds}`, `Searched: ${report.searched.join(", ")}`];
+  const { pinned } = report;
+  if (pinned?.filePath) lines.push(`Pinned file: ${pinned.filePath}`);
+  if (pinned?.coverPath) lines.push(`Pinned cover: ${pinned.coverPath}`);
+
+  if (report.candidates.length === 0) {
+    lines.push("No candidates found.");
+  }
+  report.candidates.slice(0, limit).forEach((match, i) => {
+    let picked = "";
+    if (pinned?.filePath) {
+      picked = match.path === pinned.filePath ? "  <- pinned" : "";
+    } else if (match === report.match) {
+      picked = "  <- picked";
+    }
+    lines.push(
+      "",
+      `${i + 1}. ${match.path}${picked}`,
+      `   score ${match.score}, confidence ${match.confidence.toFixed(2)}, by ${match.by}`,
+    );
+    for (const { points, detail } of match.reasons) {
+      lines.push(`   ${points >= 0 ? "+" : ""}${points}  ${detail}`);
+    }
+  });
+  if (report.candidates.length > limit) {
+    lines.push("", `... ${report.candidates.length - limit} more`);
+  }
+  if (!report.match && !pinned?.filePath && report.candidates.length > 0) {
+    lines.push("", `No match: the best is below the confidence threshold (${report.minConfidence}).`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,274 @@
+/**
+ * MPRIS player source
+ *
+ * Reads playback state over the D-Bus session bus from any player that
+ * implements the MPRIS spec (org.mpris.MediaPlayer2.*). This is how the
+ * Spotify desktop client (and most Linux players) expose "now playing".
+ */
+
+import type { ClientInterface, MessageBus, Variant } from "dbus-next";
+import type {
+  PlayerSource,
+  PlayerState,
+  SpotifyState,
+  Track,
+} from "./spotify.ts";
+
+type DbusModule = typeof import("dbus-next");
+
+const MPRIS_PREFIX = "org.mpris.MediaPlayer2.";
+const MPRIS_PATH = "/org/mpris/MediaPlayer2";
+const PLAYER_INTERFACE = "org.mpris.MediaPlayer2.Player";
+const PROPERTIES_INTERFACE = "org.freedesktop.DBus.Properties";
+const DBUS_NAME = "org.freedesktop.DBus";
+const DBUS_PATH = "/org/freedesktop/DBus";
+
+// Special player value: use whichever MPRIS player is active
+export const MPRIS_ANY_PLAYER = "auto";
+
+export interface MprisSourceOptions {
+  // Bus name suffix, e.g. "spotify" for org.mpris.MediaPlayer2.spotify,
+  // or "auto" to follow any running MPRIS player
+  player?: string;
+  // Override the session bus address (used by tests)
+  busAddress?: string;
+}
+
+type Metadata = Record<string, Variant>;
+
+let dbusModule: DbusModule | null | undefined;
+
+async function loadDbus(): Promise<DbusModule | null> {
+  if (dbusModule !== undefined) {
+    return dbusModule;
+  }
+  try {
+    const mod = await import("dbus-next");
+    dbusModule = ((mod as { default?: DbusModule }).default ?? mod) as DbusModule;
+    return dbusModule;
+  } catch (err) {
+    dbusModule = null;
+    console.warn("[mpris] dbus-next not available:", err);
+    return null;
+  }
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "number") return value;
+  return 0;
+}
+
+function metaValue<T>(metadata: Metadata, key: string): T | undefined {
+  return metadata[key]?.value as T | undefined;
+}
+
+function parsePlaybackStatus(value: unknown): PlayerState {
+  switch (value) {
+    case "Playing":
+      return "playing";
+    case "Paused":
+      return "paused";
+    default:
+      return "stopped";
+  }
+}
+
+function encodeLocalPart(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, "+");
+}
+
+/**
+ * Build a Spotify-style URI from MPRIS metadata so downstream code
+ * (findLocalFile, cover lookup) can treat every backend the same.
+ *
+ * - "/com/spotify/track/abc" -> "spotify:track:abc"
+ * - "https://open.spotify.com/local/A/B/C/180" -> "spotify:local:A:B:C:180"
+ * - "file:///music/song.flac" -> synthesized "spotify:local:Artist:Album:Title:Seconds"
+ */
+export function toTrackId(metadata: Metadata): string {
+  const trackId = metaValue<string>(metadata, "mpris:trackid") ?? "";
+  const url = metaValue<string>(metadata, "xesam:url") ?? "";
+
+  if (trackId.startsWith("spotify:")) {
+    return trackId;
+  }
+
+  const spotifyPath = trackId.match(/^\/com\/spotify\/(\w+)\/(.+)$/);
+  if (spotifyPath) {
+    return `spotify:${spotifyPath[1]}:${spotifyPath[2].replace(/\//g, ":")}`;
+  }
+
+  const spotifyUrl = url.match(/^https:\/\/open\.spotify\.com\/(\w+)\/(.+)$/);
+  if (spotifyUrl) {
+    return `spotify:${spotifyUrl[1]}:${spotifyUrl[2].replace(/\//g, ":")}`;
+  }
+
+  if (url.startsWith("file://")) {
+    const artists = metaValue<string[]>(metadata, "xesam:artist") ?? [];
+    const album = metaValue<string>(metadata, "xesam:album") ?? "";
+    const title = metaValue<string>(metadata, "xesam:title") ?? "";
+    const seconds = Math.round(toNumber(metaValue(metadata, "mpris:length")) / 1_000_000);
+    return [
+      "spotify:local",
+      encodeLocalPart(artists.join(", ")),
+      encodeLocalPart(album),
+      encodeLocalPart(title),
+      seconds,
+    ].join(":");
+  }
+
+  return url || trackId;
+}
+
+/**
+ * Convert MPRIS Player properties into our SpotifyState shape
+ */
+export function parseMprisState(properties: Record<string, Variant>): SpotifyState {
+  const metadata = (properties.Metadata?.value ?? {}) as Metadata;
+  const id = toTrackId(metadata);
+
+  if (!id) {
+    return { isRunning: false };
+  }
+
+  const artUrl = metaValue<string>(metadata, "mpris:artUrl");
+  const track: Track = {
+    title: metaValue<string>(metadata, "xesam:title") ?? "",
+    artist: (metaValue<string[]>(metadata, "xesam:artist") ?? []).join(", "),
+    album: metaValue<string>(metadata, "xesam:album") ?? "",
+    // MPRIS lengths and positions are in microseconds
+    durationMs: toNumber(metaValue(metadata, "mpris:length")) / 1000,
+    id,
+    source: id.startsWith("spotify:local:") ? "local" : "spotify",
+    artworkUrl: artUrl?.startsWith("http") ? artUrl : undefined,
+  };
+
+  return {
+    isRunning: true,
+    track,
+    positionMs: toNumber(properties.Position?.value) / 1000,
+    state: parsePlaybackStatus(properties.PlaybackStatus?.value),
+  };
+}
+
+export class MprisSource implements PlayerSource {
+  readonly kind = "mpris";
+  private bus: MessageBus | null = null;
+  // Proxies are introspected once, not on every poll: the bus daemon's,
+  // and each player's properties by bus name until its owner changes
+  private daemon: Promise<ClientInterface> | null = null;
+  private players = new Map<string, Promise<ClientInterface>>();
+  private player: string;
+  private busAddress?: string;
+
+  constructor(options: MprisSourceOptions = {}) {
+    this.player = options.player || "spotify";
+    this.busAddress = options.busAddress;
+  }
+
+  private async getBus(): Promise<MessageBus> {
+    if (this.bus) return this.bus;
+
+    const dbus = await loadDbus();
+    if (!dbus) {
+      throw new Error("D-Bus support is not available");
+    }
+
+    const bus = dbus.sessionBus(
+      this.busAddress ? { busAddress: this.busAddress } : undefined,
+    );
+    bus.on("error", (err: Error) => {
+      console.error("[mpris] Session bus error:", err);
+      if (this.bus === bus) this.reset();
+    });
+    this.bus = bus;
+    return bus;
+  }
+
+  // Forget the cached proxies and the bus they belong to
+  private reset(): void {
+    this.bus = null;
+    this.daemon = null;
+    this.players.clear();
+  }
+
+  private getDaemon(bus: MessageBus): Promise<ClientInterface> {
+    if (!this.daemon) {
+      const daemon = bus.getProxyObject(DBUS_NAME, DBUS_PATH).then((proxy) => {
+        const iface = proxy.getInterface(DBUS_NAME);
+        // A player that quit or restarted needs a new proxy
+        iface.on("NameOwnerChanged", (name: string) => {
+          if (name.startsWith(MPRIS_PREFIX)) this.players.delete(name);
+        });
+        return iface;
+      });
+      daemon.catch(() => {
+        if (this.daemon === daemon) this.daemon = null;
+      });
+      this.daemon = daemon;
+    }
+    return this.daemon;
+  }
+
+  private async listPlayers(bus: MessageBus): Promise<string[]> {
+    const names: string[] = await (await this.getDaemon(bus)).ListNames();
+    return names.filter((name) => name.startsWith(MPRIS_PREFIX));
+  }
+
+  private async readPlayer(
+    bus: MessageBus,
+    busName: string,
+  ): Promise<Record<string, Variant>> {
+    let player = this.players.get(busName);
+    if (!player) {
+      player = bus
+        .getProxyObject(busName, MPRIS_PATH)
+        .then((proxy) => proxy.getInterface(PROPERTIES_INTERFACE));
+      this.players.set(busName, player);
+    }
+    try {
+      return await (await player).GetAll(PLAYER_INTERFACE);
+    } catch (err) {
+      if (this.players.get(busName) === player) this.players.delete(busName);
+      throw err;
+    }
+  }
+
+  async getState(): Promise<SpotifyState> {
+    const bus = await this.getBus();
+    const players = await this.listPlayers(bus);
+
+    if (this.player !== MPRIS_ANY_PLAYER) {
+      const busName = `${MPRIS_PREFIX}${this.player}`;
+      if (!players.includes(busName)) {
+        return { isRunning: false };
+      }
+      return parseMprisState(await this.readPlayer(bus, busName));
+    }
+
+    // Prefer a player that is actually playing, otherwise the first one found
+    let fallback: SpotifyState = { isRunning: false };
+    for (const busName of players) {
+      try {
+        const state = parseMprisState(await this.readPlayer(bus, busName));
+        if (state.isRunning && state.state === "playing") {
+          return state;
+        }
+        if (!fallback.isRunning) {
+          fallback = state;
+        }
+      } catch {
+        // Player vanished between ListNames and GetAll
+      }
+    }
+    return fallback;
+  }
+
+  dispose(): void {
+    if (this.bus) {
+      this.bus.disconnect();
+      this.reset();
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Cover palette
+ *
+ * Picks a few colors from a downscaled cover (RGB pixels): the most common
+ * one, the most vibrant one for accents and a short palette, most common
+ * first. Colors are grouped in 4-bit buckets per channel and averaged.
+ */
+
+export interface Palette {
+  dominant: string;     // "#rrggbb"
+  vibrant: string;      // falls back to dominant for grayscale covers
+  onVibrant: string;    // readable text color on top of vibrant
+  colors: string[];
+}
+
+interface Bucket {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+}
+
+const PALETTE_SIZE = 5;
+// Palette colors closer than this (RGB distance) count as the same color
+const MIN_DISTANCE = 48;
+// Buckets with fewer pixels than this share are never vibrant
+const MIN_VIBRANT_SHARE = 0.01;
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function distance(a: Bucket, b: Bucket): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+// HSL saturation and lightness, 0-1
+function saturationLightness({ r, g, b }: Bucket): { s: number; l: number } {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+  return { s, l };
+}
+
+// WCAG relative luminance
+function luminance({ r, g, b }: Bucket): number {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+function buckets(pixels: Uint8Array): Bucket[] {
+  const byKey = new Map<number, Bucket>();
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = byKey.get(key);
+    if (bucket) {
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      bucket.count++;
+    } else {
+      byKey.set(key, { r, g, b, count: 1 });
+    }
+  }
+  return [...byKey.values()]
+    .map((bucket) => ({
+      r: bucket.r / bucket.count,
+      g: bucket.g / bucket.count,
+      b: bucket.b / bucket.count,
+      count: bucket.count,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Palette from RGB pixels (3 bytes each); null for an empty image
+ */
+export function extractPalette(pixels: Uint8Array): Palette | null {
+  const all = buckets(pixels);
+  if (all.length === 0) return null;
+
+  const picked: Bucket[] = [];
+  for (const bucket of all) {
+    if (picked.every((other) => distance(bucket, other) >= MIN_DISTANCE)) {
+      picked.push(bucket);
+      if (picked.length === PALETTE_SIZE) break;
+    }
+  }
+
+  // Saturated, mid-light colors win; share breaks near-ties
+  const total = pixels.length / 3;
+  let vibrant = picked[0];
+  let best = 0;
+  for (const bucket of all) {
+    const share = bucket.count / total;
+    if (share < MIN_VIBRANT_SHARE) continue;
+    const { s, l } = saturationLightness(bucket);
+    const score = s * (1 - Math.abs(l - 0.5) * 1.6) * Math.sqrt(share);
+    if (score > best && s >= 0.3) {
+      best = score;
+      vibrant = bucket;
+    }
+  }
+
+  return {
+    dominant: toHex(picked[0]),
+    vibrant: toHex(vibrant),
+    onVibrant: luminance(vibrant) > 0.179 ? "#111111" : "#ffffff",
+    colors: picked.map(toHex),
+  };
+}
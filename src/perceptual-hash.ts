@@ -0,0 +1,60 @@
+/**
+ * Perceptual cover hash
+ *
+ * A 64-bit difference hash (dHash): the image is shrunk to 9x8 gray cells
+ * and each bit says whether a cell is brighter than its right neighbor.
+ * Re-encoded or resized copies of the same art land within a few bits of
+ * each other, while cover hashes (sha256 of the optimized bytes) differ.
+ */
+
+import type { RgbPixels } from "./image-backend.ts";
+
+const WIDTH = 9;
+const HEIGHT = 8;
+
+// Covers at most this many bits apart count as the same art
+export const DEFAULT_MAX_DISTANCE = 4;
+
+// Average gray level of each cell in a WIDTH x HEIGHT grid
+function grayGrid({ width, height, data }: RgbPixels): number[] {
+  const sums = new Array<number>(WIDTH * HEIGHT).fill(0);
+  const counts = new Array<number>(WIDTH * HEIGHT).fill(0);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(HEIGHT - 1, Math.floor((y * HEIGHT) / height));
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(WIDTH - 1, Math.floor((x * WIDTH) / width));
+      const i = (y * width + x) * 3;
+      sums[row * WIDTH + column] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[row * WIDTH + column]++;
+    }
+  }
+  return sums.map((sum, cell) => (counts[cell] ? sum / counts[cell] : 0));
+}
+
+/**
+ * dHash of RGB pixels as 16 hex digits; null for an empty image
+ */
+export function differenceHash(pixels: RgbPixels): string | null {
+  if (pixels.width === 0 || pixels.height === 0) return null;
+  const grid = grayGrid(pixels);
+  let hash = 0n;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH - 1; x++) {
+      hash = (hash << 1n) | (grid[y * WIDTH + x] > grid[y * WIDTH + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+  while (diff > 0n) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+}
@@ -8,14 +8,113 @@
  * 4. Return URL for Discord
  */
 
+import { existsSync } from "node:fs";
+import path from "node:path";
 import { ActivityType } from "discord-api-types/v10";
-import { extractCoverArt, getExtension, getFolderName } from "./cover.ts";
+import {
+  buttonUsesFields,
+  needsButtonFilePath,
+  renderButtons,
+  validateButtons,
+  DEFAULT_BUTTONS,
+  type ActivityButton,
+  type ButtonRule,
+} from "./buttons.ts";
+import {
+  analyzeCover,
+  extractMetadata,
+  getExtension,
+  getFolderName,
+  perceptualHash,
+  resolveCoverArt,
+  type AlbumHint,
+  type CoverColors,
+  type CoverOptions,
+  type CoverSource,
+} from "./cover.ts";
+import {
+  getSharedCoverCache,
+  DEFAULT_COVER_CACHE_TTL_MS,
+  type CoverCache,
+} from "./cover-cache.ts";
+import { resolveIdleConfig, DEFAULT_IDLE_CONFIG, type IdleConfig } from "./idle.ts";
+import { DEFAULT_IMAGE_PROFILE, imageProfileKey, resolveImageProfile } from "./image-profile.ts";
+import { DEFAULT_MAX_DISTANCE } from "./perceptual-hash.ts";
 import { getConfig, localFiles, type AppConfig } from "./local-files.ts";
-import { UploadService, type UploadConfig } from "./upload.ts";
+import {
+  evaluatePrivacy,
+  needsFilePath,
+  validatePrivacyRules,
+  withoutAlbum,
+  ALBUM_FIELDS,
+  type PrivacyDecision,
+  type PrivacyRule,
+} from "./privacy.ts";
+import {
+  renderActivityText,
+  truncateText,
+  validateTemplates,
+  DISCORD_TEXT_LIMIT,
+  type ActivityTemplates,
+  type TrackTags,
+} from "./templates.ts";
+import { isAbortError, SingleFlight } from "./single-flight.ts";
+import { createCoverStorage, validateStorageConfig, type StorageConfig } from "./storage.ts";
+import { UploadService, type CoverUploadOptions, type UploadResult } from "./upload.ts";
+import {
+  getSharedUploadQueue,
+  isTransientUploadError,
+  UploadQueuedError,
+  type QueuedUpload,
+  type UploadQueue,
+} from "./upload-queue.ts";
 import type { SpotifyState, Track } from "./spotify.ts";
 
 export interface PresenceConfig {
-  upload?: UploadConfig;
+  upload?: StorageConfig;
+  // Folder image fallback for files without embedded art (see cover.ts)
+  cover?: CoverOptions;
+  templates?: ActivityTemplates;
+  privacyRules?: PrivacyRule[];
+  idle?: IdleConfig;
+  buttons?: ButtonRule[];
+  // Persistent cover cache; without it lookups are only cached in memory
+  coverCache?: CoverCache;
+  // Reuse the upload of visually identical art (needs coverCache)
+  perceptualDedupe?: boolean;
+  // Keeps covers that failed to upload for background retries; without it
+  // a failed upload means no cover until the caches are cleared
+  uploadQueue?: UploadQueue;
+}
+
+export interface PresenceActivity {
+  type: ActivityType;
+  name: string;
+  details: string;
+  state?: string;
+  startTimestamp?: number;
+  endTimestamp?: number;
+  largeImageKey: string;
+  largeImageText?: string;
+  smallImageKey?: string;
+  smallImageText?: string;
+  buttons?: ActivityButton[];
+  instance: boolean;
+}
+
+// An audio file's uploaded cover. "cached": known from the cover cache,
+// "existed": already in storage, "uploaded": sent just now.
+export interface FileCover {
+  url: string;
+  source: CoverSource;
+  colors: CoverColors | null;
+  status: "cached" | "existed" | "uploaded";
+}
+
+export interface CoverMigrationResult {
+  migrated: number;  // re-uploaded under the album path
+  kept: number;      // no matching file; the old URL stays in use
+  failed: number;
 }
 
 export interface CoverResult {
@@ -23,10 +122,47 @@ export interface CoverResult {
   cached: boolean;
 }
 
+function describeCoverSource(source: CoverSource, sourcePath?: string): string {
+  switch (source) {
+    case "embedded":
+      return "embedded picture";
+    case "folder":
+      return `folder image ${sourcePath}`;
+    case "override":
+      return `override folder ${sourcePath}`;
+    case "placeholder":
+      return "generated placeholder";
+    case "pinned":
+      return `pinned image ${sourcePath}`;
+  }
+}
+
 export class PresenceService {
   private uploadService: UploadService | null = null;
   // Cache cover URLs by track ID to avoid repeated HEAD requests
   private coverUrlCache: Map<string, string | null> = new Map();
+  // Where each cached cover came from, for status and logs
+  private coverSources: Map<string, CoverSource> = new Map();
+  private coverColors: Map<string, CoverColors> = new Map();
+  private coverOptions: CoverOptions;
+  // Image profile key for cover cache entries (unset for the default)
+  private profileKey: string | undefined;
+  // In-flight lookups by track ID and uploads by cover hash, so repeated
+  // state updates during a slow upload share one extraction and PUT
+  private coverLookups = new SingleFlight<string | null>();
+  private coverUploads = new SingleFlight<UploadResult>();
+  // Cache file tags (year, genre, ...) by track ID for templates
+  private tagsCache: Map<string, TrackTags> = new Map();
+  private templates: ActivityTemplates;
+  // Cache privacy decisions by track ID (folder rules need a file lookup)
+  private privacyCache: Map<string, PrivacyDecision | null> = new Map();
+  private privacyRules: PrivacyRule[];
+  readonly idle: IdleConfig;
+  private buttons: ButtonRule[];
+  private coverCache: CoverCache | null;
+  private perceptualDedupe: boolean;
+  private uploadQueue: UploadQueue | null;
+  private unsubscribeQueue: (() => void) | null = null;
   private unsubscribe: (() => void) | null = null;
   // Cache last activity to avoid unnecessary Discord updates
   private lastActivityKey: string | null = null;
@@ -34,7 +170,45 @@ export class PresenceService {
 
   constructor(config: PresenceConfig) {
     if (config.upload) {
-      this.uploadService = new UploadService(config.upload);
+      this.uploadService = new UploadService(createCoverStorage(config.upload));
+    }
+
+    this.templates = config.templates ?? {};
+    for (const error of validateTemplates(this.templates)) {
+      console.warn(
+        `[presence] Invalid ${error.field} template, using default: ${error.message}`,
+      );
+    }
+
+    this.privacyRules = config.privacyRules ?? [];
+    for (const error of validatePrivacyRules(this.privacyRules)) {
+      console.warn(`[presence] Privacy rule #${error.index + 1} ignored: ${error.message}`);
+    }
+
+    this.idle = config.idle ?? DEFAULT_IDLE_CONFIG;
+
+    this.coverCache = config.coverCache ?? null;
+    this.perceptualDedupe = config.perceptualDedupe ?? false;
+    this.uploadQueue = config.uploadQueue ?? null;
+    const uploadService = this.uploadService;
+    if (this.uploadQueue && uploadService) {
+      this.uploadQueue.start(uploadService.target, (entry, data) =>
+        this.retryUpload(uploadService, entry, data),
+      );
+      // Tracks whose upload was queued were remembered without a cover
+      this.unsubscribeQueue = this.uploadQueue.onUploaded(() => {
+        for (const [trackId, url] of this.coverUrlCache) {
+          if (url === null) this.coverUrlCache.delete(trackId);
+        }
+        this.lastActivityKey = null;
+      });
+    }
+    this.coverOptions = config.cover ?? {};
+    this.profileKey = imageProfileKey(this.coverOptions.image ?? DEFAULT_IMAGE_PROFILE);
+
+    this.buttons = config.buttons ?? DEFAULT_BUTTONS;
+    for (const error of validateButtons(this.buttons)) {
+      console.warn(`[presence] Button #${error.index + 1} ignored: ${error.message}`);
     }
 
     // Subscribe to music folder changes AND Spotify database changes to clear cache
@@ -42,6 +216,11 @@ export class PresenceService {
     this.unsubscribe = localFiles.onChange(() => {
       console.log("[presence] Local files changed, clearing cover URL cache");
       this.coverUrlCache.clear();
+      this.coverSources.clear();
+      this.coverColors.clear();
+      this.tagsCache.clear();
+      this.privacyCache.clear();
+      this.coverCache?.prune();
       // Also reset the activity cache to force Discord update
       this.lastActivityKey = null;
       this.lastActivityTimestamps = null;
@@ -56,6 +235,40 @@ export class PresenceService {
       this.unsubscribe();
       this.unsubscribe = null;
     }
+    if (this.unsubscribeQueue) {
+      this.unsubscribeQueue();
+      this.unsubscribeQueue = null;
+      this.uploadQueue?.stop();
+    }
+    this.coverCache?.flush();
+  }
+
+  /**
+   * Drop all cover, tag and privacy caches, including the persistent one
+   */
+  clearCaches(): void {
+    this.coverUrlCache.clear();
+    this.coverSources.clear();
+    this.coverColors.clear();
+    this.tagsCache.clear();
+    this.privacyCache.clear();
+    this.coverCache?.clear();
+    this.lastActivityKey = null;
+    this.lastActivityTimestamps = null;
+  }
+
+  /**
+   * Forget what is cached for one track, e.g. after its match was pinned
+   * or unpinned, so the next update looks its file up again
+   */
+  forgetTrack(trackId: string): void {
+    this.coverUrlCache.delete(trackId);
+    this.coverSources.delete(trackId);
+    this.coverColors.delete(trackId);
+    this.tagsCache.delete(trackId);
+    this.privacyCache.delete(trackId);
+    this.lastActivityKey = null;
+    this.lastActivityTimestamps = null;
   }
 
   /**
@@ -66,10 +279,19 @@ export class PresenceService {
    * - File not found
    * - No cover art in file
    * - Upload failed
+   * - A privacy rule applies to the track
    *
-   * Results are cached by track ID to avoid repeated requests.
+   * Results are cached by track ID to avoid repeated requests, and on disk
+   * by file and cover hash (see cover-cache.ts) to survive restarts.
+   * Concurrent calls for the same track share one lookup; aborting the
+   * signal (e.g. the track changed) returns null without caching anything.
    */
-  async getCoverUrl(track: Track): Promise<string | null> {
+  async getCoverUrl(track: Track, signal?: AbortSignal): Promise<string | null> {
+    // Never look up (or upload) covers for tracks a privacy rule covers
+    if (await this.getPrivacyDecision(track)) {
+      return null;
+    }
+
     // For non-local tracks, return artworkUrl if available
     if (track.source !== "local") {
       return track.artworkUrl ?? null;
@@ -92,62 +314,536 @@ export class PresenceService {
       return cached ?? null;
     }
 
-    // Find the local file
-    const filePath = localFiles.findFile(track.id);
+    const uploadService = this.uploadService;
+    try {
+      return await this.coverLookups.run(
+        track.id,
+        (flightSignal) => this.lookupCoverUrl(track, uploadService, flightSignal),
+        signal,
+      );
+    } catch (err) {
+      if (!isAbortError(err) && !signal?.aborted) throw err;
+      console.log(`[presence] Cover lookup cancelled for ${track.title}`);
+      return null;
+    }
+  }
+
+  /**
+   * Find, extract and upload a local track's cover (uncached path of getCoverUrl)
+   */
+  private async lookupCoverUrl(
+    track: Track,
+    uploadService: UploadService,
+    signal: AbortSignal,
+  ): Promise<string | null> {
+    // Find the local file, or the cover image the user pinned
+    const pinnedCover = localFiles.getMatchOverrides()?.get({
+      trackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      album: track.album,
+    })?.coverPath;
+    const filePath = pinnedCover ?? (await localFiles.findFile(track.id));
     if (!filePath) {
       console.log(`[presence] File not found: ${track.title}`);
       this.coverUrlCache.set(track.id, null);
       return null;
     }
 
-    // Extract cover art
+    try {
+      const cover = await this.resolveFileCover(
+        filePath,
+        { title: track.title, artist: track.artist, album: track.album },
+        uploadService,
+        signal,
+      );
+      if (!cover) {
+        this.coverUrlCache.set(track.id, null);
+        return null;
+      }
+      return this.rememberCover(track, cover.url, cover.source, cover.colors);
+    } catch (err) {
+      if (signal.aborted) throw err;
+      if (err instanceof UploadQueuedError) {
+        // Looked up again once the queued upload goes through
+        console.log(`[presence] Cover upload queued for ${track.title}`);
+      } else {
+        console.error(`[presence] Upload failed:`, err);
+      }
+      this.coverUrlCache.set(track.id, null);
+      return null;
+    }
+  }
+
+  /**
+   * Make sure a file's cover is uploaded and cached, without a playing
+   * track (see cover-sync.ts). Null if the file has no cover; throws if the
+   * upload fails or storage isn't configured.
+   */
+  async syncFileCover(filePath: string, signal?: AbortSignal): Promise<FileCover | null> {
+    if (!this.uploadService) {
+      throw new Error("No cover storage configured");
+    }
+    // Don't fill the upload queue with the whole library while storage is down
+    if (this.uploadQueue?.breaker.state === "open") {
+      throw new Error("Cover storage is unreachable");
+    }
+    // The hint playback would give, so a placeholder gets the same hash
+    const known = localFiles.getSpotifyEntry(filePath);
+    return this.resolveFileCover(
+      filePath,
+      { title: known?.title, artist: known?.artist, album: known?.album },
+      this.uploadService,
+      signal ?? new AbortController().signal,
+    );
+  }
+
+  /**
+   * Cover URL for an audio file: from the persistent cache, or extracted
+   * and uploaded. Tags fill in whatever the hint leaves out.
+   */
+  private async resolveFileCover(
+    filePath: string,
+    hint: AlbumHint & { title?: string },
+    uploadService: UploadService,
+    signal: AbortSignal,
+  ): Promise<FileCover | null> {
+    const target = uploadService.target;
+    const name = hint.title || path.basename(filePath, path.extname(filePath));
+
+    // Unchanged file seen before: reuse its cover hash, colors and URL.
+    // Entries cached before colors were recorded are extracted once more.
+    const cachedFile = this.coverCache?.getFile(filePath, this.profileKey);
+    let checkedCache = false;
+    if (cachedFile && !cachedFile.hash) {
+      console.log(`[presence] Cached: no cover art in ${name}`);
+      return null;
+    }
+    if (cachedFile?.hash && cachedFile.colors !== undefined) {
+      checkedCache = true;
+      const url = await this.getCachedCoverUrl(cachedFile.hash, target, signal);
+      if (url) {
+        return {
+          url,
+          source: cachedFile.source ?? "embedded",
+          colors: cachedFile.colors,
+          status: "cached",
+        };
+      }
+    }
+
+    // Extract cover art: embedded, then folder images, then the override folder
     console.log(`[presence] Found file: ${filePath}. Extracting artwork...`);
-    const cover = await extractCoverArt(filePath);
+    const { cover, dependencies, album } = await resolveCoverArt(filePath, this.coverOptions, hint);
+    signal.throwIfAborted();
     if (!cover) {
-      console.log(`[presence] No cover art found inside file: ${track.title}`);
-      this.coverUrlCache.set(track.id, null);
+      console.log(`[presence] No cover art found for: ${name}`);
+      this.coverCache?.setFile(filePath, { hash: null, dependencies, profile: this.profileKey });
       return null;
     }
     console.log(
-      `[presence] Artwork extracted: ${cover.mimeType}, ${Math.round(cover.data.length / 1024)}KB`,
+      `[presence] Artwork from ${describeCoverSource(cover.source, cover.sourcePath)}: ` +
+        `${cover.mimeType}, ${Math.round(cover.data.length / 1024)}KB`,
     );
+    const colors = await analyzeCover(cover.data, cover.mimeType);
+    signal.throwIfAborted();
+    this.coverCache?.setFile(filePath, {
+      hash: cover.hash,
+      mimeType: cover.mimeType,
+      source: cover.source,
+      dependencies,
+      profile: this.profileKey,
+      colors,
+    });
 
-    // Upload with organized path (skips if already exists)
-    try {
-      const result = await this.uploadService.uploadCover(
-        cover.data,
-        cover.mimeType,
-        {
-          songTitle: track.title,
-          folderName: getFolderName(filePath),
-          hash: cover.hash,
-          extension: getExtension(cover.mimeType),
-        },
-      );
+    // Same artwork already uploaded for another file
+    if (!checkedCache) {
+      const url = await this.getCachedCoverUrl(cover.hash, target, signal);
+      if (url) {
+        return { url, source: cover.source, colors, status: "cached" };
+      }
+    }
 
-      if (result.existed) {
-        console.log(`[presence] Cover exists: ${result.url}`);
-      } else {
-        console.log(`[presence] Cover uploaded: ${result.url}`);
+    // Or the same art encoded differently: point this hash at that upload.
+    // Not for placeholders: their gradients look alike to a perceptual hash.
+    const phash =
+      this.perceptualDedupe && cover.source !== "placeholder"
+        ? await perceptualHash(cover.data)
+        : null;
+    const similar = phash
+      ? this.coverCache?.findSimilar(phash, target, DEFAULT_MAX_DISTANCE)
+      : undefined;
+    if (phash && similar) {
+      const url = await this.getCachedCoverUrl(similar.hash, target, signal);
+      if (url) {
+        console.log(`[presence] Same art as cover ${similar.hash}: ${url}`);
+        this.coverCache?.setCover(cover.hash, {
+          url,
+          mimeType: similar.entry.mimeType,
+          target,
+          layout: similar.entry.layout,
+          phash,
+        });
+        return { url, source: cover.source, colors, status: "cached" };
       }
+    }
 
-      this.coverUrlCache.set(track.id, result.url);
-      return result.url;
-    } catch (err) {
-      console.error(`[presence] Upload failed:`, err);
-      this.coverUrlCache.set(track.id, null);
+    // Upload under the album's path (skips if already exists). Tracks
+    // sharing artwork wait for the upload already in flight. While storage
+    // is unreachable covers wait in the upload queue instead.
+    const options: CoverUploadOptions = {
+      artist: album.artist,
+      album: album.album,
+      folderName: getFolderName(filePath),
+      hash: cover.hash,
+      extension: getExtension(cover.mimeType),
+    };
+    const queue = this.uploadQueue;
+    const queued = {
+      hash: cover.hash,
+      target,
+      mimeType: cover.mimeType,
+      options,
+      phash: phash ?? undefined,
+    };
+    if (queue?.has(cover.hash, target)) {
+      throw new UploadQueuedError(cover.hash);
+    }
+    const result = await this.coverUploads.run(
+      `${target}\n${cover.hash}`,
+      async (uploadSignal) => {
+        if (queue && !queue.breaker.canRequest()) {
+          queue.enqueue(queued, cover.data);
+          throw new UploadQueuedError(cover.hash);
+        }
+        let uploaded: UploadResult;
+        try {
+          uploaded = await uploadService.uploadCover(cover.data, cover.mimeType, options, uploadSignal);
+        } catch (err) {
+          if (uploadSignal.aborted || !queue || !isTransientUploadError(err)) throw err;
+          queue.breaker.recordFailure();
+          queue.enqueue(queued, cover.data, err);
+          throw new UploadQueuedError(cover.hash);
+        }
+        queue?.breaker.recordSuccess();
+
+        if (uploaded.existed) {
+          console.log(`[presence] Cover exists: ${uploaded.url}`);
+        } else {
+          console.log(`[presence] Cover uploaded: ${uploaded.url}`);
+        }
+
+        this.coverCache?.setCover(cover.hash, {
+          url: uploaded.url,
+          mimeType: cover.mimeType,
+          target,
+          layout: "album",
+          phash: phash ?? undefined,
+        });
+        return uploaded;
+      },
+      signal,
+    );
+
+    return {
+      url: result.url,
+      source: cover.source,
+      colors,
+      status: result.existed ? "existed" : "uploaded",
+    };
+  }
+
+  /**
+   * Background retry of a queued cover (see upload-queue.ts)
+   */
+  private async retryUpload(
+    uploadService: UploadService,
+    entry: QueuedUpload,
+    data: Uint8Array,
+  ): Promise<void> {
+    const uploaded = await uploadService.uploadCover(data, entry.mimeType, entry.options);
+    console.log(`[presence] Queued cover uploaded: ${uploaded.url}`);
+    this.coverCache?.setCover(entry.hash, {
+      url: uploaded.url,
+      mimeType: entry.mimeType,
+      target: entry.target,
+      layout: "album",
+      phash: entry.phash,
+    });
+  }
+
+  /**
+   * Move covers uploaded under the old per-song paths to album paths.
+   * Each cached cover is re-extracted from a file that still has it and
+   * stored once under its album; the cache then hands out the new URL.
+   * Old uploads are left in place, so URLs already in use keep working.
+   */
+  async migrateCovers(signal?: AbortSignal): Promise<CoverMigrationResult> {
+    const result: CoverMigrationResult = { migrated: 0, kept: 0, failed: 0 };
+    const uploadService = this.uploadService;
+    if (!uploadService || !this.coverCache) return result;
+
+    const target = uploadService.target;
+    for (const legacy of this.coverCache.getLegacyCovers(target)) {
+      signal?.throwIfAborted();
+      try {
+        let moved = false;
+        for (const filePath of legacy.files.filter((file) => existsSync(file))) {
+          const { cover, album } = await resolveCoverArt(filePath, this.coverOptions);
+          // The file changed since; try another one
+          if (!cover || cover.hash !== legacy.hash) continue;
+
+          const uploaded = await uploadService.uploadCover(
+            cover.data,
+            cover.mimeType,
+            {
+              artist: album.artist,
+              album: album.album,
+              folderName: getFolderName(filePath),
+              hash: cover.hash,
+              extension: getExtension(cover.mimeType),
+            },
+            signal,
+          );
+          this.coverCache.setCover(cover.hash, {
+            url: uploaded.url,
+            mimeType: cover.mimeType,
+            target,
+            layout: "album",
+            phash: legacy.entry.phash,
+          });
+          console.log(`[presence] Migrated ${legacy.entry.url} -> ${uploaded.url}`);
+          moved = true;
+          break;
+        }
+        if (moved) {
+          result.migrated++;
+        } else {
+          result.kept++;
+        }
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn(`[presence] Could not migrate ${legacy.entry.url}:`, err);
+        result.failed++;
+      }
+    }
+
+    this.coverCache.flush();
+    // URLs remembered for tracks may be the old ones
+    this.coverUrlCache.clear();
+    this.lastActivityKey = null;
+    console.log(
+      `[presence] Cover migration: ${result.migrated} moved, ${result.kept} kept, ` +
+        `${result.failed} failed`,
+    );
+    return result;
+  }
+
+  private rememberCover(
+    track: Track,
+    url: string,
+    source: CoverSource,
+    colors: CoverColors | null,
+  ): string {
+    this.coverUrlCache.set(track.id, url);
+    this.coverSources.set(track.id, source);
+    if (colors) {
+      this.coverColors.set(track.id, colors);
+    } else {
+      this.coverColors.delete(track.id);
+    }
+    return url;
+  }
+
+  /**
+   * Where the track's current cover comes from, once getCoverUrl found one
+   */
+  getCoverSource(track: Track): CoverSource | "spotify" | null {
+    if (track.source !== "local") {
+      return track.artworkUrl ? "spotify" : null;
+    }
+    return this.coverSources.get(track.id) ?? null;
+  }
+
+  /**
+   * Palette and preview of the track's cover, once getCoverUrl found one.
+   * Only local covers are analyzed.
+   */
+  getCoverColors(track: Track): CoverColors | null {
+    if (track.source !== "local") return null;
+    return this.coverColors.get(track.id) ?? null;
+  }
+
+  /**
+   * URL from the persistent cache, revalidating entries past their TTL
+   */
+  private async getCachedCoverUrl(
+    hash: string,
+    target: string,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    const lookup = this.coverCache?.getCover(hash, target);
+    if (!lookup) return null;
+
+    if (lookup.fresh) {
+      console.log(`[presence] Persistent cache hit: ${lookup.entry.url}`);
+      return lookup.entry.url;
+    }
+
+    // Storage is down: a failed check wouldn't mean the cover is gone
+    if (this.uploadQueue?.breaker.state === "open") {
+      return lookup.entry.url;
+    }
+
+    if (this.uploadService && (await this.uploadService.isAvailable(lookup.entry.url, signal))) {
+      console.log(`[presence] Revalidated cached cover: ${lookup.entry.url}`);
+      this.coverCache?.touchCover(hash);
+      return lookup.entry.url;
+    }
+
+    console.log(`[presence] Cached cover gone, re-uploading: ${lookup.entry.url}`);
+    this.coverCache?.deleteCover(hash);
+    return null;
+  }
+
+  /**
+   * Get file tags used by activity templates.
+   * Only local tracks have tags; results are cached by track ID.
+   */
+  async getTrackTags(track: Track): Promise<TrackTags> {
+    if (track.source !== "local") {
+      return {};
+    }
+
+    const cached = this.tagsCache.get(track.id);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = await localFiles.findFile(track.id);
+    const metadata = filePath ? await extractMetadata(filePath) : null;
+    const tags: TrackTags = {
+      year: metadata?.year,
+      genre: metadata?.genre,
+      trackNumber: metadata?.trackNumber,
+    };
+
+    this.tagsCache.set(track.id, tags);
+    return tags;
+  }
+
+  /**
+   * Evaluate privacy rules for a track.
+   * Returns null when no rule applies; results are cached by track ID.
+   */
+  async getPrivacyDecision(track: Track): Promise<PrivacyDecision | null> {
+    if (this.privacyRules.length === 0) {
       return null;
     }
+
+    const cached = this.privacyCache.get(track.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Only resolve the local file when a folder rule needs it
+    const filePath =
+      track.source === "local" && needsFilePath(this.privacyRules)
+        ? await localFiles.findFile(track.id)
+        : null;
+    const decision = evaluatePrivacy(this.privacyRules, track, filePath);
+
+    if (decision) {
+      console.log(
+        `[presence] Privacy rule "${decision.rule.name || decision.action}" applies to ${track.title}`,
+      );
+    }
+    this.privacyCache.set(track.id, decision);
+    return decision;
+  }
+
+  /**
+   * Buttons for a track (at most two)
+   */
+  async getButtons(
+    track: Track,
+    tags: TrackTags = {},
+    hideAlbum = false,
+  ): Promise<ActivityButton[]> {
+    const rules = hideAlbum
+      ? this.buttons.filter((rule) => !buttonUsesFields(rule, ALBUM_FIELDS))
+      : this.buttons;
+    // Only resolve the local file when a per-folder button needs it
+    const filePath =
+      track.source === "local" && needsButtonFilePath(rules)
+        ? await localFiles.findFile(track.id)
+        : null;
+    return renderButtons(rules, track, tags, filePath);
   }
 
-  buildActivity(state: SpotifyState, coverUrl: string | null) {
-    if (!state.isRunning || state.state !== "playing") {
+  async buildActivity(
+    state: SpotifyState,
+    coverUrl: string | null,
+    tags: TrackTags = {},
+  ): Promise<PresenceActivity | null> {
+    // Paused tracks stay visible unless configured to clear right away;
+    // the idle timeout itself is handled by the caller
+    const paused =
+      state.isRunning && state.state === "paused" && this.idle.pausedMode !== "clear";
+
+    if (!state.isRunning || (state.state !== "playing" && !paused)) {
       this.lastActivityKey = null;
       this.lastActivityTimestamps = null;
       return null;
     }
 
     const { track, positionMs } = state;
+    const privacy = await this.getPrivacyDecision(track);
+
+    if (privacy?.action === "hide") {
+      this.lastActivityKey = null;
+      this.lastActivityTimestamps = null;
+      return null;
+    }
+
+    if (privacy?.action === "generic") {
+      this.lastActivityKey = "generic";
+      this.lastActivityTimestamps = null;
+      return {
+        type: ActivityType.Listening,
+        name: "Spotify",
+        details: "Listening to music",
+        largeImageKey: "spotify",
+        instance: false,
+      };
+    }
+
+    // Hiding the cover hides the album everywhere else too
+    const hideCover = privacy?.action === "hide-cover";
+    const text = renderActivityText(this.templates, hideCover ? withoutAlbum(track) : track, tags);
+    const buttons = await this.getButtons(track, tags, hideCover);
+
+    const activity: PresenceActivity = {
+      type: ActivityType.Listening,
+      name: "Spotify",
+      details: text.details,
+      state: text.state,
+      largeImageKey: (!hideCover && coverUrl) || "spotify",
+      largeImageText: hideCover ? undefined : text.largeImageText,
+      smallImageKey: track.source === "local" ? "local" : "spotify-small",
+      smallImageText: text.smallImageText,
+      buttons: buttons.length > 0 ? buttons : undefined,
+      instance: false,
+    };
+
+    if (paused) {
+      // No timestamps while paused, or Discord keeps counting
+      this.lastActivityKey = `paused:${track.id}:${coverUrl || "none"}`;
+      this.lastActivityTimestamps = null;
+      activity.state = truncateText(`Paused · ${text.state}`, DISCORD_TEXT_LIMIT);
+      return activity;
+    }
+
     const now = Date.now();
     
     // Always calculate fresh timestamps based on current position
@@ -158,19 +854,7 @@ export class PresenceService {
     this.lastActivityKey = `${track.id}:${coverUrl || "none"}`;
     this.lastActivityTimestamps = { start: startTimestamp, end: endTimestamp };
 
-    return {
-      type: ActivityType.Listening,
-      name: "Spotify",
-      details: track.title,
-      state: track.artist,
-      startTimestamp,
-      endTimestamp,
-      largeImageKey: coverUrl || "spotify",
-      largeImageText: track.album,
-      smallImageKey: track.source === "local" ? "local" : "spotify-small",
-      smallImageText: track.source === "local" ? "Local File" : "Spotify",
-      instance: false,
-    };
+    return { ...activity, startTimestamp, endTimestamp };
   }
 
   /**
@@ -193,6 +877,13 @@ export class PresenceService {
   get hasUpload(): boolean {
     return this.uploadService !== null;
   }
+
+  /**
+   * Where covers are uploaded, or null without cover storage
+   */
+  get uploadTarget(): string | null {
+    return this.uploadService?.target ?? null;
+  }
 }
 
 /**
@@ -202,12 +893,49 @@ export function createPresenceService(
   configOverride?: AppConfig,
 ): PresenceService {
   const fileConfig = configOverride ?? getConfig();
-  const apiKey = fileConfig.copypartyApiKey || process.env.COPYPARTY_API_KEY;
 
-  const config: PresenceConfig = {};
+  const config: PresenceConfig = {
+    templates: fileConfig.activityTemplates,
+    privacyRules: fileConfig.privacyRules,
+    idle: resolveIdleConfig(fileConfig),
+    buttons: fileConfig.activityButtons,
+    coverCache: getSharedCoverCache(),
+    perceptualDedupe: fileConfig.coverDedupe === "perceptual",
+    uploadQueue: getSharedUploadQueue(),
+    cover: {
+      folderImageNames: fileConfig.coverImageNames ?? undefined,
+      overrideFolder: fileConfig.coverOverrideFolder,
+      placeholder: fileConfig.coverPlaceholder ?? true,
+      image: resolveImageProfile(fileConfig.coverImage),
+    },
+  };
+
+  const ttlHours = fileConfig.coverCacheTtlHours;
+  config.coverCache?.setTtl(
+    typeof ttlHours === "number" && ttlHours >= 0
+      ? ttlHours * 60 * 60 * 1000
+      : DEFAULT_COVER_CACHE_TTL_MS,
+  );
+
+  config.upload = resolveCoverStorage(fileConfig) ?? undefined;
+
+  return new PresenceService(config);
+}
 
-  if (apiKey) {
-    config.upload = {
+/**
+ * Cover storage from the config: coverStorage, else Copyparty when an API
+ * key is set. Null (with a warning) when the config is invalid, so a typo
+ * disables uploads instead of stopping the sidecar.
+ */
+export function resolveCoverStorage(fileConfig: AppConfig): StorageConfig | null {
+  const apiKey = fileConfig.copypartyApiKey || process.env.COPYPARTY_API_KEY;
+  const configured = fileConfig.coverStorage;
+  let storage: StorageConfig;
+  if (configured && configured.type !== "copyparty") {
+    storage = configured;
+  } else {
+    if (!apiKey) return null;
+    storage = {
       baseUrl:
         fileConfig.copypartyUrl ||
         process.env.COPYPARTY_URL ||
@@ -218,5 +946,12 @@ export function createPresenceService(
     };
   }
 
-  return new PresenceService(config);
+  const errors = validateStorageConfig(storage);
+  if (errors.length > 0) {
+    console.warn(
+      `[presence] Cover storage "${storage.type ?? "copyparty"}" disabled: ${errors.join("; ")}`,
+    );
+    return null;
+  }
+  return storage;
 }
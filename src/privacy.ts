@@ -0,0 +1,184 @@
+/**
+ * Privacy rules
+ *
+ * Lets users keep some listening off their Discord profile. Each rule has
+ * match conditions (all must match) and an action:
+ * - "hide":       no activity at all
+ * - "generic":    a generic "Listening to music" activity
+ * - "hide-cover": normal activity without cover art or album name, and
+ *                 without buttons that lead to the album
+ *
+ * When several rules match, the strictest action wins.
+ */
+
+import { homedir } from "node:os";
+import path from "node:path";
+import type { Track, TrackSource } from "./spotify.ts";
+import type { TemplateField } from "./templates.ts";
+
+export type PrivacyAction = "hide" | "generic" | "hide-cover";
+
+export const PRIVACY_ACTIONS: PrivacyAction[] = ["hide", "generic", "hide-cover"];
+
+export interface PrivacyMatch {
+  artist?: string;      // case-insensitive; matches the full artist or one of several
+  album?: string;       // case-insensitive
+  title?: string;       // regular expression, case-insensitive
+  source?: TrackSource;
+  folder?: string;      // local file path prefix, "~" allowed
+  uri?: string;         // exact Spotify URI, e.g. spotify:track:...
+}
+
+export interface PrivacyRule {
+  name?: string;
+  enabled?: boolean;    // defaults to true
+  action: PrivacyAction;
+  match: PrivacyMatch;
+}
+
+export interface PrivacyDecision {
+  action: PrivacyAction;
+  rule: PrivacyRule;
+}
+
+export interface PrivacyRuleError {
+  index: number;
+  message: string;
+}
+
+// Lower index = stricter
+const ACTION_STRICTNESS: PrivacyAction[] = ["hide", "generic", "hide-cover"];
+
+const MATCH_KEYS: (keyof PrivacyMatch)[] = [
+  "artist",
+  "album",
+  "title",
+  "source",
+  "folder",
+  "uri",
+];
+
+// Placeholders that show or lead to the album: local IDs contain it, and
+// Spotify links and artwork open it
+export const ALBUM_FIELDS: TemplateField[] = ["album", "id", "spotifyUrl", "artworkUrl"];
+
+/**
+ * The track as "hide-cover" shows it in templates: no album, artwork or ID
+ */
+export function withoutAlbum(track: Track): Track {
+  return { ...track, album: "", id: "", artworkUrl: undefined };
+}
+
+function expandHome(folder: string): string {
+  if (folder === "~" || folder.startsWith("~/")) {
+    return path.join(process.env.HOME || homedir(), folder.slice(1));
+  }
+  return folder;
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesArtist(trackArtist: string, artist: string): boolean {
+  if (equalsIgnoreCase(trackArtist, artist)) return true;
+  return trackArtist
+    .split(/\s*(?:,|&|\bfeat\.?|\bft\.?)\s*/i)
+    .some((part) => part && equalsIgnoreCase(part, artist));
+}
+
+/**
+ * Whether a file lies inside a folder ("~" allowed)
+ */
+export function matchesFolder(filePath: string | null, folder: string): boolean {
+  if (!filePath) return false;
+  const prefix = path.resolve(expandHome(folder));
+  const resolved = path.resolve(filePath);
+  return resolved === prefix || resolved.startsWith(`${prefix}${path.sep}`);
+}
+
+function compileTitle(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a rule needs the local file path (so callers can skip the lookup)
+ */
+export function needsFilePath(rules: PrivacyRule[] = []): boolean {
+  return rules.some((rule) => rule.enabled !== false && rule.match?.folder);
+}
+
+export function ruleMatches(
+  rule: PrivacyRule,
+  track: Track,
+  filePath: string | null,
+): boolean {
+  const { match } = rule;
+  if (!match || !MATCH_KEYS.some((key) => match[key])) {
+    return false;
+  }
+
+  if (match.artist && !matchesArtist(track.artist, match.artist)) return false;
+  if (match.album && !equalsIgnoreCase(track.album, match.album)) return false;
+  if (match.title) {
+    const regex = compileTitle(match.title);
+    if (!regex || !regex.test(track.title)) return false;
+  }
+  if (match.source && track.source !== match.source) return false;
+  if (match.folder && !matchesFolder(filePath, match.folder)) return false;
+  if (match.uri && track.id !== match.uri.trim()) return false;
+
+  return true;
+}
+
+/**
+ * Evaluate rules for a track. Returns null if no rule applies.
+ */
+export function evaluatePrivacy(
+  rules: PrivacyRule[] = [],
+  track: Track,
+  filePath: string | null = null,
+): PrivacyDecision | null {
+  let decision: PrivacyDecision | null = null;
+
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+    if (!PRIVACY_ACTIONS.includes(rule.action)) continue;
+    if (!ruleMatches(rule, track, filePath)) continue;
+
+    if (
+      !decision ||
+      ACTION_STRICTNESS.indexOf(rule.action) < ACTION_STRICTNESS.indexOf(decision.action)
+    ) {
+      decision = { action: rule.action, rule };
+    }
+  }
+
+  return decision;
+}
+
+export function validatePrivacyRules(rules: PrivacyRule[] = []): PrivacyRuleError[] {
+  const errors: PrivacyRuleError[] = [];
+
+  rules.forEach((rule, index) => {
+    if (!PRIVACY_ACTIONS.includes(rule.action)) {
+      errors.push({ index, message: `Unknown action "${rule.action}"` });
+    }
+    if (!rule.match || !MATCH_KEYS.some((key) => rule.match[key])) {
+      errors.push({ index, message: "Rule has no match conditions" });
+      return;
+    }
+    if (rule.match.title && !compileTitle(rule.match.title)) {
+      errors.push({ index, message: `Invalid title pattern "${rule.match.title}"` });
+    }
+    if (rule.match.source && rule.match.source !== "local" && rule.match.source !== "spotify") {
+      errors.push({ index, message: `Unknown source "${rule.match.source}"` });
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,104 @@
+/**
+ * Single-flight
+ *
+ * Shares one pending promise per key, so concurrent callers asking for the
+ * same thing (a track's cover, an upload of the same file) trigger the
+ * work only once.
+ *
+ * Each caller may pass its own AbortSignal. Aborting rejects that caller's
+ * promise right away; the shared work is aborted only when every caller
+ * waiting on it has given up.
+ */
+
+interface Flight<V> {
+  promise: Promise<V>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+}
+
+export class SingleFlight<V> {
+  private flights = new Map<string, Flight<V>>();
+
+  /**
+   * Run fn for key, or join the call already in flight
+   */
+  run(key: string, fn: (signal: AbortSignal) => Promise<V>, signal?: AbortSignal): Promise<V> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    let flight = this.flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: Flight<V> = {
+        controller,
+        waiters: 0,
+        promise: Promise.resolve()
+          .then(() => fn(controller.signal))
+          .finally(() => {
+            if (this.flights.get(key) === created) {
+              this.flights.delete(key);
+            }
+          }),
+      };
+      // Callers may all have left; don't report the rejection as unhandled
+      created.promise.catch(() => {});
+      this.flights.set(key, created);
+      flight = created;
+    }
+
+    return this.join(key, flight, signal);
+  }
+
+  has(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  get size(): number {
+    return this.flights.size;
+  }
+
+  private join(key: string, flight: Flight<V>, signal?: AbortSignal): Promise<V> {
+    flight.waiters++;
+
+    return new Promise<V>((resolve, reject) => {
+      let settled = false;
+      const leave = () => {
+        if (settled) return false;
+        settled = true;
+        flight.waiters--;
+        signal?.removeEventListener("abort", onAbort);
+        return true;
+      };
+
+      const onAbort = () => {
+        if (!signal || !leave()) return;
+        if (flight.waiters === 0) {
+          flight.controller.abort(signal.reason);
+          if (this.flights.get(key) === flight) {
+            this.flights.delete(key);
+          }
+        }
+        reject(abortError(signal));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      flight.promise.then(
+        (value) => {
+          if (leave()) resolve(value);
+        },
+        (error) => {
+          if (leave()) reject(error);
+        },
+      );
+    });
+  }
+}
@@ -1,5 +1,7 @@
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
+import type { AppConfig } from "./local-files.ts";
+import { MprisSource } from "./mpris.ts";
 
 const execAsync = promisify(exec);
 
@@ -30,6 +32,35 @@ export interface NotRunningState {
 
 export type SpotifyState = PlaybackState | NotRunningState;
 
+export type PlaybackEvent =
+  | { type: "playerOpened"; state: PlaybackState }
+  | { type: "playerClosed"; state: NotRunningState }
+  | { type: "trackChanged"; state: PlaybackState; previous: Track | null }
+  | { type: "paused"; state: PlaybackState }
+  | { type: "resumed"; state: PlaybackState }
+  | { type: "stopped"; state: PlaybackState }
+  | { type: "seeked"; state: PlaybackState; driftMs: number };
+
+export type PlaybackEventType = PlaybackEvent["type"];
+
+export type PlaybackEventOf<T extends PlaybackEventType> = Extract<
+  PlaybackEvent,
+  { type: T }
+>;
+
+export type PlayerSourceKind = "applescript" | "mpris";
+
+/**
+ * A backend that can report what the player is currently doing.
+ * Implementations must produce the same SpotifyState/Track shapes so the
+ * rest of the pipeline (presence, cover lookup) stays backend-agnostic.
+ */
+export interface PlayerSource {
+  readonly kind: PlayerSourceKind;
+  getState(): Promise<SpotifyState>;
+  dispose?(): void;
+}
+
 const APPLESCRIPT_LINES = [
   'tell application "Spotify"',
   "if it is running then",
@@ -63,6 +94,14 @@ function parseTrackSource(trackId: string): TrackSource {
   return trackId.startsWith("spotify:local:") ? "local" : "spotify";
 }
 
+/**
+ * open.spotify.com link for a Spotify URI (tracks and episodes only)
+ */
+export function getSpotifyTrackUrl(trackId: string): string | null {
+  const match = trackId.match(/^spotify:(track|episode):([A-Za-z0-9]+)$/);
+  return match ? `https://open.spotify.com/${match[1]}/${match[2]}` : null;
+}
+
 export async function getSpotifyState(): Promise<SpotifyState> {
   const args = APPLESCRIPT_LINES.map((line) => `-e '${line}'`).join(" ");
   const { stdout } = await execAsync(`osascript ${args}`);
@@ -100,11 +139,206 @@ export async function getSpotifyState(): Promise<SpotifyState> {
   };
 }
 
+/**
+ * macOS backend: queries the Spotify desktop app through osascript
+ */
+export class AppleScriptSource implements PlayerSource {
+  readonly kind = "applescript";
+
+  async getState(): Promise<SpotifyState> {
+    return getSpotifyState();
+  }
+}
+
+/**
+ * Pick the player backend from config.
+ * Defaults to AppleScript on macOS and MPRIS everywhere else.
+ */
+export function createPlayerSource(config: AppConfig): PlayerSource {
+  const kind =
+    config.playerSource ||
+    (process.platform === "darwin" ? "applescript" : "mpris");
+
+  if (kind === "mpris") {
+    return new MprisSource({ player: config.mprisPlayer });
+  }
+  return new AppleScriptSource();
+}
+
+// Position jumps larger than this (vs. wall-clock extrapolation) count as a seek.
+// Generous enough to absorb polling jitter and osascript latency.
+export const SEEK_THRESHOLD_MS = 2000;
+
+/**
+ * Turns successive state snapshots into semantic playback events.
+ * Positions are extrapolated from the wall clock while playing, so normal
+ * playback produces no events and only real seeks are reported.
+ */
+export class PlaybackTracker {
+  private last: SpotifyState | null = null;
+  private lastSeenAt = 0;
+
+  constructor(private readonly seekThresholdMs: number = SEEK_THRESHOLD_MS) {}
+
+  get state(): SpotifyState | null {
+    return this.last;
+  }
+
+  update(state: SpotifyState, now: number = Date.now()): PlaybackEvent[] {
+    const previous = this.last;
+    const previousAt = this.lastSeenAt;
+    this.last = state;
+    this.lastSeenAt = now;
+
+    if (!state.isRunning) {
+      if (previous === null || previous.isRunning) {
+        return [{ type: "playerClosed", state }];
+      }
+      return [];
+    }
+
+    if (previous === null || !previous.isRunning) {
+      return [
+        { type: "playerOpened", state },
+        { type: "trackChanged", state, previous: null },
+      ];
+    }
+
+    if (previous.track.id !== state.track.id) {
+      return [{ type: "trackChanged", state, previous: previous.track }];
+    }
+
+    if (previous.state !== state.state) {
+      switch (state.state) {
+        case "playing":
+          return [{ type: "resumed", state }];
+        case "paused":
+          return [{ type: "paused", state }];
+        default:
+          return [{ type: "stopped", state }];
+      }
+    }
+
+    const expectedMs =
+      previous.state === "playing"
+        ? previous.positionMs + (now - previousAt)
+        : previous.positionMs;
+    const driftMs = state.positionMs - expectedMs;
+
+    if (Math.abs(driftMs) > this.seekThresholdMs) {
+      return [{ type: "seeked", state, driftMs }];
+    }
+
+    return [];
+  }
+
+  reset(): void {
+    this.last = null;
+    this.lastSeenAt = 0;
+  }
+}
+
+type PlaybackListener = (event: PlaybackEvent) => void;
+
 export class SpotifyClient {
   private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private source: PlayerSource;
+  private tracker = new PlaybackTracker();
+  private listeners: Map<PlaybackEventType, PlaybackListener[]> = new Map();
+
+  constructor(source: PlayerSource = new AppleScriptSource()) {
+    this.source = source;
+  }
+
+  get sourceKind(): PlayerSourceKind {
+    return this.source.kind;
+  }
+
+  /**
+   * Swap the player backend, disposing the previous one
+   */
+  setSource(source: PlayerSource): void {
+    if (source === this.source) return;
+    this.source.dispose?.();
+    this.source = source;
+    // A new backend starts from scratch: re-announce the player on next poll
+    this.tracker.reset();
+  }
+
+  /**
+   * Last state seen by the poller (null before the first poll)
+   */
+  get lastState(): SpotifyState | null {
+    return this.tracker.state;
+  }
+
+  /**
+   * Subscribe to a playback event. Returns an unsubscribe function.
+   */
+  on<T extends PlaybackEventType>(
+    type: T,
+    listener: (event: PlaybackEventOf<T>) => void,
+  ): () => void {
+    const listeners = this.listeners.get(type) ?? [];
+    listeners.push(listener as PlaybackListener);
+    this.listeners.set(type, listeners);
+
+    return () => {
+      const current = this.listeners.get(type) ?? [];
+      this.listeners.set(
+        type,
+        current.filter((l) => l !== listener),
+      );
+    };
+  }
+
+  private emit(event: PlaybackEvent): void {
+    for (const listener of this.listeners.get(event.type) ?? []) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(`[spotify] ${event.type} listener failed:`, err);
+      }
+    }
+  }
+
+  /**
+   * Poll the source once and dispatch any resulting events. The state is
+   * timed when it arrives, since the source may take a while to answer.
+   */
+  async pollOnce(now?: number): Promise<PlaybackEvent[]> {
+    const state = await this.getState();
+    const events = this.tracker.update(state, now ?? Date.now());
+    for (const event of events) {
+      this.emit(event);
+    }
+    return events;
+  }
+
+  /**
+   * Start polling the source; events are delivered to `on` subscribers.
+   * Ticks that come while the previous poll is still running are skipped.
+   */
+  start(intervalMs: number = 1000): () => void {
+    this.stopPolling();
+    let polling = false;
+    this.pollInterval = setInterval(async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        await this.pollOnce();
+      } catch {
+        // Ignore polling errors
+      } finally {
+        polling = false;
+      }
+    }, intervalMs);
+
+    return () => this.stopPolling();
+  }
 
   async getState(): Promise<SpotifyState> {
-    return getSpotifyState();
+    return this.source.getState();
   }
 
   async getCurrentTrack(): Promise<Track | null> {
@@ -117,27 +351,31 @@ export class SpotifyClient {
     return state.isRunning && state.state === "playing";
   }
 
+  /**
+   * Call back with the new state whenever any playback event fires
+   */
   onStateChange(
     callback: (state: SpotifyState) => void,
     intervalMs: number = 1000
   ): () => void {
-    let lastState: string | null = null;
+    // playerOpened is always followed by trackChanged, so it is not listed
+    const types: PlaybackEventType[] = [
+      "playerClosed",
+      "trackChanged",
+      "paused",
+      "resumed",
+      "stopped",
+      "seeked",
+    ];
+    const unsubscribers = types.map((type) =>
+      this.on(type, (event) => callback(event.state)),
+    );
+    const stop = this.start(intervalMs);
 
-    this.pollInterval = setInterval(async () => {
-      try {
-        const state = await this.getState();
-        const stateKey = JSON.stringify(state);
-
-        if (stateKey !== lastState) {
-          lastState = stateKey;
-          callback(state);
-        }
-      } catch {
-        // Ignore polling errors
-      }
-    }, intervalMs);
-
-    return () => this.stopPolling();
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+      stop();
+    };
   }
 
   poll(
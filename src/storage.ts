@@ -0,0 +1,522 @@
+/**
+ * Cover storage backends
+ *
+ * Covers are stored under the path from buildCoverPath on one of:
+ * - copyparty: PUT with ?want=url and HTTP Basic auth (the default, see upload.ts)
+ * - s3:        any S3-compatible service (AWS, MinIO, R2, ...), SigV4-signed
+ * - webdav:    Nextcloud, ownCloud or any other WebDAV server
+ * - local:     a directory served by your own web server
+ *
+ * Backends make a single attempt per call; UploadService adds the retries.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { existsSync, mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import {
+  basicAuth,
+  CopypartyStorage,
+  responseError,
+  UploadError,
+  type UploadConfig,
+} from "./upload.ts";
+
+export type StorageKind = "copyparty" | "s3" | "webdav" | "local";
+
+export interface CoverStorage {
+  readonly kind: StorageKind;
+  // Base URL covers are served from; cached URLs are only valid for it
+  readonly target: string;
+  // Public URL of filePath if it is already stored
+  exists(filePath: string, signal?: AbortSignal): Promise<string | null>;
+  // Store filePath and return its public URL; failures throw UploadError
+  put(data: Uint8Array, filePath: string, mimeType: string, signal?: AbortSignal): Promise<string>;
+  // Whether a previously returned URL still resolves
+  isAvailable(url: string, signal?: AbortSignal): Promise<boolean>;
+}
+
+export interface S3StorageConfig {
+  type: "s3";
+  endpoint: string;         // e.g. "https://s3.eu-central-1.amazonaws.com", "http://minio:9000"
+  region?: string;          // defaults to "us-east-1" (fine for MinIO)
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;          // key prefix inside the bucket
+  publicBaseUrl?: string;   // where the bucket is served; defaults to the object URL
+  pathStyle?: boolean;      // endpoint/bucket/key (default) or bucket.endpoint/key
+}
+
+export interface WebDavStorageConfig {
+  type: "webdav";
+  url: string;              // collection to store covers in
+  username?: string;
+  password?: string;
+  publicBaseUrl?: string;   // e.g. a public share; defaults to url
+}
+
+export interface LocalStorageConfig {
+  type: "local";
+  directory: string;        // "~" allowed
+  publicBaseUrl: string;    // URL your web server serves the directory at
+}
+
+/**
+ * Storage selection in config.json. Copyparty keeps using the
+ * copyparty* settings, so it needs no further fields.
+ */
+export type CoverStorageConfig =
+  | { type: "copyparty" }
+  | S3StorageConfig
+  | WebDavStorageConfig
+  | LocalStorageConfig;
+
+/**
+ * Everything needed to create a backend; a bare UploadConfig is Copyparty
+ */
+export type StorageConfig =
+  | (UploadConfig & { type?: "copyparty" })
+  | S3StorageConfig
+  | WebDavStorageConfig
+  | LocalStorageConfig;
+
+// RFC 3986 encoding, as SigV4 and WebDAV servers expect
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function encodePath(filePath: string): string {
+  return filePath.split("/").map(encodeRfc3986).join("/");
+}
+
+function joinUrl(base: string, filePath: string): string {
+  return `${base.replace(/\/+$/, "")}/${encodePath(filePath)}`;
+}
+
+function isHttpUrl(value: string | undefined): boolean {
+  if (!value) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+function expandHome(dir: string): string {
+  return dir.startsWith("~") ? path.join(homedir(), dir.slice(1)) : dir;
+}
+
+// Public HEAD, as Discord would fetch the image
+async function publicUrlExists(url: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const res = await fetch(url, { method: "HEAD", signal });
+    return res.ok;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return false;
+  }
+}
+
+function toBody(data: Uint8Array, mimeType: string): Blob {
+  return new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType });
+}
+
+// ============================================================================
+// S3 (Signature Version 4)
+// ============================================================================
+
+export const EMPTY_PAYLOAD_HASH = createHash("sha256").update("").digest("hex");
+
+export interface SignRequestOptions {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4. Returns the headers to
+ * send: the given ones plus x-amz-date, x-amz-content-sha256 and
+ * Authorization. Every given header (and Host) is signed.
+ */
+export function signS3Request(options: SignRequestOptions): Record<string, string> {
+  const amzDate = options.date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${options.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...options.headers,
+    "x-amz-content-sha256": options.payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const canonical = Object.entries({ ...headers, host: options.url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, " ")])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonical.map(([name]) => name).join(";");
+
+  const query = [...options.url.searchParams]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    options.method,
+    options.url.pathname,
+    query,
+    canonical.map(([name, value]) => `${name}:${value}\n`).join(""),
+    signedHeaders,
+    options.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, day), options.region), "s3"),
+    "aws4_request",
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    ...headers,
+    Authorization:
+      `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export class S3Storage implements CoverStorage {
+  readonly kind = "s3";
+  private config: S3StorageConfig;
+  private bucketUrl: string;
+  private now: () => Date;
+
+  constructor(config: S3StorageConfig, now: () => Date = () => new Date()) {
+    this.config = config;
+    this.now = now;
+
+    const endpoint = new URL(config.endpoint);
+    if (config.pathStyle === false) {
+      endpoint.host = `${config.bucket}.${endpoint.host}`;
+      this.bucketUrl = endpoint.origin;
+    } else {
+      this.bucketUrl = `${endpoint.origin}/${encodePath(config.bucket)}`;
+    }
+  }
+
+  get target(): string {
+    return this.config.publicBaseUrl?.replace(/\/+$/, "") ?? this.bucketUrl;
+  }
+
+  async exists(filePath: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+      const res = await this.request("HEAD", filePath, undefined, signal);
+      if (res.ok) return this.publicUrl(filePath);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Network error, assume the object doesn't exist
+    }
+    return null;
+  }
+
+  async put(
+    data: Uint8Array,
+    filePath: string,
+    mimeType: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const res = await this.request("PUT", filePath, { data, mimeType }, signal);
+    if (!res.ok) {
+      throw responseError(res);
+    }
+    return this.publicUrl(filePath);
+  }
+
+  async isAvailable(url: string, signal?: AbortSignal): Promise<boolean> {
+    return publicUrlExists(url, signal);
+  }
+
+  private key(filePath: string): string {
+    const prefix = this.config.prefix?.replace(/^\/+|\/+$/g, "");
+    return prefix ? `${prefix}/${filePath}` : filePath;
+  }
+
+  private publicUrl(filePath: string): string {
+    return joinUrl(this.target, this.key(filePath));
+  }
+
+  private request(
+    method: "HEAD" | "PUT",
+    filePath: string,
+    body?: { data: Uint8Array; mimeType: string },
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const url = new URL(joinUrl(this.bucketUrl, this.key(filePath)));
+    const headers = signS3Request({
+      method,
+      url,
+      headers: body ? { "content-type": body.mimeType } : {},
+      payloadHash: body
+        ? createHash("sha256").update(body.data).digest("hex")
+        : EMPTY_PAYLOAD_HASH,
+      region: this.config.region || "us-east-1",
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+      date: this.now(),
+    });
+
+    return fetch(url, {
+      method,
+      headers,
+      body: body ? toBody(body.data, body.mimeType) : undefined,
+      signal,
+    });
+  }
+}
+
+// ============================================================================
+// WebDAV
+// ============================================================================
+
+export class WebDavStorage implements CoverStorage {
+  readonly kind = "webdav";
+  private config: WebDavStorageConfig;
+  private baseUrl: string;
+
+  constructor(config: WebDavStorageConfig) {
+    this.config = config;
+    this.baseUrl = config.url.replace(/\/+$/, "");
+  }
+
+  get target(): string {
+    return this.config.publicBaseUrl?.replace(/\/+$/, "") ?? this.baseUrl;
+  }
+
+  async exists(filePath: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+      const res = await fetch(joinUrl(this.baseUrl, filePath), {
+        method: "HEAD",
+        headers: this.authHeaders(),
+        signal,
+      });
+      if (res.ok) return joinUrl(this.target, filePath);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Network error, assume file doesn't exist
+    }
+    return null;
+  }
+
+  async put(
+    data: Uint8Array,
+    filePath: string,
+    mimeType: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    let res = await this.putOnce(data, filePath, mimeType, signal);
+
+    // 409 Conflict: a parent collection is missing
+    if (res.status === 409) {
+      await this.createCollections(filePath, signal);
+      res = await this.putOnce(data, filePath, mimeType, signal);
+    }
+
+    if (!res.ok) {
+      throw responseError(res);
+    }
+    return joinUrl(this.target, filePath);
+  }
+
+  async isAvailable(url: string, signal?: AbortSignal): Promise<boolean> {
+    // Only send credentials to the WebDAV server itself
+    if (!url.startsWith(`${this.baseUrl}/`)) {
+      return publicUrlExists(url, signal);
+    }
+    try {
+      const res = await fetch(url, { method: "HEAD", headers: this.authHeaders(), signal });
+      return res.ok;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return false;
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    if (!this.config.username) return {};
+    return { Authorization: basicAuth(this.config.username, this.config.password ?? "") };
+  }
+
+  private putOnce(
+    data: Uint8Array,
+    filePath: string,
+    mimeType: string,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return fetch(joinUrl(this.baseUrl, filePath), {
+      method: "PUT",
+      headers: { ...this.authHeaders(), "Content-Type": mimeType },
+      body: toBody(data, mimeType),
+      signal,
+    });
+  }
+
+  // MKCOL each parent of filePath; 405 means it already exists
+  private async createCollections(filePath: string, signal?: AbortSignal): Promise<void> {
+    const segments = filePath.split("/").slice(0, -1);
+    for (let i = 1; i <= segments.length; i++) {
+      const res = await fetch(`${joinUrl(this.baseUrl, segments.slice(0, i).join("/"))}/`, {
+        method: "MKCOL",
+        headers: this.authHeaders(),
+        signal,
+      });
+      if (!res.ok && res.status !== 405) {
+        throw responseError(res);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Local directory
+// ============================================================================
+
+export class LocalStorage implements CoverStorage {
+  readonly kind = "local";
+  private directory: string;
+  private baseUrl: string;
+
+  constructor(config: LocalStorageConfig) {
+    this.directory = path.resolve(expandHome(config.directory));
+    this.baseUrl = config.publicBaseUrl.replace(/\/+$/, "");
+  }
+
+  get target(): string {
+    return this.baseUrl;
+  }
+
+  async exists(filePath: string): Promise<string | null> {
+    return existsSync(this.resolve(filePath)) ? joinUrl(this.baseUrl, filePath) : null;
+  }
+
+  async put(data: Uint8Array, filePath: string): Promise<string> {
+    const dest = this.resolve(filePath);
+    try {
+      mkdirSync(path.dirname(dest), { recursive: true });
+      // Write then rename so the web server never serves a partial file
+      const temp = `${dest}.${process.pid}.tmp`;
+      writeFileSync(temp, data);
+      renameSync(temp, dest);
+    } catch (error) {
+      throw new UploadError(`Failed to write ${dest}: ${(error as Error).message}`);
+    }
+    return joinUrl(this.baseUrl, filePath);
+  }
+
+  async isAvailable(url: string, signal?: AbortSignal): Promise<boolean> {
+    // Our own files are checked on disk; anything else over HTTP
+    if (url.startsWith(`${this.baseUrl}/`)) {
+      const filePath = url
+        .slice(this.baseUrl.length + 1)
+        .split("/")
+        .map(decodeURIComponent)
+        .join("/");
+      return existsSync(this.resolve(filePath));
+    }
+    return publicUrlExists(url, signal);
+  }
+
+  private resolve(filePath: string): string {
+    const dest = path.resolve(this.directory, filePath);
+    if (!dest.startsWith(`${this.directory}${path.sep}`)) {
+      throw new UploadError(`Cover path escapes the storage directory: ${filePath}`);
+    }
+    return dest;
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Problems that would stop the backend from working (empty when valid)
+ */
+export function validateStorageConfig(config: StorageConfig): string[] {
+  const errors: string[] = [];
+
+  switch (config.type) {
+    case undefined:
+    case "copyparty":
+      if (!isHttpUrl(config.baseUrl)) errors.push("baseUrl must be an http(s) URL");
+      if (!config.apiKey) errors.push("apiKey is required");
+      break;
+    case "s3":
+      if (!isHttpUrl(config.endpoint)) errors.push("endpoint must be an http(s) URL");
+      if (!config.bucket) errors.push("bucket is required");
+      if (!config.accessKeyId || !config.secretAccessKey) {
+        errors.push("accessKeyId and secretAccessKey are required");
+      }
+      if (config.publicBaseUrl && !isHttpUrl(config.publicBaseUrl)) {
+        errors.push("publicBaseUrl must be an http(s) URL");
+      }
+      break;
+    case "webdav":
+      if (!isHttpUrl(config.url)) errors.push("url must be an http(s) URL");
+      if (config.publicBaseUrl && !isHttpUrl(config.publicBaseUrl)) {
+        errors.push("publicBaseUrl must be an http(s) URL");
+      }
+      break;
+    case "local":
+      if (!config.directory) errors.push("directory is required");
+      if (!isHttpUrl(config.publicBaseUrl)) {
+        errors.push("publicBaseUrl must be an http(s) URL");
+      }
+      break;
+    default:
+      errors.push(`Unknown storage type "${(config as { type: string }).type}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Create the configured backend. Throws if the config is invalid.
+ */
+export function createCoverStorage(config: StorageConfig): CoverStorage {
+  const errors = validateStorageConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${config.type ?? "copyparty"} storage: ${errors.join("; ")}`);
+  }
+
+  switch (config.type) {
+    case "s3":
+      return new S3Storage(config);
+    case "webdav":
+      return new WebDavStorage(config);
+    case "local":
+      return new LocalStorage(config);
+    default:
+      return new CopypartyStorage(config);
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Activity text templates
+ *
+ * Lets users control the Discord activity text, e.g.
+ *   details: "{artist} — {title}"
+ *   state:   "on {album}[ ({year})]"
+ *
+ * Syntax:
+ * - {field}      replaced with a track field or file tag
+ * - [ ... ]      conditional section, dropped if any field inside is empty
+ * - \{ \} \[ \]  literal characters
+ */
+
+import { getSpotifyTrackUrl, type Track } from "./spotify.ts";
+
+// Discord rejects activity strings longer than this
+export const DISCORD_TEXT_LIMIT = 128;
+
+// Fields shorter than this are never shortened during truncation
+const MIN_FIELD_LENGTH = 8;
+
+export const TEMPLATE_FIELDS = [
+  "title",
+  "artist",
+  "album",
+  "duration",
+  "durationMs",
+  "id",
+  "source",
+  "sourceLabel",
+  "artworkUrl",
+  "spotifyUrl",
+  "year",
+  "genre",
+  "trackNumber",
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+export type TemplateValues = Record<TemplateField, string>;
+
+export interface ActivityTemplates {
+  details?: string;
+  state?: string;
+  largeImageText?: string;
+  smallImageText?: string;
+}
+
+export type ActivityTextField = keyof ActivityTemplates;
+
+export type ActivityText = Record<ActivityTextField, string>;
+
+/**
+ * Tags read from the audio file (local tracks only)
+ */
+export interface TrackTags {
+  year?: number;
+  genre?: string;
+  trackNumber?: number;
+}
+
+export const DEFAULT_TEMPLATES: Required<ActivityTemplates> = {
+  details: "{title}",
+  state: "{artist}",
+  largeImageText: "{album}",
+  smallImageText: "{sourceLabel}",
+};
+
+export interface TemplateError {
+  field?: ActivityTextField;
+  message: string;
+}
+
+type TextSegment = { kind: "text"; value: string };
+type FieldSegment = { kind: "field"; name: TemplateField };
+type SectionSegment = { kind: "section"; parts: (TextSegment | FieldSegment)[] };
+type Segment = TextSegment | FieldSegment | SectionSegment;
+
+function isTemplateField(name: string): name is TemplateField {
+  return (TEMPLATE_FIELDS as readonly string[]).includes(name);
+}
+
+function parseTemplate(template: string): { segments: Segment[]; errors: string[] } {
+  const segments: Segment[] = [];
+  const errors: string[] = [];
+  let section: SectionSegment | null = null;
+  let text = "";
+
+  const target = () => (section ? section.parts : segments);
+  const flushText = () => {
+    if (text) {
+      target().push({ kind: "text", value: text });
+      text = "";
+    }
+  };
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+
+    if (char === "\\" && i + 1 < template.length) {
+      text += template[++i];
+      continue;
+    }
+
+    if (char === "{") {
+      const end = template.indexOf("}", i);
+      if (end === -1) {
+        errors.push(`Unclosed "{" at position ${i}`);
+        break;
+      }
+      const name = template.slice(i + 1, end).trim();
+      if (!isTemplateField(name)) {
+        errors.push(`Unknown placeholder "{${name}}"`);
+      } else {
+        flushText();
+        target().push({ kind: "field", name });
+      }
+      i = end;
+      continue;
+    }
+
+    if (char === "}") {
+      errors.push(`Unexpected "}" at position ${i}`);
+      continue;
+    }
+
+    if (char === "[") {
+      if (section) {
+        errors.push(`Nested "[" at position ${i}`);
+        continue;
+      }
+      flushText();
+      section = { kind: "section", parts: [] };
+      continue;
+    }
+
+    if (char === "]") {
+      if (!section) {
+        errors.push(`Unexpected "]" at position ${i}`);
+        continue;
+      }
+      flushText();
+      segments.push(section);
+      section = null;
+      continue;
+    }
+
+    text += char;
+  }
+
+  if (section) {
+    errors.push('Unclosed "["');
+  }
+  flushText();
+
+  return { segments, errors };
+}
+
+/**
+ * Placeholders a template uses
+ */
+export function getTemplateFields(template: string): TemplateField[] {
+  const fields: TemplateField[] = [];
+  for (const segment of parseTemplate(template).segments) {
+    const parts = segment.kind === "section" ? segment.parts : [segment];
+    for (const part of parts) {
+      if (part.kind === "field") fields.push(part.name);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Validate a single template string
+ */
+export function validateTemplate(template: string): string[] {
+  return parseTemplate(template).errors;
+}
+
+/**
+ * Validate all configured templates
+ */
+export function validateTemplates(templates: ActivityTemplates = {}): TemplateError[] {
+  const errors: TemplateError[] = [];
+  for (const field of Object.keys(DEFAULT_TEMPLATES) as ActivityTextField[]) {
+    const template = templates[field];
+    if (template === undefined) continue;
+    if (typeof template !== "string") {
+      errors.push({ field, message: "Template must be a string" });
+      continue;
+    }
+    for (const message of validateTemplate(template)) {
+      errors.push({ field, message });
+    }
+  }
+  return errors;
+}
+
+function formatDuration(ms: number): string {
+  if (!ms || Number.isNaN(ms)) return "";
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export function buildTemplateValues(track: Track, tags: TrackTags = {}): TemplateValues {
+  return {
+    title: track.title ?? "",
+    artist: track.artist ?? "",
+    album: track.album ?? "",
+    duration: formatDuration(track.durationMs),
+    durationMs: track.durationMs ? String(Math.round(track.durationMs)) : "",
+    id: track.id ?? "",
+    source: track.source,
+    sourceLabel: track.source === "local" ? "Local File" : "Spotify",
+    artworkUrl: track.artworkUrl ?? "",
+    spotifyUrl: getSpotifyTrackUrl(track.id) ?? "",
+    year: tags.year ? String(tags.year) : "",
+    genre: tags.genre ?? "",
+    trackNumber: tags.trackNumber ? String(tags.trackNumber) : "",
+  };
+}
+
+/**
+ * Shorten text to maxLength, preferring a word boundary, with an ellipsis
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  if (maxLength <= 1) return "…".slice(0, maxLength);
+
+  let cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (lastSpace > maxLength * 0.6) {
+    cut = cut.slice(0, lastSpace);
+  }
+  return `${cut.trimEnd()}…`;
+}
+
+interface Piece {
+  text: string;
+  field: boolean;
+}
+
+/**
+ * Render a template. When the result exceeds maxLength, the longest field
+ * values are shortened first so literal text and short fields stay intact.
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+  maxLength: number = DISCORD_TEXT_LIMIT,
+): string {
+  const { segments } = parseTemplate(template);
+  const pieces: Piece[] = [];
+
+  for (const segment of segments) {
+    if (segment.kind === "text") {
+      pieces.push({ text: segment.value, field: false });
+    } else if (segment.kind === "field") {
+      pieces.push({ text: values[segment.name], field: true });
+    } else {
+      const hasEmptyField = segment.parts.some(
+        (part) => part.kind === "field" && !values[part.name],
+      );
+      if (hasEmptyField) continue;
+      for (const part of segment.parts) {
+        pieces.push(
+          part.kind === "text"
+            ? { text: part.value, field: false }
+            : { text: values[part.name], field: true },
+        );
+      }
+    }
+  }
+
+  const totalLength = () => pieces.reduce((sum, p) => sum + p.text.length, 0);
+
+  let overflow = totalLength() - maxLength;
+  while (overflow > 0) {
+    const longest = pieces
+      .filter((p) => p.field && p.text.length > MIN_FIELD_LENGTH)
+      .sort((a, b) => b.text.length - a.text.length)[0];
+    if (!longest) break;
+
+    const target = Math.max(MIN_FIELD_LENGTH, longest.text.length - overflow);
+    longest.text = truncateText(longest.text, target);
+    overflow = totalLength() - maxLength;
+  }
+
+  const rendered = pieces.map((p) => p.text).join("").replace(/\s+/g, " ").trim();
+  return truncateText(rendered, maxLength);
+}
+
+/**
+ * Render every activity text field, falling back to the default template
+ * for fields whose template is invalid or renders empty
+ */
+export function renderActivityText(
+  templates: ActivityTemplates,
+  track: Track,
+  tags: TrackTags = {},
+): ActivityText {
+  const values = buildTemplateValues(track, tags);
+  const result = {} as ActivityText;
+
+  for (const field of Object.keys(DEFAULT_TEMPLATES) as ActivityTextField[]) {
+    const template = templates[field];
+    let text = "";
+    if (typeof template === "string" && validateTemplate(template).length === 0) {
+      text = renderTemplate(template, values);
+    }
+    result[field] = text || renderTemplate(DEFAULT_TEMPLATES[field], values);
+  }
+
+  return result;
+}
+
+// Used for previews when nothing is playing
+export const SAMPLE_TRACK: Track = {
+  title: "Comme des Garçons",
+  artist: "Rich Brian",
+  album: "The Sailor",
+  durationMs: 205000,
+  id: "spotify:local:Rich+Brian:The+Sailor:Comme+des+Gar%C3%A7ons:205",
+  source: "local",
+};
+
+export const SAMPLE_TAGS: TrackTags = {
+  year: 2019,
+  genre: "Hip-Hop",
+  trackNumber: 7,
+};
@@ -0,0 +1,310 @@
+/**
+ * Offline upload queue
+ *
+ * Covers that couldn't be uploaded because storage was unreachable wait in
+ * ~/.config/tini-presence/upload-queue/ (queue.json plus one image file per
+ * cover) and are retried in the background with backoff, across restarts.
+ * A circuit breaker, shared with live lookups, stops calling storage that
+ * keeps failing: while it is open new covers go straight to the queue, so
+ * playback updates don't wait on retries.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { CircuitBreaker, type CircuitBreakerStatus } from "./circuit-breaker.ts";
+import { UploadError, type CoverUploadOptions } from "./upload.ts";
+
+export interface QueuedUpload {
+  hash: string;
+  target: string;         // upload server + path the cover belongs to
+  mimeType: string;
+  options: CoverUploadOptions;
+  phash?: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface UploadQueueOptions {
+  dir: string;
+  baseDelayMs: number;    // first retry; doubled per attempt
+  maxDelayMs: number;
+  maxEntries: number;     // oldest entries are dropped past this
+  intervalMs: number;     // how often due entries are checked
+  now: () => number;
+}
+
+export interface UploadQueueStatus {
+  pending: number;
+  breaker: CircuitBreakerStatus;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+}
+
+// Stores a queued cover; throws if it failed again
+export type UploadRetry = (entry: QueuedUpload, data: Uint8Array) => Promise<void>;
+
+interface QueueFile {
+  version: 1;
+  entries: QueuedUpload[];
+}
+
+const QUEUE_VERSION = 1;
+
+/**
+ * Thrown instead of the upload error when a cover was queued for later
+ */
+export class UploadQueuedError extends Error {
+  constructor(public readonly hash: string) {
+    super(`Cover ${hash} queued for upload`);
+    this.name = "UploadQueuedError";
+  }
+}
+
+/**
+ * Network errors, 429 and 5xx are worth retrying later; rejected uploads
+ * (bad credentials, ...) are not
+ */
+export function isTransientUploadError(err: unknown): boolean {
+  return !(err instanceof UploadError) || err.retryable;
+}
+
+export function getUploadQueueDir(): string {
+  const home = process.env.HOME || homedir();
+  return path.join(home, ".config", "tini-presence", "upload-queue");
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export class UploadQueue {
+  readonly breaker: CircuitBreaker;
+  private options: UploadQueueOptions;
+  private entries = new Map<string, QueuedUpload>();
+  private listeners: ((entry: QueuedUpload) => void)[] = [];
+  private worker: { target: string; retry: UploadRetry } | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing: Promise<number> | null = null;
+
+  constructor(options: Partial<UploadQueueOptions> = {}, breaker?: CircuitBreaker) {
+    this.options = {
+      dir: getUploadQueueDir(),
+      baseDelayMs: 30_000,
+      maxDelayMs: 30 * 60_000,
+      maxEntries: 200,
+      intervalMs: 15_000,
+      now: () => Date.now(),
+      ...options,
+    };
+    this.breaker = breaker ?? new CircuitBreaker({ now: this.options.now });
+    this.load();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(hash: string, target: string): boolean {
+    return this.entries.has(this.key(hash, target));
+  }
+
+  /**
+   * Keep a cover for a later retry. Queuing a cover already queued only
+   * records the new error.
+   */
+  enqueue(
+    upload: Pick<QueuedUpload, "hash" | "target" | "mimeType" | "options" | "phash">,
+    data: Uint8Array,
+    error?: unknown,
+  ): void {
+    const key = this.key(upload.hash, upload.target);
+    const now = this.options.now();
+    const existing = this.entries.get(key);
+    if (existing) {
+      if (error !== undefined) existing.lastError = describeError(error);
+      this.save();
+      return;
+    }
+
+    while (this.entries.size >= this.options.maxEntries) {
+      const [oldestKey, oldest] = this.entries.entries().next().value!;
+      console.warn(`[upload-queue] Queue full, dropping ${oldest.hash}`);
+      this.remove(oldestKey);
+    }
+
+    try {
+      mkdirSync(this.options.dir, { recursive: true });
+      writeFileSync(this.dataPath(key), data);
+    } catch (err) {
+      console.warn("[upload-queue] Failed to keep cover:", err);
+      return;
+    }
+    this.entries.set(key, {
+      ...upload,
+      queuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now + this.options.baseDelayMs,
+      lastError: error === undefined ? undefined : describeError(error),
+    });
+    console.log(`[upload-queue] Queued ${upload.hash} (${this.entries.size} pending)`);
+    this.save();
+  }
+
+  /**
+   * Retry due uploads for the target in the background until stop()
+   */
+  start(target: string, retry: UploadRetry): void {
+    this.worker = { target, retry };
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.processDue(), this.options.intervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  stop(): void {
+    this.worker = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Retry every due entry of the started target, oldest first, while the
+   * breaker allows it. Returns how many were uploaded.
+   */
+  processDue(): Promise<number> {
+    this.processing ??= this.runDue().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  /**
+   * Called with each entry once its upload succeeded
+   */
+  onUploaded(listener: (entry: QueuedUpload) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getStatus(): UploadQueueStatus {
+    let next: QueuedUpload | undefined;
+    let last: QueuedUpload | undefined;
+    for (const entry of this.entries.values()) {
+      if (!next || entry.nextAttemptAt < next.nextAttemptAt) next = entry;
+      if (entry.lastError) last = entry;
+    }
+    return {
+      pending: this.entries.size,
+      breaker: this.breaker.getStatus(),
+      nextAttemptAt: next?.nextAttemptAt ?? null,
+      lastError: last?.lastError ?? null,
+    };
+  }
+
+  private async runDue(): Promise<number> {
+    const worker = this.worker;
+    if (!worker) return 0;
+
+    let uploaded = 0;
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.target !== worker.target || entry.nextAttemptAt > this.options.now()) continue;
+      if (!this.breaker.canRequest()) break;
+
+      let data: Uint8Array;
+      try {
+        data = new Uint8Array(readFileSync(this.dataPath(key)));
+      } catch {
+        console.warn(`[upload-queue] Image for ${entry.hash} is gone, dropping it`);
+        this.remove(key);
+        continue;
+      }
+
+      try {
+        await worker.retry(entry, data);
+      } catch (err) {
+        if (!isTransientUploadError(err)) {
+          // Storage answered, and said no: retrying won't help
+          this.breaker.recordSuccess();
+          console.warn(`[upload-queue] Dropping ${entry.hash}:`, err);
+          this.remove(key);
+          continue;
+        }
+        this.breaker.recordFailure();
+        entry.attempts++;
+        entry.lastError = describeError(err);
+        entry.nextAttemptAt =
+          this.options.now() +
+          Math.min(this.options.baseDelayMs * 2 ** entry.attempts, this.options.maxDelayMs);
+        this.save();
+        continue;
+      }
+
+      this.breaker.recordSuccess();
+      this.remove(key);
+      uploaded++;
+      console.log(`[upload-queue] Uploaded ${entry.hash} (${this.entries.size} pending)`);
+      for (const listener of this.listeners) {
+        listener(entry);
+      }
+    }
+    return uploaded;
+  }
+
+  private key(hash: string, target: string): string {
+    return `${target}\n${hash}`;
+  }
+
+  // One image file per entry; the same cover may be queued for two targets
+  private dataPath(key: string): string {
+    return path.join(this.options.dir, createHash("sha1").update(key).digest("hex"));
+  }
+
+  private remove(key: string): void {
+    rmSync(this.dataPath(key), { force: true });
+    this.entries.delete(key);
+    this.save();
+  }
+
+  private load(): void {
+    try {
+      const file = path.join(this.options.dir, "queue.json");
+      if (!existsSync(file)) return;
+      const data = JSON.parse(readFileSync(file, "utf-8")) as QueueFile;
+      if (data.version !== QUEUE_VERSION) return;
+      for (const entry of data.entries ?? []) {
+        this.entries.set(this.key(entry.hash, entry.target), entry);
+      }
+    } catch {
+      // Corrupted queue, start empty
+    }
+  }
+
+  private save(): void {
+    const data: QueueFile = { version: QUEUE_VERSION, entries: [...this.entries.values()] };
+    try {
+      mkdirSync(this.options.dir, { recursive: true });
+      writeFileSync(path.join(this.options.dir, "queue.json"), JSON.stringify(data));
+    } catch (err) {
+      console.warn("[upload-queue] Failed to save:", err);
+    }
+  }
+}
+
+// Shared by every PresenceService so queued covers and the breaker
+// survive config reloads
+let sharedQueue: UploadQueue | null = null;
+
+export function getSharedUploadQueue(): UploadQueue {
+  if (!sharedQueue) {
+    sharedQueue = new UploadQueue();
+  }
+  return sharedQueue;
+}
@@ -1,4 +1,6 @@
 import { getDeviceFolder } from "./identity.ts";
+import { SingleFlight } from "./single-flight.ts";
+import type { CoverStorage } from "./storage.ts";
 
 export interface UploadConfig {
   baseUrl: string;
@@ -20,8 +22,9 @@ export interface UploadResult {
 }
 
 export interface CoverUploadOptions {
-  songTitle: string;
-  folderName: string;  // e.g., "Music" from /Users/florian/Music/song.mp3
+  artist?: string;
+  album?: string;
+  folderName: string;  // e.g., "Music" from /Users/florian/Music/song.mp3, used without an album
   hash: string;
   extension: string;   // e.g., "jpg"
 }
@@ -52,33 +55,55 @@ function sanitizeForPath(name: string): string {
     .slice(0, 100);                  // Limit length
 }
 
-// Build the full upload path for cover art
-// Result: tini-presence/{machine-name}-{id}/{folder}/{song-title}-{hash}.{ext}
+// Human-readable part of a cover's name: "Artist - Album", the album or
+// the file's folder
+function coverLabel({ artist, album, folderName }: CoverUploadOptions): string {
+  if (!album) return folderName;
+  return artist ? `${artist} - ${album}` : album;
+}
+
+// Build the full upload path for cover art, one per cover hash so every
+// track of an album shares it
+// Result: tini-presence/{machine-name}-{id}/albums/{artist-album}-{hash}.{ext}
 export function buildCoverPath(options: CoverUploadOptions): string {
   const deviceFolder = getDeviceFolder();
-  const folder = sanitizeForPath(options.folderName);
-  const title = sanitizeForPath(options.songTitle);
-  const filename = `${title}-${options.hash}.${options.extension}`;
-  
-  return `tini-presence/${deviceFolder}/${folder}/${filename}`;
-}
+  const label = sanitizeForPath(coverLabel(options));
+  const filename = `${label}-${options.hash}.${options.extension}`;
 
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof UploadError) {
-    return error.retryable;
-  }
-  if (error instanceof TypeError && error.message.includes("fetch")) {
-    return true;
-  }
-  return false;
+  return `tini-presence/${deviceFolder}/albums/${filename}`;
 }
 
 function isRetryableStatus(status: number): boolean {
   return status === 429 || (status >= 500 && status < 600);
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * UploadError for a failed response; 429 and 5xx are retryable
+ */
+export function responseError(res: Response): UploadError {
+  return new UploadError(
+    `Upload failed: ${res.status} ${res.statusText}`,
+    res.status,
+    isRetryableStatus(res.status)
+  );
+}
+
+export function basicAuth(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
 }
 
 function getRetryDelay(attempt: number, config: RetryConfig): number {
@@ -87,30 +112,70 @@ function getRetryDelay(attempt: number, config: RetryConfig): number {
   return Math.min(exponentialDelay + jitter, config.maxDelay);
 }
 
+/**
+ * Run fn with exponential backoff, shared by all storage backends.
+ * Non-retryable UploadErrors and aborts are thrown right away.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      if (error instanceof UploadError && !error.retryable) {
+        throw error;
+      }
+
+      if (attempt === retryConfig.maxRetries) {
+        throw error;
+      }
+
+      lastError = error;
+    }
+
+    const delay = getRetryDelay(attempt, retryConfig);
+    await sleep(delay, signal);
+  }
+
+  throw lastError || new UploadError("Upload failed after retries", undefined, false);
+}
+
+function copypartyAuth(config: UploadConfig): string {
+  return basicAuth(config.username || "cdn-api", config.apiKey);
+}
+
 /**
  * Check if file exists on CDN using HEAD request
  */
 export async function fileExists(
   filePath: string,
-  config: UploadConfig
+  config: UploadConfig,
+  signal?: AbortSignal
 ): Promise<string | null> {
   const uploadPath = config.uploadPath || "/cdn";
   const url = `${config.baseUrl}${uploadPath}/${filePath}`;
 
-  const auth = Buffer.from(
-    `${config.username || "cdn-api"}:${config.apiKey}`
-  ).toString("base64");
-
   try {
     const res = await fetch(url, {
       method: "HEAD",
-      headers: { Authorization: `Basic ${auth}` },
+      headers: { Authorization: copypartyAuth(config) },
+      signal,
     });
     
     if (res.ok) {
       return url;
     }
-  } catch {
+  } catch (error) {
+    if (signal?.aborted) throw error;
     // Network error, assume file doesn't exist
   }
 
@@ -118,71 +183,72 @@ export async function fileExists(
 }
 
 /**
- * Upload file to CDN using PUT
+ * Check that a previously returned CDN URL still resolves
  */
-export async function uploadFile(
+export async function urlExists(
+  url: string,
+  config: UploadConfig,
+  signal?: AbortSignal
+): Promise<boolean> {
+  try {
+    const res = await fetch(url, {
+      method: "HEAD",
+      headers: { Authorization: copypartyAuth(config) },
+      signal,
+    });
+    return res.ok;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return false;
+  }
+}
+
+/**
+ * Upload file to CDN using PUT (one attempt)
+ */
+async function putFile(
   data: Uint8Array,
   filePath: string,
   mimeType: string,
   config: UploadConfig,
-  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
-): Promise<UploadResult> {
+  signal?: AbortSignal
+): Promise<string> {
   const uploadPath = config.uploadPath || "/cdn";
   const uploadUrl = `${config.baseUrl}${uploadPath}/${filePath}?want=url`;
 
-  const auth = Buffer.from(
-    `${config.username || "cdn-api"}:${config.apiKey}`
-  ).toString("base64");
-
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
-    try {
-      const res = await fetch(uploadUrl, {
-        method: "PUT",
-        headers: {
-          Authorization: `Basic ${auth}`,
-          "Content-Type": mimeType,
-        },
-        body: new Blob([data.buffer as ArrayBuffer], { type: mimeType }),
-      });
-
-      if (res.ok) {
-        const url = (await res.text()).trim();
-        return { url, filename: filePath, existed: false };
-      }
-
-      const retryable = isRetryableStatus(res.status);
-      const error = new UploadError(
-        `Upload failed: ${res.status} ${res.statusText}`,
-        res.status,
-        retryable
-      );
-
-      if (!retryable || attempt === retryConfig.maxRetries) {
-        throw error;
-      }
-
-      lastError = error;
-    } catch (error) {
-      if (error instanceof UploadError && !error.retryable) {
-        throw error;
-      }
-
-      if (!isRetryableError(error) && attempt === retryConfig.maxRetries) {
-        throw error;
-      }
-
-      lastError = error as Error;
-    }
-
-    if (attempt < retryConfig.maxRetries) {
-      const delay = getRetryDelay(attempt, retryConfig);
-      await sleep(delay);
-    }
+  const res = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: {
+      Authorization: copypartyAuth(config),
+      "Content-Type": mimeType,
+    },
+    body: new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType }),
+    signal,
+  });
+
+  if (!res.ok) {
+    throw responseError(res);
   }
+  return (await res.text()).trim();
+}
 
-  throw lastError || new UploadError("Upload failed after retries", undefined, false);
+/**
+ * Upload file to CDN using PUT, with retries
+ */
+export async function uploadFile(
+  data: Uint8Array,
+  filePath: string,
+  mimeType: string,
+  config: UploadConfig,
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  signal?: AbortSignal
+): Promise<UploadResult> {
+  const url = await withRetry(
+    () => putFile(data, filePath, mimeType, config, signal),
+    retryConfig,
+    signal
+  );
+  return { url, filename: filePath, existed: false };
 }
 
 /**
@@ -194,27 +260,110 @@ export async function uploadIfNotExists(
   filePath: string,
   mimeType: string,
   config: UploadConfig,
-  retryConfig?: RetryConfig
+  retryConfig?: RetryConfig,
+  signal?: AbortSignal
+): Promise<UploadResult> {
+  return storeIfMissing(
+    new CopypartyStorage(config),
+    data,
+    filePath,
+    mimeType,
+    retryConfig,
+    signal
+  );
+}
+
+/**
+ * Store a file on any backend unless it is already there
+ */
+async function storeIfMissing(
+  storage: CoverStorage,
+  data: Uint8Array,
+  filePath: string,
+  mimeType: string,
+  retryConfig?: RetryConfig,
+  signal?: AbortSignal
 ): Promise<UploadResult> {
   // Check if file already exists
-  const existingUrl = await fileExists(filePath, config);
+  const existingUrl = await storage.exists(filePath, signal);
   if (existingUrl) {
     return { url: existingUrl, filename: filePath, existed: true };
   }
 
   // Upload new file
-  return uploadFile(data, filePath, mimeType, config, retryConfig);
+  const url = await withRetry(
+    () => storage.put(data, filePath, mimeType, signal),
+    retryConfig,
+    signal
+  );
+  return { url, filename: filePath, existed: false };
 }
 
-export class UploadService {
+/**
+ * Copyparty backend: PUT with ?want=url, HTTP Basic auth as "cdn-api"
+ */
+export class CopypartyStorage implements CoverStorage {
+  readonly kind = "copyparty";
   private config: UploadConfig;
-  private retryConfig: RetryConfig;
 
-  constructor(config: UploadConfig, retryConfig?: Partial<RetryConfig>) {
+  constructor(config: UploadConfig) {
     this.config = config;
+  }
+
+  get target(): string {
+    return `${this.config.baseUrl}${this.config.uploadPath || "/cdn"}`;
+  }
+
+  async exists(filePath: string, signal?: AbortSignal): Promise<string | null> {
+    return fileExists(filePath, this.config, signal);
+  }
+
+  async put(
+    data: Uint8Array,
+    filePath: string,
+    mimeType: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return putFile(data, filePath, mimeType, this.config, signal);
+  }
+
+  async isAvailable(url: string, signal?: AbortSignal): Promise<boolean> {
+    return urlExists(url, this.config, signal);
+  }
+}
+
+function isCoverStorage(value: CoverStorage | UploadConfig): value is CoverStorage {
+  return typeof (value as CoverStorage).put === "function";
+}
+
+export class UploadService {
+  private storage: CoverStorage;
+  private retryConfig: RetryConfig;
+  // One check-and-upload per path at a time
+  private uploads = new SingleFlight<UploadResult>();
+
+  /**
+   * Takes any storage backend; a plain UploadConfig means Copyparty
+   */
+  constructor(storage: CoverStorage | UploadConfig, retryConfig?: Partial<RetryConfig>) {
+    this.storage = isCoverStorage(storage) ? storage : new CopypartyStorage(storage);
     this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
   }
 
+  /**
+   * Storage backend name, e.g. "copyparty" or "s3"
+   */
+  get kind(): string {
+    return this.storage.kind;
+  }
+
+  /**
+   * Where uploads go; cached URLs are only valid for the same target
+   */
+  get target(): string {
+    return this.storage.target;
+  }
+
   /**
    * Upload file (always uploads, even if exists)
    */
@@ -223,27 +372,45 @@ export class UploadService {
     filePath: string,
     mimeType: string
   ): Promise<UploadResult> {
-    return uploadFile(data, filePath, mimeType, this.config, this.retryConfig);
+    const url = await withRetry(
+      () => this.storage.put(data, filePath, mimeType),
+      this.retryConfig
+    );
+    return { url, filename: filePath, existed: false };
   }
 
   /**
    * Check if file exists on CDN
    */
   async exists(filePath: string): Promise<string | null> {
-    return fileExists(filePath, this.config);
+    return this.storage.exists(filePath);
   }
 
   /**
    * Upload cover art with organized path structure
-   * Only uploads if file doesn't already exist (saves bandwidth)
+   * Only uploads if file doesn't already exist (saves bandwidth).
+   * Concurrent calls for the same path share one upload.
    */
   async uploadCover(
     data: Uint8Array,
     mimeType: string,
-    options: CoverUploadOptions
+    options: CoverUploadOptions,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
     const filePath = buildCoverPath(options);
-    return uploadIfNotExists(data, filePath, mimeType, this.config, this.retryConfig);
+    return this.uploads.run(
+      filePath,
+      (flightSignal) =>
+        storeIfMissing(this.storage, data, filePath, mimeType, this.retryConfig, flightSignal),
+      signal,
+    );
+  }
+
+  /**
+   * Check that a cached cover URL still works
+   */
+  async isAvailable(url: string, signal?: AbortSignal): Promise<boolean> {
+    return this.storage.isAvailable(url, signal);
   }
 
   /**
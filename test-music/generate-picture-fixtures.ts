@@ -0,0 +1,168 @@
+/**
+ * Generates the multi-picture fixtures used by tests/unit/cover.test.ts:
+ *
+ *   bun run test-music/generate-picture-fixtures.ts
+ *
+ * Each picture is a solid color so tests can tell which one was chosen.
+ * MP3 audio is the first few frames of "Test Song One.mp3".
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+
+const DIR = import.meta.dir;
+
+// ID3v2 / FLAC picture types
+const OTHER = 0x00;
+const FRONT_COVER = 0x03;
+const BACK_COVER = 0x04;
+const ARTIST = 0x08;
+
+interface Picture {
+  type: number;
+  description: string;
+  size: number;
+  color: { r: number; g: number; b: number };
+  corrupt?: boolean;
+}
+
+const RED = { r: 220, g: 30, b: 30 };
+const GREEN = { r: 30, g: 200, b: 60 };
+const BLUE = { r: 30, g: 60, b: 220 };
+const YELLOW = { r: 240, g: 210, b: 20 };
+
+async function render(picture: Picture): Promise<Buffer> {
+  const jpeg = await sharp({
+    create: { width: picture.size, height: picture.size, channels: 3, background: picture.color },
+  })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  // Keep the header, drop the rest: decoders fail on it
+  return picture.corrupt ? jpeg.subarray(0, Math.floor(jpeg.length / 3)) : jpeg;
+}
+
+function syncsafe(size: number): Buffer {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "latin1");
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function textFrame(id: string, text: string): Buffer {
+  return id3Frame(id, Buffer.concat([Buffer.from([0]), Buffer.from(text, "latin1")]));
+}
+
+async function apicFrame(picture: Picture): Promise<Buffer> {
+  return id3Frame(
+    "APIC",
+    Buffer.concat([
+      Buffer.from([0]),
+      Buffer.from("image/jpeg\0", "latin1"),
+      Buffer.from([picture.type]),
+      Buffer.from(`${picture.description}\0`, "latin1"),
+      await render(picture),
+    ]),
+  );
+}
+
+// First MPEG frames of an existing test file, without its ID3v2 tag
+function audioFrames(): Buffer {
+  const source = readFileSync(path.join(DIR, "Test Song One.mp3"));
+  const size =
+    source.subarray(0, 3).toString("latin1") === "ID3"
+      ? 10 + ((source[6] << 21) | (source[7] << 14) | (source[8] << 7) | source[9])
+      : 0;
+  return source.subarray(size, size + 16 * 1024);
+}
+
+async function writeMp3(name: string, album: string, pictures: Picture[]): Promise<void> {
+  const frames = Buffer.concat([
+    textFrame("TIT2", name),
+    textFrame("TPE1", "Test Artist"),
+    textFrame("TALB", album),
+    ...(await Promise.all(pictures.map(apicFrame))),
+  ]);
+  const header = Buffer.concat([Buffer.from("ID3\x03\x00\x00", "latin1"), syncsafe(frames.length)]);
+  writeFileSync(path.join(DIR, `${name}.mp3`), Buffer.concat([header, frames, audioFrames()]));
+}
+
+function flacBlock(type: number, body: Buffer, last: boolean): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(body.length);
+  header[0] = (last ? 0x80 : 0) | type;
+  return Buffer.concat([header, body]);
+}
+
+function streamInfo(): Buffer {
+  const body = Buffer.alloc(34);
+  body.writeUInt16BE(4096, 0); // min block size
+  body.writeUInt16BE(4096, 2); // max block size
+  // 44100 Hz, 2 channels, 16 bits, 0 samples
+  body.writeUInt32BE((44100 << 12) | (1 << 9) | (15 << 4), 10);
+  return body;
+}
+
+async function pictureBlock(picture: Picture): Promise<Buffer> {
+  const data = await render(picture);
+  const mime = Buffer.from("image/jpeg", "latin1");
+  const description = Buffer.from(picture.description, "utf8");
+  const fields = Buffer.alloc(16);
+  fields.writeUInt32BE(picture.size, 0);
+  fields.writeUInt32BE(picture.size, 4);
+  fields.writeUInt32BE(24, 8);
+  const u32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value);
+    return buffer;
+  };
+  return Buffer.concat([
+    u32(picture.type),
+    u32(mime.length),
+    mime,
+    u32(description.length),
+    description,
+    fields,
+    u32(data.length),
+    data,
+  ]);
+}
+
+async function writeFlac(name: string, pictures: Picture[]): Promise<void> {
+  const blocks = [flacBlock(0, streamInfo(), false)];
+  for (const [index, picture] of pictures.entries()) {
+    blocks.push(flacBlock(6, await pictureBlock(picture), index === pictures.length - 1));
+  }
+  writeFileSync(path.join(DIR, `${name}.flac`), Buffer.concat([Buffer.from("fLaC"), ...blocks]));
+}
+
+// Front cover listed last, after a bigger back cover and a thumbnail
+await writeMp3("Multiple Pictures", "Picture Album", [
+  { type: BACK_COVER, description: "back", size: 800, color: BLUE },
+  { type: OTHER, description: "thumbnail", size: 64, color: GREEN },
+  { type: FRONT_COVER, description: "front", size: 500, color: RED },
+]);
+
+// No front cover: a 64px thumbnail first, the largest picture in the middle
+await writeMp3("Thumbnail First", "Thumbnail Album", [
+  { type: OTHER, description: "thumbnail", size: 64, color: GREEN },
+  { type: ARTIST, description: "band", size: 600, color: YELLOW },
+  { type: BACK_COVER, description: "back", size: 300, color: BLUE },
+]);
+
+// The front cover fails to decode
+await writeMp3("Corrupt Front", "Corrupt Album", [
+  { type: FRONT_COVER, description: "front", size: 700, color: RED, corrupt: true },
+  { type: BACK_COVER, description: "back", size: 400, color: BLUE },
+]);
+
+await writeFlac("Multiple Pictures", [
+  { type: BACK_COVER, description: "back", size: 700, color: BLUE },
+  { type: FRONT_COVER, description: "front", size: 400, color: RED },
+]);
+
+console.log("Wrote picture fixtures to", DIR);
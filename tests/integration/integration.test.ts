@@ -123,7 +123,7 @@ describe("Integration Tests", () => {
             cover.data,
             cover.mimeType,
             {
-              songTitle: "Test Song One",
+              album: "Test Album One",
               folderName: getFolderName(filePath),
               hash: cover.hash,
               extension: getExtension(cover.mimeType),
@@ -133,7 +133,7 @@ describe("Integration Tests", () => {
           expect(result.url).toMatch(/^https?:\/\//);
           expect(result.filename).toContain("tini-presence");
           expect(result.filename).toContain(getDeviceFolder()); // Uses real identity
-          expect(result.filename).toContain("Test_Song_One");
+          expect(result.filename).toContain("Test_Album_One");
           console.log(`Uploaded to: ${result.url}`);
 
           // Verify URL is accessible
@@ -164,7 +164,7 @@ describe("Integration Tests", () => {
 
         if (cover) {
           const options = {
-            songTitle: "Test Song One",
+            album: "Test Album One",
             folderName: getFolderName(filePath),
             hash: cover.hash,
             extension: getExtension(cover.mimeType),
@@ -0,0 +1,186 @@
+import { describe, expect, test } from "bun:test";
+import { ActivityType } from "discord-api-types/v10";
+import {
+  ActivityScheduler,
+  isSameActivity,
+  type ActivityClient,
+} from "../../src/activity-scheduler.ts";
+import type { PresenceActivity } from "../../src/presence.ts";
+import { FakeClock } from "./helpers.ts";
+
+class FakeRpc implements ActivityClient {
+  calls: (string | null)[] = [];
+  fail = false;
+
+  async setActivity(activity: PresenceActivity) {
+    if (this.fail) throw new Error("RPC failed");
+    this.calls.push(activity.details);
+  }
+
+  async clearActivity() {
+    if (this.fail) throw new Error("RPC failed");
+    this.calls.push(null);
+  }
+}
+
+function activity(details: string, startTimestamp = 1000): PresenceActivity {
+  return {
+    type: ActivityType.Listening,
+    name: "Spotify",
+    details,
+    state: "Artist",
+    startTimestamp,
+    endTimestamp: startTimestamp + 200000,
+    largeImageKey: "spotify",
+    largeImageText: "Album",
+    smallImageKey: "spotify-small",
+    smallImageText: "Spotify",
+    instance: false,
+  };
+}
+
+function setup({ connected = true } = {}) {
+  const clock = new FakeClock();
+  const rpc = new FakeRpc();
+  const scheduler = new ActivityScheduler(() => (connected ? rpc : undefined), {
+    maxUpdates: 5,
+    windowMs: 20_000,
+    clock,
+  });
+  return { clock, scheduler, rpc };
+}
+
+// Let in-flight RPC promises settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Activity Scheduler", () => {
+  describe("isSameActivity", () => {
+    test("ignores small timestamp jitter", () => {
+      expect(isSameActivity(activity("A", 1000), activity("A", 1400))).toBe(true);
+    });
+
+    test("treats a seek as a change", () => {
+      expect(isSameActivity(activity("A", 1000), activity("A", 60000))).toBe(false);
+    });
+
+    test("compares clears", () => {
+      expect(isSameActivity(null, null)).toBe(true);
+      expect(isSameActivity(null, activity("A"))).toBe(false);
+    });
+  });
+
+  test("sends immediately while under the limit", async () => {
+    const { scheduler, rpc } = setup();
+    scheduler.set(activity("A"));
+    scheduler.set(activity("B"));
+    await settle();
+
+    expect(rpc.calls).toEqual(["A", "B"]);
+    expect(scheduler.getStats().sent).toBe(2);
+  });
+
+  test("skips no-op updates", () => {
+    const { scheduler, rpc } = setup();
+    scheduler.set(activity("A", 1000));
+    scheduler.set(activity("A", 1200));
+    scheduler.set(null);
+    scheduler.set(null);
+
+    expect(rpc.calls).toEqual(["A", null]);
+    expect(scheduler.getStats().skipped).toBe(2);
+  });
+
+  test("coalesces a burst and sends the latest when the window opens", () => {
+    const { scheduler, rpc, clock } = setup();
+    for (const name of ["1", "2", "3", "4", "5"]) {
+      scheduler.set(activity(name));
+      clock.advance(1000);
+    }
+
+    // Window is full: these wait, and only the last one survives
+    scheduler.set(activity("6"));
+    scheduler.set(activity("7"));
+    scheduler.set(activity("8"));
+
+    expect(rpc.calls).toEqual(["1", "2", "3", "4", "5"]);
+    const stats = scheduler.getStats();
+    expect(stats.pending).toBe(true);
+    expect(stats.coalesced).toBe(2);
+    // Oldest send (t=0) leaves the window at t=20000
+    expect(stats.nextSendAt).toBe(20_000);
+
+    clock.advance(14_999);
+    expect(rpc.calls).toHaveLength(5);
+
+    clock.advance(1);
+    expect(rpc.calls).toEqual(["1", "2", "3", "4", "5", "8"]);
+    expect(scheduler.getStats().pending).toBe(false);
+  });
+
+  test("drops a pending update that reverts to what is shown", () => {
+    const { scheduler, rpc, clock } = setup();
+    for (const name of ["1", "2", "3", "4", "5"]) {
+      scheduler.set(activity(name));
+    }
+    scheduler.set(activity("6"));
+    scheduler.set(activity("5"));
+
+    clock.advance(20_000);
+    expect(rpc.calls).toEqual(["1", "2", "3", "4", "5"]);
+    expect(scheduler.getStats().skipped).toBe(1);
+  });
+
+  test("counts updates without a client as dropped", () => {
+    const { scheduler } = setup({ connected: false });
+    scheduler.set(activity("A"));
+    expect(scheduler.getStats().dropped).toBe(1);
+    expect(scheduler.getStats().sent).toBe(0);
+  });
+
+  test("counts failed RPC calls as dropped and retries the same activity", async () => {
+    const { scheduler, rpc } = setup();
+    rpc.fail = true;
+    scheduler.set(activity("A"));
+    await settle();
+    expect(scheduler.getStats().dropped).toBe(1);
+
+    rpc.fail = false;
+    scheduler.set(activity("A"));
+    expect(rpc.calls).toEqual(["A"]);
+  });
+
+  test("reset re-sends the same activity after a reconnect", () => {
+    const { scheduler, rpc } = setup();
+    scheduler.set(activity("A"));
+    scheduler.reset();
+    scheduler.set(activity("A"));
+
+    expect(rpc.calls).toEqual(["A", "A"]);
+  });
+
+  test("resend sends the latest activity to a new client", () => {
+    const { scheduler, rpc } = setup();
+    scheduler.set(activity("A"));
+    scheduler.set(activity("A"));
+    scheduler.resend();
+
+    expect(rpc.calls).toEqual(["A", "A"]);
+  });
+
+  test("resend without any activity does nothing", () => {
+    const { scheduler, rpc } = setup();
+    scheduler.resend();
+    expect(rpc.calls).toEqual([]);
+  });
+
+  test("destroy cancels the pending update", () => {
+    const { scheduler, rpc, clock } = setup();
+    for (const name of ["1", "2", "3", "4", "5", "6"]) {
+      scheduler.set(activity(name));
+    }
+    scheduler.destroy();
+    clock.advance(30_000);
+
+    expect(rpc.calls).toHaveLength(5);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { existsSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
-import { join } from "node:path";
+import { copyFileSync, existsSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { dirname, join } from "node:path";
 import {
   normalizeString,
   findLocalFile,
@@ -112,52 +112,52 @@ describe("Advanced Matching Logic", () => {
       return path;
     };
 
-    test("prioritizes exact match over partial", () => {
+    test("prioritizes exact match over partial", async () => {
       createTestFile("Song.mp3");
       createTestFile("Song (Live).mp3");
 
       // trackId for "Song"
       // spotify:local:Artist:Album:Title:Duration
       const trackId = "spotify:local:Artist:Album:Song:123";
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
 
       expect(found).not.toBeNull();
       expect(found?.endsWith("/Song.mp3")).toBe(true);
     });
 
-    test("finds file with space mismatch (Space-Blind)", () => {
+    test("finds file with space mismatch (Space-Blind)", async () => {
       createTestFile("WholeLottaRed.mp3");
 
       const trackId = "spotify:local:Carti:Album:Whole+Lotta+Red:123";
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
 
       expect(found).not.toBeNull();
       // Should match WholeLottaRed.mp3 even though title is "Whole Lotta Red"
       expect(found?.endsWith("WholeLottaRed.mp3")).toBe(true);
     });
 
-    test("prioritizes high quality format (.flac > .mp3)", () => {
+    test("prioritizes high quality format (.flac > .mp3)", async () => {
       createTestFile("Track.mp3");
       createTestFile("Track.flac");
 
       const trackId = "spotify:local:Artist:Album:Track:123";
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
 
       expect(found).not.toBeNull();
       expect(found?.endsWith("Track.flac")).toBe(true);
     });
 
-    test("handles leading numbers correctly", () => {
+    test("handles leading numbers correctly", async () => {
       createTestFile("01. Intro.mp3");
 
       const trackId = "spotify:local:Artist:Album:Intro:123";
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
 
       expect(found).not.toBeNull();
       expect(found?.endsWith("01. Intro.mp3")).toBe(true);
     });
 
-    test("prioritizes Artist match in filename", () => {
+    test("prioritizes Artist match in filename", async () => {
       // Exact title match but "wrong" artist vs fuzzy title but "correct" artist
       // Actually, simplest case: "Title.mp3" vs "Artist - Title.mp3"
       // Our logic scores "Artist - Title" higher if artist matches
@@ -166,7 +166,7 @@ describe("Advanced Matching Logic", () => {
       createTestFile("The Artist - Title.mp3");
 
       const trackId = "spotify:local:The+Artist:Album:Title:123";
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
 
       // "Title.mp3" -> Exact title match (+100)
       // "The Artist - Title.mp3" -> Partial title match (maybe?) OR
@@ -188,7 +188,7 @@ describe("Advanced Matching Logic", () => {
       createTestFile("Pink Floyd - Run.mp3");
 
       const trackId2 = "spotify:local:Pink+Floyd:Album:Run:123";
-      const found2 = findLocalFile(trackId2);
+      const found2 = await findLocalFile(trackId2);
 
       // "Run (Live)" -> nameNoExtra="run" == title="run" -> +90 pts.
       // "Pink Floyd - Run" -> name="pink floyd - run".
@@ -202,14 +202,68 @@ describe("Advanced Matching Logic", () => {
       expect(found2?.endsWith("Pink Floyd - Run.mp3")).toBe(true);
     });
 
-    test("matches MÉNAGE to 19. MENAGE.mp3", () => {
+    // Real audio, so durations can be read: 30 or 45 seconds long
+    const copyAudio = (name: string, seconds: 30 | 45) => {
+      const path = join(TEST_MUSIC_DIR, name);
+      mkdirSync(dirname(path), { recursive: true });
+      const fixture = seconds === 30 ? "Test Song One.mp3" : "Another Track.mp3";
+      copyFileSync(join(import.meta.dir, "../../test-music", fixture), path);
+      return path;
+    };
+
+    test("tells same-title tracks apart by album folder", async () => {
+      mkdirSync(join(TEST_MUSIC_DIR, "First Album"));
+      mkdirSync(join(TEST_MUSIC_DIR, "Second Album"));
+      createTestFile("First Album/Intro.mp3");
+      const second = createTestFile("Second Album/Intro.mp3");
+
+      expect(await findLocalFile("spotify:local:Artist:Second+Album:Intro:90")).toBe(second);
+    });
+
+    test("tells same-title tracks apart by duration", async () => {
+      const short = copyAudio("Live/Intro.mp3", 30);
+      const long = copyAudio("Studio/Intro.mp3", 45);
+
+      expect(await findLocalFile("spotify:local:Artist:Album:Intro:45")).toBe(long);
+      expect(await findLocalFile("spotify:local:Artist:Album:Intro:30")).toBe(short);
+    });
+
+    test("duration outweighs the album folder", async () => {
+      copyAudio("Greatest Hits/Intro.mp3", 30);
+      const other = copyAudio("Disc 2/Intro.mp3", 45);
+
+      expect(await findLocalFile("spotify:local:Artist:Greatest+Hits:Intro:45")).toBe(other);
+    });
+
+    test("picks the remix with the right length", async () => {
+      const original = copyAudio("Dance.mp3", 30);
+      const clubMix = copyAudio("Dance (Club Mix).mp3", 45);
+
+      // Both names match "Dance" once the brackets are stripped
+      expect(await findLocalFile("spotify:local:Artist:Album:Dance+%28Radio+Edit%29:30")).toBe(
+        original,
+      );
+      expect(await findLocalFile("spotify:local:Artist:Album:Dance+%28Extended%29:45")).toBe(
+        clubMix,
+      );
+    });
+
+    test("keeps the name order when durations are unknown", async () => {
+      createTestFile("Song.mp3");
+      createTestFile("Song (Live).mp3");
+
+      const found = await findLocalFile("spotify:local:Artist:Album:Song:0");
+      expect(found?.endsWith("/Song.mp3")).toBe(true);
+    });
+
+    test("matches MÉNAGE to 19. MENAGE.mp3", async () => {
       createTestFile("19. MENAGE.mp3");
       const trackId =
         "spotify:local:Artist:Album:M%C3%89NAGE+%28with+Lil+Uzi+Vert%29:123";
       // Title: MÉNAGE (with Lil Uzi Vert)
       // File: 19. MENAGE.mp3
 
-      const found = findLocalFile(trackId);
+      const found = await findLocalFile(trackId);
       expect(found).not.toBeNull();
       expect(found?.endsWith("19. MENAGE.mp3")).toBe(true);
     });
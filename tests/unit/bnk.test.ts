@@ -0,0 +1,209 @@
+import { describe, expect, test, beforeEach, afterEach, afterAll } from "bun:test";
+import { copyFileSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { findBnkFiles, parseBnk } from "../../src/bnk.ts";
+import {
+  clearLocalFileCaches,
+  findFileFromSpotifyDb,
+  getSpotifyLocalFilePaths,
+  getSpotifyLocalFiles,
+} from "../../src/local-files.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-bnk-${process.pid}`);
+
+// Synthetic bnk fixtures: protobuf-style records, as Spotify writes them
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function bytesField(number: number, data: Uint8Array | string): Buffer {
+  const payload = typeof data === "string" ? Buffer.from(data, "utf-8") : Buffer.from(data);
+  return Buffer.concat([Buffer.from(varint(number * 8 + 2)), Buffer.from(varint(payload.length)), payload]);
+}
+
+function varintField(number: number, value: number): Buffer {
+  return Buffer.from([...varint(number * 8), ...varint(value)]);
+}
+
+interface FixtureEntry {
+  path: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  durationMs?: number;
+}
+
+// Like protobuf, empty tags are left out rather than written empty
+function record({ path: filePath, title, artist, album, durationMs = 0 }: FixtureEntry) {
+  const tags = [title, artist, album].flatMap((text, i) => (text ? [bytesField(i + 2, text)] : []));
+  return bytesField(3, Buffer.concat([bytesField(1, filePath), ...tags, varintField(5, durationMs)]));
+}
+
+// Magic and version, then the records
+function bnk(...entries: FixtureEntry[]): Buffer {
+  return Buffer.concat([Buffer.from([0x53, 0x50, 0x43, 0x4f, 0x13, 0x01, 0x00]), ...entries.map(record)]);
+}
+
+describe("local-files.bnk", () => {
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe("parseBnk", () => {
+    test("reads each entry's path and stored tags", () => {
+      const entries = parseBnk(
+        bnk(
+          {
+            path: "/Users/me/Music/Test Song One.mp3",
+            title: "Test Song One",
+            artist: "Test Artist",
+            album: "Test Album",
+            durationMs: 30_000,
+          },
+          { path: "/Users/me/Music/untagged.flac" },
+        ),
+      );
+
+      expect(entries).toEqual([
+        {
+          path: "/Users/me/Music/Test Song One.mp3",
+          title: "Test Song One",
+          artist: "Test Artist",
+          album: "Test Album",
+        },
+        { path: "/Users/me/Music/untagged.flac" },
+      ]);
+    });
+
+    test("reads tags by field, whichever are missing", () => {
+      const entries = parseBnk(
+        bnk(
+          { path: "/Users/me/Music/no-artist.mp3", title: "Song", album: "Album" },
+          { path: "/Users/me/Music/no-title.mp3", artist: "Artist", album: "Album" },
+          { path: "/Users/me/Music/album-only.mp3", album: "Album" },
+        ),
+      );
+
+      expect(entries).toEqual([
+        { path: "/Users/me/Music/no-artist.mp3", title: "Song", album: "Album" },
+        { path: "/Users/me/Music/no-title.mp3", artist: "Artist", album: "Album" },
+        { path: "/Users/me/Music/album-only.mp3", album: "Album" },
+      ]);
+    });
+
+    test("reads paths on any volume, of any length and with any extension", () => {
+      const longPath = `/Users/me/Music/${"Very Long Folder Name/".repeat(20)}Song.mp3`;
+      const paths = [
+        "/Volumes/External Drive/Music/Song.m4a",
+        "/home/me/Music/Ünïcödé – Song.opus",
+        longPath,
+        "/Users/me/Music/Song.aiff",
+        "/Users/me/Music/Song.alac",
+        "C:\\Users\\me\\Music\\Song.mp3",
+      ];
+      expect(longPath.length).toBeGreaterThan(300);
+
+      const entries = parseBnk(bnk(...paths.map((filePath) => ({ path: filePath, title: "Song" }))));
+      expect(entries.map((entry) => entry.path)).toEqual(paths);
+    });
+
+    test("reads file URLs as paths", () => {
+      const entries = parseBnk(bnk({ path: "file:///Users/me/Music/My%20Song.mp3" }));
+      expect(entries).toEqual([{ path: "/Users/me/Music/My Song.mp3" }]);
+    });
+
+    test("finds records nested in other messages and skips unknown sections", () => {
+      const nested = bytesField(1, Buffer.concat([record({ path: "/Users/me/a.mp3" }), record({ path: "/Users/me/b.mp3" })]));
+      const unknown = Buffer.concat([bytesField(7, "settings"), varintField(2, 12345), Buffer.from([0xff, 0xfe, 0x00])]);
+      const data = Buffer.concat([bnk(), unknown, nested, record({ path: "/Users/me/c.mp3" })]);
+
+      expect(parseBnk(data).map((entry) => entry.path)).toEqual([
+        "/Users/me/a.mp3",
+        "/Users/me/b.mp3",
+        "/Users/me/c.mp3",
+      ]);
+    });
+
+    test("ignores folders, relative paths and damaged records", () => {
+      const truncated = record({ path: "/Users/me/cut.mp3" }).subarray(0, 12);
+      const invalidUtf8 = bytesField(3, Buffer.concat([bytesField(1, Buffer.from([0x2f, 0xc3, 0x28, 0x2e, 0x6d]))]));
+      const data = Buffer.concat([
+        bnk({ path: "/Users/me/Music" }, { path: "Music/relative.mp3" }, { path: "/Users/me/ok.mp3" }),
+        invalidUtf8,
+        truncated,
+      ]);
+
+      expect(parseBnk(data)).toEqual([{ path: "/Users/me/ok.mp3" }]);
+      expect(parseBnk(new Uint8Array())).toEqual([]);
+    });
+  });
+
+  describe("Spotify data directories", () => {
+    const originalHome = process.env.HOME;
+    const MUSIC = path.join(TEST_DIR, "Music");
+
+    function writeBnk(usersDir: string, user: string, data: Buffer) {
+      const dir = path.join(TEST_DIR, usersDir, user);
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(path.join(dir, "local-files.bnk"), data);
+    }
+
+    beforeEach(() => {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+      mkdirSync(MUSIC, { recursive: true });
+      process.env.HOME = TEST_DIR;
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      clearLocalFileCaches();
+    });
+
+    test("finds the bnk of every account on macOS and Linux", () => {
+      writeBnk("Library/Application Support/Spotify/Users", "alice-user", bnk());
+      writeBnk(".config/spotify/Users", "bob-user", bnk());
+      mkdirSync(path.join(TEST_DIR, ".config/spotify/Users/no-bnk-user"), { recursive: true });
+
+      expect(findBnkFiles().map((file) => path.relative(TEST_DIR, file))).toEqual([
+        "Library/Application Support/Spotify/Users/alice-user/local-files.bnk",
+        ".config/spotify/Users/bob-user/local-files.bnk",
+      ]);
+    });
+
+    test("lists existing files from every database once", () => {
+      const song = path.join(MUSIC, "01.mp3");
+      copyFileSync(path.join(import.meta.dir, "../../test-music/Test Song One.mp3"), song);
+      const entry = { path: song, title: "Test Song One", artist: "Test Artist", album: "Test Album" };
+      writeBnk("Library/Application Support/Spotify/Users", "alice-user", bnk(entry));
+      writeBnk(".config/spotify/Users", "bob-user", bnk(entry, { path: path.join(MUSIC, "deleted.mp3") }));
+      clearLocalFileCaches();
+
+      expect(getSpotifyLocalFiles()).toEqual([entry]);
+      expect(getSpotifyLocalFilePaths()).toEqual([song]);
+      expect(getSpotifyLocalFilePaths()).toBe(getSpotifyLocalFilePaths());
+    });
+
+    test("matches tracks by the tags Spotify stored", async () => {
+      const song = path.join(MUSIC, "01.mp3");
+      copyFileSync(path.join(import.meta.dir, "../../test-music/Test Song One.mp3"), song);
+      writeBnk(
+        ".config/spotify/Users",
+        "bob-user",
+        bnk({ path: song, title: "Test Song One", artist: "Test Artist" }),
+      );
+      clearLocalFileCaches();
+
+      // "01.mp3" says nothing about the song
+      expect(await findFileFromSpotifyDb("Test Song One", "Test Artist")).toBe(song);
+      expect(await findFileFromSpotifyDb("Another Song")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import {
+  renderButtons,
+  validateButtons,
+  type ButtonRule,
+} from "../../src/buttons.ts";
+import { PresenceService } from "../../src/presence.ts";
+import { getSpotifyTrackUrl, type PlaybackState, type Track } from "../../src/spotify.ts";
+
+const spotifyTrack: Track = {
+  title: "Mrs Magic",
+  artist: "Strawberry Guy",
+  album: "F Song & Mrs Magic",
+  durationMs: 221929,
+  id: "spotify:track:4uLU6hMCjMI75M1A2tKUQC",
+  source: "spotify",
+};
+
+const localTrack: Track = {
+  title: "Comme des Garçons",
+  artist: "Rich Brian",
+  album: "The Sailor",
+  durationMs: 205000,
+  id: "spotify:local:Rich+Brian:The+Sailor:Comme+des+Gar%C3%A7ons:205",
+  source: "local",
+};
+
+describe("Activity Buttons", () => {
+  test("getSpotifyTrackUrl builds open.spotify.com links", () => {
+    expect(getSpotifyTrackUrl(spotifyTrack.id)).toBe(
+      "https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC",
+    );
+    expect(getSpotifyTrackUrl(localTrack.id)).toBeNull();
+  });
+
+  test("shows Listen on Spotify for Spotify tracks by default", () => {
+    expect(renderButtons(undefined, spotifyTrack)).toEqual([
+      {
+        label: "Listen on Spotify",
+        url: "https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC",
+      },
+    ]);
+    expect(renderButtons(undefined, localTrack)).toEqual([]);
+  });
+
+  test("URL-encodes placeholder values", () => {
+    const rules: ButtonRule[] = [
+      {
+        label: "Find on Bandcamp",
+        url: "https://bandcamp.com/search?q={artist} {title}",
+        source: "local",
+      },
+    ];
+    expect(renderButtons(rules, localTrack)).toEqual([
+      {
+        label: "Find on Bandcamp",
+        url: "https://bandcamp.com/search?q=Rich%20Brian%20Comme%20des%20Gar%C3%A7ons",
+      },
+    ]);
+  });
+
+  test("per-folder buttons need a matching file path", () => {
+    const rules: ButtonRule[] = [
+      { label: "Bandcamp", url: "https://artist.bandcamp.com", folder: "/music/bandcamp" },
+    ];
+    expect(renderButtons(rules, localTrack, {}, "/music/bandcamp/a.mp3")).toHaveLength(1);
+    expect(renderButtons(rules, localTrack, {}, "/music/other/a.mp3")).toHaveLength(0);
+    expect(renderButtons(rules, localTrack, {}, null)).toHaveLength(0);
+  });
+
+  test("keeps at most two buttons and skips disabled or invalid ones", () => {
+    const rules: ButtonRule[] = [
+      { label: "Off", url: "https://a.example", enabled: false },
+      { label: "Empty", url: "{spotifyUrl}" },
+      { label: "Bad", url: "javascript:alert(1)" },
+      { label: "One", url: "https://one.example" },
+      { label: "Two", url: "https://two.example" },
+      { label: "Three", url: "https://three.example" },
+    ];
+    expect(renderButtons(rules, localTrack).map((b) => b.label)).toEqual(["One", "Two"]);
+  });
+
+  test("truncates labels to Discord's limit", () => {
+    const rules: ButtonRule[] = [{ label: "Listen to {title} by {artist}", url: "https://x.example" }];
+    const [button] = renderButtons(rules, localTrack);
+    expect(button.label.length).toBeLessThanOrEqual(32);
+  });
+
+  test("validateButtons reports problems", () => {
+    const errors = validateButtons([
+      { label: "Fine", url: "https://x.example" },
+      { label: "", url: "https://x.example" },
+      { label: "Typo", url: "https://x.example/{artst}" },
+    ]);
+    expect(errors.map((e) => e.index)).toEqual([1, 2]);
+  });
+
+  describe("PresenceService", () => {
+    let service: PresenceService | null = null;
+
+    afterEach(() => {
+      service?.destroy();
+      service = null;
+    });
+
+    const playing = (track: Track): PlaybackState => ({
+      isRunning: true,
+      track,
+      positionMs: 0,
+      state: "playing",
+    });
+
+    test("adds buttons to the activity", async () => {
+      service = new PresenceService({});
+      const activity = await service.buildActivity(playing(spotifyTrack), null);
+      expect(activity?.buttons).toHaveLength(1);
+    });
+
+    test("omits buttons when none apply or they are turned off", async () => {
+      service = new PresenceService({ buttons: [] });
+      expect((await service.buildActivity(playing(spotifyTrack), null))?.buttons).toBeUndefined();
+    });
+
+    test("generic privacy activities have no buttons", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "generic", match: { source: "spotify" } }],
+      });
+      expect((await service.buildActivity(playing(spotifyTrack), null))?.buttons).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { CircuitBreaker } from "../../src/circuit-breaker.ts";
+
+function createBreaker() {
+  const clock = { now: 1_000_000 };
+  const breaker = new CircuitBreaker({
+    threshold: 3,
+    cooldownMs: 1000,
+    maxCooldownMs: 3000,
+    now: () => clock.now,
+  });
+  return { breaker, clock };
+}
+
+describe("CircuitBreaker", () => {
+  test("stays closed below the threshold and a success resets the count", () => {
+    const { breaker } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  test("opens after repeated failures and refuses requests until the cooldown", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    expect(breaker.getStatus()).toEqual({ state: "open", failures: 3, retryAt: 1_001_000 });
+    expect(breaker.canRequest()).toBe(false);
+
+    clock.now += 1000;
+    expect(breaker.state).toBe("half-open");
+  });
+
+  test("lets one trial through when half-open", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock.now += 1000;
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  test("a failed trial reopens with a longer cooldown, up to the maximum", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    const cooldowns: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      clock.now = breaker.getStatus().retryAt!;
+      expect(breaker.canRequest()).toBe(true);
+      breaker.recordFailure();
+      cooldowns.push(breaker.getStatus().retryAt! - clock.now);
+    }
+    expect(cooldowns).toEqual([2000, 3000, 3000]);
+  });
+
+  test("a trial that never reports back is replaced after the cooldown", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock.now += 1000;
+
+    expect(breaker.canRequest()).toBe(true);
+    clock.now += 1000;
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,434 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CoverCache } from "../../src/cover-cache.ts";
+import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
+import sharp from "sharp";
+import { localFiles } from "../../src/local-files.ts";
+import { PresenceService } from "../../src/presence.ts";
+import type { Track } from "../../src/spotify.ts";
+import { mockFetch, restoreFetch } from "./helpers.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-cover-cache-${process.pid}`);
+const CACHE_PATH = path.join(TEST_DIR, "cover-cache.json");
+const AUDIO_PATH = path.join(TEST_DIR, "Music", "Test Song One.mp3");
+const TARGET = "https://cdn.example.com/cdn";
+
+function createCache(now = () => 1_000_000, ttlMs = 60_000) {
+  return new CoverCache({ path: CACHE_PATH, ttlMs, now });
+}
+
+describe("Cover Cache", () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(path.dirname(AUDIO_PATH), { recursive: true });
+    copyFileSync(path.join(import.meta.dir, "../../test-music/Test Song One.mp3"), AUDIO_PATH);
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("persists file and cover entries across instances", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: "abc", mimeType: "image/jpeg" });
+    cache.setCover("abc", { url: `${TARGET}/abc.jpg`, mimeType: "image/jpeg", target: TARGET });
+    cache.flush();
+
+    const reloaded = createCache();
+    expect(reloaded.getFile(AUDIO_PATH)?.hash).toBe("abc");
+    expect(reloaded.getCover("abc", TARGET)).toMatchObject({
+      entry: { url: `${TARGET}/abc.jpg` },
+      fresh: true,
+    });
+    expect(reloaded.getStats()).toMatchObject({ hits: 1, files: 1, covers: 1 });
+  });
+
+  test("misses when the file changed", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: "abc" });
+
+    utimesSync(AUDIO_PATH, new Date(), new Date(Date.now() + 60_000));
+    expect(cache.getFile(AUDIO_PATH)).toBeUndefined();
+
+    cache.setFile(AUDIO_PATH, { hash: "abc" });
+    writeFileSync(AUDIO_PATH, "different contents");
+    expect(cache.getFile(AUDIO_PATH)).toBeUndefined();
+  });
+
+  test("remembers files without cover art", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: null });
+    cache.flush();
+    expect(createCache().getFile(AUDIO_PATH)?.hash).toBeNull();
+  });
+
+  test("entries past the TTL need revalidation", () => {
+    let now = 1_000_000;
+    const cache = createCache(() => now, 60_000);
+    cache.setCover("abc", { url: "u", mimeType: "image/jpeg", target: TARGET });
+
+    now += 60_000;
+    expect(cache.getCover("abc", TARGET)?.fresh).toBe(false);
+
+    cache.touchCover("abc");
+    expect(cache.getCover("abc", TARGET)?.fresh).toBe(true);
+    expect(cache.getStats()).toMatchObject({ hits: 1, stale: 1 });
+  });
+
+  test("URLs from another upload target are ignored", () => {
+    const cache = createCache();
+    cache.setCover("abc", { url: "u", mimeType: "image/jpeg", target: TARGET });
+    expect(cache.getCover("abc", "https://other.example.com/cdn")).toBeUndefined();
+    expect(cache.getStats().misses).toBe(1);
+  });
+
+  test("prune drops missing files and clear empties everything", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: "abc" });
+    cache.setCover("abc", { url: "u", mimeType: "image/jpeg", target: TARGET });
+
+    rmSync(AUDIO_PATH);
+    expect(cache.prune()).toBe(1);
+    expect(cache.getStats().files).toBe(0);
+
+    cache.clear();
+    expect(createCache().getStats()).toMatchObject({ files: 0, covers: 0 });
+  });
+
+  test("misses when a folder the lookup depended on changed", () => {
+    const cache = createCache();
+    const folder = path.dirname(AUDIO_PATH);
+    cache.setFile(AUDIO_PATH, { hash: null, dependencies: [folder] });
+    expect(cache.getFile(AUDIO_PATH)?.hash).toBeNull();
+
+    // A cover.jpg appears next to the file
+    utimesSync(folder, new Date(), new Date(Date.now() + 60_000));
+    expect(cache.getFile(AUDIO_PATH)).toBeUndefined();
+  });
+
+  test("misses when the image profile changed", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: "abc" });
+    expect(cache.getFile(AUDIO_PATH, "webp:512")).toBeUndefined();
+
+    cache.setFile(AUDIO_PATH, { hash: "def", profile: "webp:512" });
+    cache.flush();
+    expect(createCache().getFile(AUDIO_PATH, "webp:512")?.hash).toBe("def");
+    expect(cache.getFile(AUDIO_PATH)).toBeUndefined();
+  });
+
+  test("finds the closest cover by perceptual hash on the same target", () => {
+    const cache = createCache();
+    const cover = { mimeType: "image/jpeg", target: TARGET };
+    cache.setCover("far", { ...cover, url: "far", phash: "00000000000000ff" });
+    cache.setCover("near", { ...cover, url: "near", phash: "0000000000000001" });
+    cache.setCover("other", { ...cover, url: "other", target: "elsewhere", phash: "0000000000000000" });
+    cache.setCover("none", { ...cover, url: "none" });
+
+    expect(cache.findSimilar("0000000000000000", TARGET, 4)?.hash).toBe("near");
+    expect(cache.findSimilar("ffffffffffffff00", TARGET, 4)).toBeUndefined();
+  });
+
+  test("lists covers still at per-song paths with their files", () => {
+    const cache = createCache();
+    cache.setFile(AUDIO_PATH, { hash: "old" });
+    cache.setCover("old", { url: "old", mimeType: "image/jpeg", target: TARGET });
+    cache.setCover("new", { url: "new", mimeType: "image/jpeg", target: TARGET, layout: "album" });
+    cache.setCover("gone", { url: "gone", mimeType: "image/jpeg", target: TARGET });
+    cache.flush();
+
+    expect(createCache().getLegacyCovers(TARGET)).toMatchObject([
+      { hash: "old", files: [AUDIO_PATH] },
+      { hash: "gone", files: [] },
+    ]);
+    expect(cache.getLegacyCovers("elsewhere")).toEqual([]);
+  });
+
+  test("batches saves until flushed, then replaces the file whole", () => {
+    const cache = new CoverCache({ path: CACHE_PATH, now: () => 1_000_000, saveDelayMs: 60_000 });
+    cache.setFile(AUDIO_PATH, { hash: "abc" });
+    cache.setCover("abc", { url: `${TARGET}/abc.jpg`, mimeType: "image/jpeg", target: TARGET });
+    expect(existsSync(CACHE_PATH)).toBe(false);
+
+    cache.flush();
+    expect(createCache().getStats()).toMatchObject({ files: 1, covers: 1 });
+    expect(readdirSync(TEST_DIR).filter((name) => name.endsWith(".tmp"))).toEqual([]);
+  });
+
+  test("ignores a corrupted cache file", () => {
+    writeFileSync(CACHE_PATH, "{not json");
+    expect(createCache().getStats()).toMatchObject({ files: 0, covers: 0 });
+  });
+
+  describe("PresenceService", () => {
+    const track: Track = {
+      title: "Test Song One",
+      artist: "Test Artist",
+      album: "Test Album",
+      durationMs: 1000,
+      id: "spotify:local:Test+Artist:Test+Album:Test+Song+One:1",
+      source: "local",
+    };
+
+    const originalFindFile = localFiles.findFile;
+    let requests: string[] = [];
+
+    beforeAll(() => {
+      setTestIdentity(TEST_IDENTITY);
+    });
+
+    afterAll(() => {
+      resetIdentity();
+    });
+
+    beforeEach(() => {
+      requests = [];
+      localFiles.findFile = async () => AUDIO_PATH;
+      mockFetch(async (url: string, options?: RequestInit) => {
+        requests.push(options?.method ?? "GET");
+        if (options?.method === "HEAD") return new Response(null, { status: 404 });
+        return new Response(`${String(url).split("?")[0]}\n`);
+      });
+    });
+
+    afterEach(() => {
+      restoreFetch();
+      localFiles.findFile = originalFindFile;
+    });
+
+    function createService(cache: CoverCache, perceptualDedupe = false) {
+      return new PresenceService({
+        upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+        coverCache: cache,
+        perceptualDedupe,
+      });
+    }
+
+    test("uploads covers under the album's name", async () => {
+      const service = createService(createCache());
+      const url = await service.getCoverUrl(track);
+      service.destroy();
+      expect(url).toStartWith(
+        `${TARGET}/tini-presence/test-machine-test1234/albums/Test_Artist_-_Test_Album-`,
+      );
+      expect(createCache().getLegacyCovers(TARGET)).toEqual([]);
+    });
+
+    describe("perceptual dedupe", () => {
+      const FIRST = path.join(TEST_DIR, "Album", "CD1", "01 Song.mp3");
+      const SECOND = path.join(TEST_DIR, "Album", "CD2", "01 Song.mp3");
+      const trackFor = (id: string): Track => ({ ...track, id });
+
+      beforeEach(async () => {
+        // The same art saved twice with different settings: other bytes and hash
+        const raw = Buffer.alloc(200 * 200 * 3);
+        for (let i = 0; i < raw.length; i += 3) {
+          const x = (i / 3) % 200;
+          raw[i] = x;
+          raw[i + 1] = 255 - x;
+          raw[i + 2] = x < 100 ? 40 : 200;
+        }
+        for (const [file, quality] of [[FIRST, 95], [SECOND, 50]] as const) {
+          mkdirSync(path.dirname(file), { recursive: true });
+          writeFileSync(file, "no tags here");
+          const image = sharp(raw, { raw: { width: 200, height: 200, channels: 3 } });
+          const jpeg = await image.jpeg({ quality }).toBuffer();
+          writeFileSync(path.join(path.dirname(file), "cover.jpg"), jpeg);
+        }
+        localFiles.findFile = async (id: string) => (id === "second" ? SECOND : FIRST);
+      });
+
+      test("re-encoded art reuses the first upload", async () => {
+        const service = createService(createCache(), true);
+        const first = await service.getCoverUrl(trackFor("first"));
+        const second = await service.getCoverUrl(trackFor("second"));
+        service.destroy();
+        expect(second).toBe(first);
+        expect(requests).toEqual(["HEAD", "PUT"]);
+      });
+
+      test("leaves placeholders of other albums apart", async () => {
+        for (const file of [FIRST, SECOND]) rmSync(path.join(path.dirname(file), "cover.jpg"));
+        const service = new PresenceService({
+          upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+          coverCache: createCache(),
+          perceptualDedupe: true,
+          cover: { placeholder: true },
+        });
+        const first = await service.getCoverUrl({ ...track, id: "first", album: "First Album" });
+        const second = await service.getCoverUrl({ ...track, id: "second", album: "Second Album" });
+        expect(service.getCoverSource({ ...track, id: "second" })).toBe("placeholder");
+        service.destroy();
+        expect(second).not.toBe(first);
+        expect(requests).toEqual(["HEAD", "PUT", "HEAD", "PUT"]);
+      });
+
+      test("is off by default", async () => {
+        const service = createService(createCache());
+        const first = await service.getCoverUrl(trackFor("first"));
+        const second = await service.getCoverUrl(trackFor("second"));
+        service.destroy();
+        expect(second).not.toBe(first);
+        expect(requests).toEqual(["HEAD", "PUT", "HEAD", "PUT"]);
+      });
+    });
+
+    describe("migrateCovers", () => {
+      const LEGACY_URL = `${TARGET}/tini-presence/test-machine-test1234/Music/Test_Song_One-abc.jpg`;
+
+      // A cache written before album paths: the cover at its per-song URL
+      async function legacyCache(): Promise<string> {
+        const service = createService(createCache());
+        await service.getCoverUrl(track);
+        service.destroy();
+        const cache = createCache();
+        const hash = cache.getFile(AUDIO_PATH)!.hash!;
+        cache.setCover(hash, { url: LEGACY_URL, mimeType: "image/jpeg", target: TARGET });
+        cache.flush();
+        return hash;
+      }
+
+      test("moves covers to album paths and hands out the new URL", async () => {
+        await legacyCache();
+        requests = [];
+        const cache = createCache();
+        const service = createService(cache);
+        expect(await service.getCoverUrl(track)).toBe(LEGACY_URL);
+
+        expect(await service.migrateCovers()).toEqual({ migrated: 1, kept: 0, failed: 0 });
+        // Stored once; the old file is left alone
+        expect(requests).toEqual(["HEAD", "PUT"]);
+        const url = await service.getCoverUrl(track);
+        service.destroy();
+        expect(url).toContain("/albums/Test_Artist_-_Test_Album-");
+        expect(cache.getLegacyCovers(TARGET)).toEqual([]);
+
+        // Nothing left to do the second time
+        requests = [];
+        expect(await createService(createCache()).migrateCovers()).toEqual({
+          migrated: 0,
+          kept: 0,
+          failed: 0,
+        });
+        expect(requests).toEqual([]);
+      });
+
+      test("keeps the old URL when no file has the cover anymore", async () => {
+        const hash = await legacyCache();
+        writeFileSync(AUDIO_PATH, "no tags here");
+        requests = [];
+
+        const cache = createCache();
+        const service = createService(cache);
+        expect(await service.migrateCovers()).toEqual({ migrated: 0, kept: 1, failed: 0 });
+        service.destroy();
+        expect(requests).toEqual([]);
+        expect(cache.getCover(hash, TARGET)?.entry.url).toBe(LEGACY_URL);
+      });
+
+      test("counts failed uploads and keeps the old URL", async () => {
+        const hash = await legacyCache();
+        mockFetch(async (_url: string, options?: RequestInit) =>
+          new Response(null, { status: options?.method === "HEAD" ? 404 : 403 }));
+
+        const cache = createCache();
+        const service = createService(cache);
+        expect(await service.migrateCovers()).toEqual({ migrated: 0, kept: 0, failed: 1 });
+        service.destroy();
+        expect(cache.getCover(hash, TARGET)?.entry.url).toBe(LEGACY_URL);
+      });
+    });
+
+    test("a restart reuses the cached URL without any requests", async () => {
+      const first = createService(createCache());
+      const url = await first.getCoverUrl(track);
+      first.destroy();
+      expect(url).toStartWith(TARGET);
+      expect(requests).toEqual(["HEAD", "PUT"]);
+
+      requests = [];
+      const second = createService(createCache());
+      expect(await second.getCoverUrl(track)).toBe(url);
+      second.destroy();
+      expect(requests).toEqual([]);
+    });
+
+    test("reports the cover source, also after a restart", async () => {
+      const first = createService(createCache());
+      await first.getCoverUrl(track);
+      expect(first.getCoverSource(track)).toBe("embedded");
+      first.destroy();
+
+      const second = createService(createCache());
+      await second.getCoverUrl(track);
+      expect(second.getCoverSource(track)).toBe("embedded");
+      second.destroy();
+    });
+
+    test("keeps cover colors across a restart", async () => {
+      const first = createService(createCache());
+      await first.getCoverUrl(track);
+      const colors = first.getCoverColors(track);
+      first.destroy();
+      expect(colors?.thumbnail).toStartWith("data:image/jpeg;base64,");
+
+      requests = [];
+      const second = createService(createCache());
+      await second.getCoverUrl(track);
+      expect(second.getCoverColors(track)).toEqual(colors);
+      second.destroy();
+      expect(requests).toEqual([]);
+    });
+
+    test("entries without colors are extracted once more", async () => {
+      const first = createService(createCache());
+      const url = await first.getCoverUrl(track);
+      first.destroy();
+
+      // As written before colors were recorded
+      const cache = createCache();
+      const { colors: _colors, ...entry } = cache.getFile(AUDIO_PATH)!;
+      cache.setFile(AUDIO_PATH, { ...entry, dependencies: [] });
+      expect(cache.getFile(AUDIO_PATH)?.colors).toBeUndefined();
+
+      requests = [];
+      const second = createService(cache);
+      expect(await second.getCoverUrl(track)).toBe(url);
+      expect(second.getCoverColors(track)).not.toBeNull();
+      second.destroy();
+      // The cover URL itself still came from the cache
+      expect(requests).toEqual([]);
+      expect(createCache().getFile(AUDIO_PATH)?.colors).toBeDefined();
+    });
+
+    test("a stale entry is revalidated with a HEAD request", async () => {
+      let now = 1_000_000;
+      const first = createService(createCache(() => now));
+      const url = await first.getCoverUrl(track);
+      first.destroy();
+
+      now += 120_000;
+      requests = [];
+      mockFetch(async (_url: string, options?: RequestInit) => {
+        requests.push(options?.method ?? "GET");
+        return new Response(null, { status: 200 });
+      });
+
+      const cache = createCache(() => now);
+      const second = createService(cache);
+      expect(await second.getCoverUrl(track)).toBe(url);
+      second.destroy();
+      expect(requests).toEqual(["HEAD"]);
+      expect(cache.getStats().stale).toBe(1);
+
+      // Revalidation refreshed the entry
+      requests = [];
+      const third = createService(createCache(() => now));
+      expect(await third.getCoverUrl(track)).toBe(url);
+      third.destroy();
+      expect(requests).toEqual([]);
+    });
+  });
+});
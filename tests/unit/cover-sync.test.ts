@@ -0,0 +1,255 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CoverCache } from "../../src/cover-cache.ts";
+import { collectLibraryFiles, syncCovers, type CoverSyncProgress } from "../../src/cover-sync.ts";
+import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
+import { PresenceService, type FileCover } from "../../src/presence.ts";
+import { mockFetch, restoreFetch } from "./helpers.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-cover-sync-${process.pid}`);
+const STATE_PATH = path.join(TEST_DIR, "cover-sync.json");
+
+const uploaded = (url: string): FileCover => ({
+  url,
+  source: "embedded",
+  colors: null,
+  status: "uploaded",
+});
+
+function touch(filePath: string) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, "");
+}
+
+describe("Cover sync", () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe("collectLibraryFiles", () => {
+    test("walks music folders for audio files and adds Spotify's paths once", async () => {
+      const music = path.join(TEST_DIR, "Music");
+      touch(path.join(music, "Album", "01 Song.mp3"));
+      touch(path.join(music, "Album", "CD2", "02 Song.FLAC"));
+      touch(path.join(music, "Album", "cover.jpg"));
+      touch(path.join(music, ".hidden", "03 Song.mp3"));
+      touch(path.join(TEST_DIR, "Elsewhere", "04 Song.m4a"));
+
+      const files = await collectLibraryFiles(
+        [music, path.join(TEST_DIR, "Missing")],
+        [
+          path.join(music, "Album", "01 Song.mp3"),
+          path.join(TEST_DIR, "Elsewhere", "04 Song.m4a"),
+          path.join(TEST_DIR, "Elsewhere", "Deleted.mp3"),
+        ],
+      );
+
+      expect(files).toEqual([
+        path.join(TEST_DIR, "Elsewhere", "04 Song.m4a"),
+        path.join(music, "Album", "01 Song.mp3"),
+        path.join(music, "Album", "CD2", "02 Song.FLAC"),
+      ]);
+    });
+  });
+
+  describe("syncCovers", () => {
+    const files = Array.from({ length: 10 }, (_, i) => `/music/${i}.mp3`);
+
+    test("runs at most `concurrency` files at once and reports progress", async () => {
+      let active = 0;
+      let peak = 0;
+      const progress: CoverSyncProgress[] = [];
+
+      const result = await syncCovers(
+        files,
+        async (filePath) => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return uploaded(filePath);
+        },
+        {
+          concurrency: 3,
+          statePath: STATE_PATH,
+          progressIntervalMs: 0,
+          onProgress: (p) => progress.push(p),
+        },
+      );
+
+      expect(peak).toBe(3);
+      expect(result).toMatchObject({ state: "done", total: 10, done: 10, uploaded: 10, failed: 0 });
+      expect(progress[0]).toMatchObject({ state: "running", done: 0, total: 10 });
+      expect(progress.at(-1)).toEqual(result);
+      expect(existsSync(STATE_PATH)).toBe(false);
+    });
+
+    test("counts covers that already existed and files without art as skipped", async () => {
+      const result = await syncCovers(
+        files,
+        async (filePath) => {
+          const index = Number(path.basename(filePath, ".mp3"));
+          if (index < 3) return null;
+          if (index < 5) return { ...uploaded(filePath), status: "existed" };
+          if (index < 8) return { ...uploaded(filePath), status: "cached" };
+          return uploaded(filePath);
+        },
+        { statePath: STATE_PATH },
+      );
+      expect(result).toMatchObject({ done: 10, uploaded: 2, skipped: 8, failed: 0 });
+    });
+
+    test("failures are counted and don't stop the sync", async () => {
+      const result = await syncCovers(
+        files,
+        async (filePath) => {
+          if (filePath.endsWith("3.mp3")) throw new Error("Upload failed: 500");
+          return uploaded(filePath);
+        },
+        { statePath: STATE_PATH },
+      );
+      expect(result).toMatchObject({ state: "done", done: 10, uploaded: 9, failed: 1 });
+    });
+
+    test("a cancelled sync resumes with the files it hadn't finished", async () => {
+      const controller = new AbortController();
+      const first: string[] = [];
+      const cancelled = await syncCovers(
+        files,
+        async (filePath, signal) => {
+          first.push(filePath);
+          if (first.length === 4) controller.abort();
+          signal.throwIfAborted();
+          return uploaded(filePath);
+        },
+        { concurrency: 1, statePath: STATE_PATH, signal: controller.signal },
+      );
+      expect(cancelled).toMatchObject({ state: "cancelled", done: 3, uploaded: 3, failed: 0 });
+      expect(JSON.parse(readFileSync(STATE_PATH, "utf-8")).done).toEqual(files.slice(0, 3));
+
+      const second: string[] = [];
+      const resumed = await syncCovers(
+        files,
+        async (filePath) => {
+          second.push(filePath);
+          return uploaded(filePath);
+        },
+        { statePath: STATE_PATH },
+      );
+      expect(second.sort()).toEqual(files.slice(3).sort());
+      expect(resumed).toMatchObject({ state: "done", total: 10, done: 10, resumed: 3, uploaded: 7 });
+      expect(existsSync(STATE_PATH)).toBe(false);
+    });
+
+    test("files synced to another storage target are synced again", async () => {
+      const controller = new AbortController();
+      await syncCovers(
+        files,
+        async (filePath) => {
+          if (filePath === files[2]) controller.abort();
+          return uploaded(filePath);
+        },
+        {
+          concurrency: 1,
+          statePath: STATE_PATH,
+          target: "https://old.example",
+          signal: controller.signal,
+        },
+      );
+      expect(JSON.parse(readFileSync(STATE_PATH, "utf-8")).target).toBe("https://old.example");
+
+      const second: string[] = [];
+      const result = await syncCovers(
+        files,
+        async (filePath) => {
+          second.push(filePath);
+          return uploaded(filePath);
+        },
+        { statePath: STATE_PATH, target: "https://new.example" },
+      );
+      expect(second.sort()).toEqual([...files].sort());
+      expect(result).toMatchObject({ resumed: 0, uploaded: 10 });
+    });
+  });
+
+  describe("PresenceService.syncFileCover", () => {
+    const MUSIC_DIR = path.join(tmpdir(), `tini-cover-sync-music-${process.pid}`);
+    const FILE_PATH = path.join(MUSIC_DIR, "Test Song One.mp3");
+    const CACHE_PATH = path.join(MUSIC_DIR, "cover-cache.json");
+    let requests: string[] = [];
+    let existing = false;
+
+    beforeAll(() => {
+      setTestIdentity(TEST_IDENTITY);
+      mkdirSync(MUSIC_DIR, { recursive: true });
+      copyFileSync(path.join(import.meta.dir, "../../test-music/Test Song One.mp3"), FILE_PATH);
+    });
+
+    afterAll(() => {
+      resetIdentity();
+      rmSync(MUSIC_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+      requests = [];
+      existing = false;
+      rmSync(CACHE_PATH, { force: true });
+      mockFetch(async (url: string, options?: RequestInit) => {
+        requests.push(options?.method ?? "GET");
+        if (options?.method === "HEAD") {
+          return new Response(null, { status: existing ? 200 : 404 });
+        }
+        return new Response(`${String(url).split("?")[0]}\n`);
+      });
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    const createService = () =>
+      new PresenceService({
+        upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+        coverCache: new CoverCache({ path: CACHE_PATH }),
+      });
+
+    test("uploads once, then serves the file from the cover cache", async () => {
+      const service = createService();
+      const first = await service.syncFileCover(FILE_PATH);
+      expect(first?.status).toBe("uploaded");
+      expect(first?.url).toStartWith("https://cdn.example.com/cdn");
+      expect(requests).toEqual(["HEAD", "PUT"]);
+      service.destroy();
+
+      // A later sync (or playback) after a restart needs no requests
+      requests = [];
+      const restarted = createService();
+      const again = await restarted.syncFileCover(FILE_PATH);
+      expect(again).toMatchObject({ status: "cached", url: first!.url });
+      expect(requests).toEqual([]);
+      restarted.destroy();
+    });
+
+    test("covers already in storage are not uploaded again", async () => {
+      existing = true;
+      const service = createService();
+      expect((await service.syncFileCover(FILE_PATH))?.status).toBe("existed");
+      expect(requests).toEqual(["HEAD"]);
+      service.destroy();
+    });
+
+    test("fails without cover storage", async () => {
+      const service = new PresenceService({});
+      expect(service.hasUpload).toBe(false);
+      await expect(service.syncFileCover(FILE_PATH)).rejects.toThrow("No cover storage configured");
+      service.destroy();
+    });
+  });
+});
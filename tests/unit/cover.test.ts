@@ -1,6 +1,24 @@
-import { describe, expect, test } from "bun:test";
-import { resolve } from "node:path";
-import { extractCoverArt } from "../../src/cover.ts";
+import { describe, expect, test, beforeAll, afterAll, afterEach } from "bun:test";
+import { copyFileSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path, { resolve } from "node:path";
+import * as mm from "music-metadata";
+import sharp from "sharp";
+import {
+  analyzeCover,
+  extractCoverArt,
+  hashBuffer,
+  renderPlaceholder,
+  resolveCoverArt,
+  selectPicture,
+} from "../../src/cover.ts";
+import { setImageBackendPreference } from "../../src/image-backend.ts";
+import { resolveImageProfile } from "../../src/image-profile.ts";
+import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
+import { localFiles } from "../../src/local-files.ts";
+import { PresenceService } from "../../src/presence.ts";
+import type { Track } from "../../src/spotify.ts";
+import { mockFetch, restoreFetch } from "./helpers.ts";
 
 const TEST_MUSIC_DIR = resolve(import.meta.dir, "../../test-music");
 
@@ -46,6 +64,58 @@ describe("Cover Art", () => {
     });
   });
 
+  describe("embedded picture selection", () => {
+    async function pictures(file: string) {
+      const metadata = await mm.parseFile(`${TEST_MUSIC_DIR}/${file}`);
+      return metadata.common.picture ?? [];
+    }
+
+    // Large enough that the chosen picture is uploaded unchanged
+    const keepSize = { image: resolveImageProfile({ size: 1024 }) };
+
+    async function chosen(file: string) {
+      const cover = await extractCoverArt(`${TEST_MUSIC_DIR}/${file}`, keepSize);
+      const match = (await pictures(file)).find(
+        (picture) => Buffer.compare(Buffer.from(picture.data), Buffer.from(cover!.data)) === 0,
+      );
+      return match?.description;
+    }
+
+    test("prefers the front cover over bigger pictures", async () => {
+      expect(await chosen("Multiple Pictures.mp3")).toBe("front");
+    });
+
+    test("reads FLAC picture blocks", async () => {
+      expect(await chosen("Multiple Pictures.flac")).toBe("front");
+    });
+
+    test("without a front cover, takes the largest picture over a thumbnail", async () => {
+      expect(await chosen("Thumbnail First.mp3")).toBe("band");
+    });
+
+    test("skips pictures that fail to decode", async () => {
+      expect(await chosen("Corrupt Front.mp3")).toBe("back");
+    });
+
+    test("a front cover below the minimum size loses to a large picture", async () => {
+      const all = await pictures("Multiple Pictures.mp3");
+      const thumbnail = all.find((p) => p.description === "thumbnail")!;
+      const back = all.find((p) => p.description === "back")!;
+
+      const picked = await selectPicture([{ ...thumbnail, type: "Cover (front)" }, back]);
+      expect(picked?.description).toBe("back");
+    });
+
+    test("uses a small picture when nothing bigger decodes", async () => {
+      const all = await pictures("Multiple Pictures.mp3");
+      const thumbnail = all.find((p) => p.description === "thumbnail")!;
+      const corrupt = (await pictures("Corrupt Front.mp3")).find((p) => p.description === "front")!;
+
+      expect((await selectPicture([corrupt, thumbnail]))?.description).toBe("thumbnail");
+      expect(await selectPicture([corrupt])).toBeNull();
+    });
+  });
+
   describe("hashBuffer", () => {
     test("produces consistent hash for same data", async () => {
       const { createHash } = await import("node:crypto");
@@ -84,4 +154,355 @@ describe("Cover Art", () => {
       }
     });
   });
+
+  describe("resolveCoverArt fallback chain", () => {
+    const ROOT = path.join(tmpdir(), `tini-cover-fallback-${process.pid}`);
+    const ALBUM = path.join(ROOT, "Album");
+    const DISC = path.join(ALBUM, "CD1");
+    const OVERRIDES = path.join(ROOT, "Overrides");
+    // Audio files without embedded art (unreadable tags fall through too)
+    const BARE = path.join(ALBUM, "bare.mp3");
+    const BARE_DISC = path.join(DISC, "bare.mp3");
+    let jpeg: Uint8Array;
+
+    beforeAll(async () => {
+      rmSync(ROOT, { recursive: true, force: true });
+      mkdirSync(DISC, { recursive: true });
+      mkdirSync(OVERRIDES, { recursive: true });
+      writeFileSync(BARE, "no tags here");
+      writeFileSync(BARE_DISC, "no tags here");
+      copyFileSync(`${TEST_MUSIC_DIR}/Test Song One.mp3`, path.join(ALBUM, "tagged.mp3"));
+
+      const cover = await extractCoverArt(`${TEST_MUSIC_DIR}/Test Song One.mp3`);
+      jpeg = cover!.data;
+    });
+
+    afterAll(() => {
+      rmSync(ROOT, { recursive: true, force: true });
+    });
+
+    function writeImage(filePath: string) {
+      writeFileSync(filePath, jpeg);
+    }
+
+    function clearImages() {
+      for (const dir of [ALBUM, DISC, OVERRIDES]) {
+        for (const name of ["cover.jpg", "Folder.JPG", "front.jpeg", "Artist - Album.jpg"]) {
+          rmSync(path.join(dir, name), { force: true });
+        }
+      }
+    }
+
+    test("embedded art wins over folder images", async () => {
+      clearImages();
+      writeImage(path.join(ALBUM, "cover.jpg"));
+      const { cover, dependencies } = await resolveCoverArt(path.join(ALBUM, "tagged.mp3"));
+      expect(cover?.source).toBe("embedded");
+      expect(dependencies).toEqual([]);
+    });
+
+    test("uses a folder image, matched case-insensitively", async () => {
+      clearImages();
+      writeImage(path.join(ALBUM, "Folder.JPG"));
+      const { cover, dependencies } = await resolveCoverArt(BARE);
+      expect(cover).toMatchObject({
+        source: "folder",
+        sourcePath: path.join(ALBUM, "Folder.JPG"),
+        mimeType: "image/jpeg",
+      });
+      expect(dependencies).toContain(path.join(ALBUM, "Folder.JPG"));
+    });
+
+    test("checks the parent folder for multi-disc albums", async () => {
+      clearImages();
+      writeImage(path.join(ALBUM, "cover.jpg"));
+      const { cover } = await resolveCoverArt(BARE_DISC);
+      expect(cover?.sourcePath).toBe(path.join(ALBUM, "cover.jpg"));
+    });
+
+    test("an image file, such as a pinned cover, is its own cover", async () => {
+      clearImages();
+      writeImage(path.join(OVERRIDES, "Artist - Album.jpg"));
+      const { cover, dependencies } = await resolveCoverArt(path.join(OVERRIDES, "Artist - Album.jpg"));
+      expect(cover).toMatchObject({
+        source: "pinned",
+        sourcePath: path.join(OVERRIDES, "Artist - Album.jpg"),
+        mimeType: "image/jpeg",
+      });
+      expect(dependencies).toEqual([]);
+    });
+
+    test("follows the configured name order", async () => {
+      clearImages();
+      writeImage(path.join(ALBUM, "cover.jpg"));
+      writeImage(path.join(ALBUM, "front.jpeg"));
+
+      const { cover } = await resolveCoverArt(BARE, { folderImageNames: ["front.*", "cover"] });
+      expect(cover?.sourcePath).toBe(path.join(ALBUM, "front.jpeg"));
+
+      const none = await resolveCoverArt(BARE, { folderImageNames: [] });
+      expect(none.cover).toBeNull();
+    });
+
+    test("falls back to the override folder by artist and album", async () => {
+      clearImages();
+      writeImage(path.join(OVERRIDES, "Artist - Album.jpg"));
+      const { cover, dependencies } = await resolveCoverArt(
+        BARE,
+        { overrideFolder: OVERRIDES },
+        { artist: "Artist", album: "Album" },
+      );
+      expect(cover).toMatchObject({ source: "override" });
+      expect(dependencies).toEqual([
+        ALBUM,
+        ROOT,
+        OVERRIDES,
+        path.join(OVERRIDES, "Artist - Album.jpg"),
+      ]);
+    });
+
+    test("reports the folders it checked when nothing is found", async () => {
+      clearImages();
+      const { cover, dependencies } = await resolveCoverArt(BARE_DISC);
+      expect(cover).toBeNull();
+      expect(dependencies).toEqual([DISC, ALBUM]);
+    });
+
+    test("generates a placeholder last, when enabled", async () => {
+      clearImages();
+      const { cover, dependencies } = await resolveCoverArt(
+        BARE_DISC,
+        { placeholder: true },
+        { artist: "Artist", album: "Album" },
+      );
+      expect(cover).toMatchObject({ source: "placeholder", mimeType: "image/jpeg" });
+      // A folder image added later still replaces it
+      expect(dependencies).toEqual([DISC, ALBUM]);
+    });
+  });
+
+  describe("image profile", () => {
+    const ROOT = path.join(tmpdir(), `tini-cover-profile-${process.pid}`);
+    const WIDE = path.join(ROOT, "Wide", "bare.mp3");
+    const TINY = path.join(ROOT, "Tiny", "bare.mp3");
+
+    beforeAll(async () => {
+      rmSync(ROOT, { recursive: true, force: true });
+      for (const [file, width, height] of [[WIDE, 900, 600], [TINY, 100, 100]] as const) {
+        mkdirSync(path.dirname(file), { recursive: true });
+        writeFileSync(file, "no tags here");
+        const png = await sharp({
+          create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } },
+        })
+          .png()
+          .toBuffer();
+        writeFileSync(path.join(path.dirname(file), "cover.png"), png);
+      }
+    });
+
+    afterAll(() => {
+      rmSync(ROOT, { recursive: true, force: true });
+    });
+
+    async function resolve(file: string, config: Parameters<typeof resolveImageProfile>[0]) {
+      const { cover } = await resolveCoverArt(file, { image: resolveImageProfile(config) });
+      const metadata = await sharp(Buffer.from(cover!.data)).metadata();
+      return { cover: cover!, metadata };
+    }
+
+    test("the default keeps the aspect ratio within 512px as JPEG", async () => {
+      const { cover, metadata } = await resolve(WIDE, {});
+      expect(cover.mimeType).toBe("image/jpeg");
+      expect(metadata).toMatchObject({ width: 512, height: 341, format: "jpeg" });
+      // The default profile hashes the image alone
+      expect(cover.hash).toBe(hashBuffer(cover.data));
+    });
+
+    test("encodes WebP and PNG", async () => {
+      const webp = await resolve(WIDE, { format: "webp" });
+      expect(webp.cover.mimeType).toBe("image/webp");
+      expect(webp.metadata.format).toBe("webp");
+
+      const png = await resolve(WIDE, { format: "png", size: 256 });
+      expect(png.cover.mimeType).toBe("image/png");
+      expect(png.metadata).toMatchObject({ width: 256, height: 171, format: "png" });
+    });
+
+    test("crops or pads to a square", async () => {
+      const cropped = await resolve(WIDE, { fit: "cover" });
+      expect(cropped.metadata).toMatchObject({ width: 512, height: 512 });
+
+      const padded = await resolve(WIDE, { fit: "contain", size: 300 });
+      expect(padded.metadata).toMatchObject({ width: 300, height: 300 });
+    });
+
+    test("only enlarges small covers when upscale is set", async () => {
+      expect((await resolve(TINY, { fit: "cover" })).metadata.width).toBe(100);
+      expect((await resolve(TINY, { upscale: true })).metadata.width).toBe(512);
+    });
+
+    test("the profile is part of the hash", async () => {
+      const first = await resolve(TINY, { maxFileSizeKb: 100 });
+      const second = await resolve(TINY, { maxFileSizeKb: 200 });
+      // Same pixels, different profile
+      expect(Buffer.from(first.cover.data).equals(Buffer.from(second.cover.data))).toBe(true);
+      expect(first.cover.hash).not.toBe(second.cover.hash);
+      expect((await resolve(TINY, { maxFileSizeKb: 100 })).cover.hash).toBe(first.cover.hash);
+    });
+  });
+
+  describe("analyzeCover", () => {
+    test("returns the palette and a small preview", async () => {
+      // Red front cover
+      const cover = await extractCoverArt(`${TEST_MUSIC_DIR}/Multiple Pictures.mp3`);
+      const colors = await analyzeCover(cover!.data, cover!.mimeType);
+      expect(colors?.dominant).toMatch(/^#[0-9a-f]{6}$/);
+      const [r, g, b] = [1, 3, 5].map((i) => parseInt(colors!.dominant.slice(i, i + 2), 16));
+      expect(r).toBeGreaterThan(180);
+      expect(g + b).toBeLessThan(120);
+
+      expect(colors?.thumbnail).toStartWith("data:image/jpeg;base64,");
+      const preview = Buffer.from(colors!.thumbnail.split(",")[1], "base64");
+      expect(await sharp(preview).metadata()).toMatchObject({ width: 16, height: 16 });
+    });
+
+    test("returns null for data that isn't an image", async () => {
+      expect(await analyzeCover(new TextEncoder().encode("nope"), "image/jpeg")).toBeNull();
+    });
+  });
+
+  describe("placeholder artwork", () => {
+    test("renders a 512x512 JPEG", async () => {
+      const cover = await renderPlaceholder({ artist: "Test Artist", album: "Test Album" });
+      expect(cover?.source).toBe("placeholder");
+      const metadata = await sharp(Buffer.from(cover!.data)).metadata();
+      expect(metadata).toMatchObject({ width: 512, height: 512, format: "jpeg" });
+    });
+
+    test("is the same for the same album and differs between albums", async () => {
+      const first = await renderPlaceholder({ artist: "Test Artist", album: "Test Album" });
+      const again = await renderPlaceholder({ artist: "Test Artist", album: "Test Album" });
+      const other = await renderPlaceholder({ artist: "Test Artist", album: "Other Album" });
+      expect(again?.hash).toBe(first!.hash);
+      expect(other?.hash).not.toBe(first!.hash);
+    });
+
+    test("renders without sharp", async () => {
+      setImageBackendPreference("jimp");
+      try {
+        const cover = await renderPlaceholder({ artist: "Test Artist", album: "Test Album" });
+        const metadata = await sharp(Buffer.from(cover!.data)).metadata();
+        expect(metadata).toMatchObject({ width: 512, height: 512, format: "jpeg" });
+      } finally {
+        setImageBackendPreference(undefined);
+      }
+    });
+
+    test("handles long titles and markup characters", async () => {
+      const cover = await renderPlaceholder({
+        artist: "<Artist> & \"Friends\"",
+        album: "An Extremely Long Album Title That Needs Several Lines To Fit On The Cover",
+      });
+      expect(cover?.mimeType).toBe("image/jpeg");
+    });
+
+    describe("PresenceService", () => {
+      const ROOT = path.join(tmpdir(), `tini-cover-placeholder-${process.pid}`);
+      const FIRST = path.join(ROOT, "Album", "one.mp3");
+      const SECOND = path.join(ROOT, "Album", "two.mp3");
+      const originalFindFile = localFiles.findFile;
+      const originalGetSpotifyEntry = localFiles.getSpotifyEntry;
+
+      const track = (title: string): Track => ({
+        title,
+        artist: "Test Artist",
+        album: "No Art Album",
+        durationMs: 1000,
+        id: `spotify:local:Test+Artist:No+Art+Album:${title}:1`,
+        source: "local",
+      });
+
+      beforeAll(() => {
+        setTestIdentity(TEST_IDENTITY);
+        rmSync(ROOT, { recursive: true, force: true });
+        mkdirSync(path.dirname(FIRST), { recursive: true });
+        writeFileSync(FIRST, "no tags here");
+        writeFileSync(SECOND, "no tags here");
+      });
+
+      afterAll(() => {
+        resetIdentity();
+        rmSync(ROOT, { recursive: true, force: true });
+      });
+
+      afterEach(() => {
+        restoreFetch();
+        localFiles.findFile = originalFindFile;
+        localFiles.getSpotifyEntry = originalGetSpotifyEntry;
+      });
+
+      test("tracks of one album upload the placeholder once", async () => {
+        const stored = new Set<string>();
+        const puts: string[] = [];
+        mockFetch(async (url: string, options?: RequestInit) => {
+          const target = String(url).split("?")[0];
+          if (options?.method === "HEAD") {
+            return new Response(null, { status: stored.has(target) ? 200 : 404 });
+          }
+          puts.push(target);
+          stored.add(target);
+          return new Response(`${target}\n`);
+        });
+        localFiles.findFile = async (id: string) => (id.includes(":one:") ? FIRST : SECOND);
+
+        const service = new PresenceService({
+          upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+          cover: { placeholder: true },
+        });
+        try {
+          const first = await service.getCoverUrl(track("one"));
+          const second = await service.getCoverUrl(track("two"));
+          expect(first).toStartWith("https://cdn.example.com/cdn");
+          expect(second).toBe(first);
+          expect(puts).toHaveLength(1);
+          expect(service.getCoverSource(track("two"))).toBe("placeholder");
+        } finally {
+          service.destroy();
+        }
+      });
+
+      test("a synced file gets the placeholder playback uses", async () => {
+        const puts: string[] = [];
+        mockFetch(async (url: string, options?: RequestInit) => {
+          const target = String(url).split("?")[0];
+          if (options?.method === "HEAD") {
+            return new Response(null, { status: puts.includes(target) ? 200 : 404 });
+          }
+          puts.push(target);
+          return new Response(`${target}\n`);
+        });
+        // The files have no tags; Spotify knows them by the track's
+        localFiles.getSpotifyEntry = (filePath: string) => ({
+          path: filePath,
+          title: "one",
+          artist: "Test Artist",
+          album: "No Art Album",
+        });
+        localFiles.findFile = async () => SECOND;
+
+        const service = new PresenceService({
+          upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+          cover: { placeholder: true },
+        });
+        try {
+          const synced = await service.syncFileCover(FIRST);
+          expect(synced).toMatchObject({ source: "placeholder", status: "uploaded" });
+          expect(await service.getCoverUrl(track("two"))).toBe(synced!.url);
+          expect(puts).toHaveLength(1);
+        } finally {
+          service.destroy();
+        }
+      });
+    });
+  });
 });
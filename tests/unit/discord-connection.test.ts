@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DiscordConnection,
+  type ConnectionState,
+  type RpcClient,
+  type RpcUser,
+} from "../../src/discord-connection.ts";
+import { FakeClock } from "./helpers.ts";
+
+// Stand-in for the RPC client; Discord is "running" when reachable is true
+class FakeClient implements RpcClient {
+  user?: RpcUser;
+  destroyed = false;
+  private handlers: Record<string, (() => void)[]> = {};
+
+  constructor(
+    readonly clientId: string,
+    private reachable: () => boolean,
+  ) {}
+
+  on(event: "ready" | "disconnected", listener: () => void) {
+    this.handlers[event] = [...(this.handlers[event] ?? []), listener];
+  }
+
+  emit(event: "ready" | "disconnected") {
+    for (const listener of this.handlers[event] ?? []) listener();
+  }
+
+  async login() {
+    if (!this.reachable()) throw new Error("Could not connect");
+    this.user = {
+      username: `user-of-${this.clientId}`,
+      setActivity: async () => {},
+      clearActivity: async () => {},
+    };
+    this.emit("ready");
+  }
+
+  async destroy() {
+    this.destroyed = true;
+    this.emit("disconnected");
+  }
+}
+
+function setup({ reachable = true } = {}) {
+  const clock = new FakeClock();
+  const clients: FakeClient[] = [];
+  const discord = { reachable };
+  const connection = new DiscordConnection("app-1", {
+    clock,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 4000,
+    createClient: (clientId) => {
+      const client = new FakeClient(clientId, () => discord.reachable);
+      clients.push(client);
+      return client;
+    },
+  });
+  const states: ConnectionState[] = [];
+  connection.onStateChange((state) => states.push(state));
+  return { clock, clients, connection, discord, states };
+}
+
+// Let retry connects (fired from timers) finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Discord Connection", () => {
+  test("connects and reports state", async () => {
+    const { connection, states } = setup();
+    let ready = 0;
+    connection.onReady(() => ready++);
+
+    await connection.connect();
+
+    expect(states.map((s) => s.status)).toEqual(["connecting", "connected"]);
+    expect(connection.isConnected).toBe(true);
+    expect(connection.state.username).toBe("user-of-app-1");
+    expect(connection.user).toBeDefined();
+    expect(ready).toBe(1);
+  });
+
+  test("backs off exponentially while Discord is unreachable", async () => {
+    const { connection, clock, discord } = setup({ reachable: false });
+
+    await connection.connect();
+    expect(connection.state).toMatchObject({ status: "backoff", attempt: 1, nextRetryAt: 1000 });
+    expect(connection.user).toBeUndefined();
+
+    clock.advance(1000);
+    await settle();
+    expect(connection.state).toMatchObject({ status: "backoff", attempt: 2, nextRetryAt: 3000 });
+
+    clock.advance(2000);
+    await settle();
+    clock.advance(4000);
+    await settle();
+    // Capped at maxBackoffMs
+    expect(connection.state).toMatchObject({ attempt: 4, nextRetryAt: 7000 + 4000 });
+
+    discord.reachable = true;
+    clock.advance(4000);
+    await settle();
+    expect(connection.state).toMatchObject({ status: "connected", attempt: 0 });
+    expect(connection.state.nextRetryAt).toBeUndefined();
+  });
+
+  test("reconnects after a disconnect", async () => {
+    const { connection, clients, clock } = setup();
+    let ready = 0;
+    connection.onReady(() => ready++);
+
+    await connection.connect();
+    clients[0].emit("disconnected");
+    expect(connection.state.status).toBe("backoff");
+
+    clock.advance(1000);
+    await settle();
+    expect(connection.isConnected).toBe(true);
+    expect(ready).toBe(2);
+  });
+
+  test("switching the client ID replaces the client", async () => {
+    const { connection, clients, clock } = setup();
+    await connection.connect();
+
+    await connection.setClientId("app-2");
+
+    expect(clients).toHaveLength(2);
+    expect(clients[0].destroyed).toBe(true);
+    expect(clients[1].clientId).toBe("app-2");
+    expect(connection.state).toMatchObject({ status: "connected", clientId: "app-2" });
+
+    // The old client's disconnect must not trigger a retry
+    clock.advance(60_000);
+    await settle();
+    expect(clients).toHaveLength(2);
+  });
+
+  test("ignores an unchanged client ID", async () => {
+    const { connection, clients } = setup();
+    await connection.connect();
+    await connection.setClientId("app-1");
+    expect(clients).toHaveLength(1);
+  });
+
+  test("destroy cancels pending retries", async () => {
+    const { connection, clients, clock } = setup({ reachable: false });
+    await connection.connect();
+    await connection.destroy();
+
+    clock.advance(10_000);
+    await settle();
+    expect(clients).toHaveLength(1);
+    expect(connection.state.status).toBe("idle");
+  });
+});
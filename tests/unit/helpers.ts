@@ -0,0 +1,61 @@
+/**
+ * Test doubles shared by the unit tests
+ */
+
+import type { SchedulerClock } from "../../src/activity-scheduler.ts";
+
+// Manually advanced clock; timers fire in order when time passes them
+export class FakeClock implements SchedulerClock {
+  time = 0;
+  private timers: { at: number; callback: () => void; id: number }[] = [];
+  private nextId = 1;
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number) {
+    const id = this.nextId++;
+    this.timers.push({ at: this.time + ms, callback, id });
+    return id;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers = this.timers.filter((t) => t.id !== handle);
+  }
+
+  advance(ms: number) {
+    const target = this.time + ms;
+    for (;;) {
+      this.timers.sort((a, b) => a.at - b.at);
+      const next = this.timers[0];
+      if (!next || next.at > target) break;
+      this.timers.shift();
+      this.time = next.at;
+      next.callback();
+    }
+    this.time = target;
+  }
+}
+
+// Stands in for fetch; gets the request URL as a string
+export type FetchStub = (url: string, options?: RequestInit) => Promise<Response>;
+
+const realFetch = globalThis.fetch;
+
+/**
+ * Send every fetch to the stub until restoreFetch() (also returned)
+ */
+export function mockFetch(stub: FetchStub): () => void {
+  const mocked: typeof fetch = Object.assign(
+    (input: string | URL | Request, init?: RequestInit) =>
+      stub(input instanceof Request ? input.url : String(input), init),
+    { preconnect: realFetch.preconnect },
+  );
+  globalThis.fetch = mocked;
+  return restoreFetch;
+}
+
+export function restoreFetch(): void {
+  globalThis.fetch = realFetch;
+}
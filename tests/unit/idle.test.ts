@@ -0,0 +1,139 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import { IdleTimer, resolveIdleConfig, DEFAULT_IDLE_CONFIG } from "../../src/idle.ts";
+import { PresenceService } from "../../src/presence.ts";
+import type { PlaybackState, Track } from "../../src/spotify.ts";
+import { FakeClock } from "./helpers.ts";
+
+const track: Track = {
+  title: "Mrs Magic",
+  artist: "Strawberry Guy",
+  album: "F Song & Mrs Magic",
+  durationMs: 221929,
+  id: "spotify:track:abc123",
+  source: "spotify",
+};
+
+function withState(state: "playing" | "paused" | "stopped"): PlaybackState {
+  return { isRunning: true, track, positionMs: 60000, state };
+}
+
+describe("Idle Presence", () => {
+  describe("resolveIdleConfig", () => {
+    test("uses defaults for missing or invalid values", () => {
+      expect(resolveIdleConfig({})).toEqual(DEFAULT_IDLE_CONFIG);
+      expect(
+        resolveIdleConfig({
+          pausedPresence: "bogus" as never,
+          pausedTimeoutSeconds: -5,
+          notRunningGraceSeconds: null as never,
+        }),
+      ).toEqual(DEFAULT_IDLE_CONFIG);
+    });
+
+    test("converts seconds to milliseconds", () => {
+      expect(
+        resolveIdleConfig({
+          pausedPresence: "show",
+          pausedTimeoutSeconds: 60,
+          notRunningGraceSeconds: 0,
+        }),
+      ).toEqual({ pausedMode: "show", pausedTimeoutMs: 60_000, notRunningGraceMs: 0 });
+    });
+  });
+
+  describe("IdleTimer", () => {
+    test("fires once after the delay", () => {
+      const clock = new FakeClock();
+      const timer = new IdleTimer(clock);
+      let fired = 0;
+
+      expect(timer.arm("paused", 1000, () => fired++)).toBe(true);
+      expect(timer.expiresAt).toBe(1000);
+      clock.advance(999);
+      expect(fired).toBe(0);
+      clock.advance(1);
+      expect(fired).toBe(1);
+    });
+
+    test("re-arming with the same reason keeps the deadline", () => {
+      const clock = new FakeClock();
+      const timer = new IdleTimer(clock);
+      let fired = 0;
+
+      timer.arm("paused", 1000, () => fired++);
+      clock.advance(600);
+      expect(timer.arm("paused", 1000, () => fired++)).toBe(true);
+      clock.advance(400);
+      expect(fired).toBe(1);
+
+      // Still expired until cancelled
+      expect(timer.arm("paused", 1000, () => fired++)).toBe(false);
+      timer.cancel();
+      expect(timer.arm("paused", 1000, () => fired++)).toBe(true);
+    });
+
+    test("a new reason replaces the running timer", () => {
+      const clock = new FakeClock();
+      const timer = new IdleTimer(clock);
+      const fired: string[] = [];
+
+      timer.arm("not-running", 1000, () => fired.push("not-running"));
+      timer.arm("paused", 5000, () => fired.push("paused"));
+      clock.advance(5000);
+      expect(fired).toEqual(["paused"]);
+    });
+
+    test("a zero delay expires immediately", () => {
+      const timer = new IdleTimer(new FakeClock());
+      expect(timer.arm("not-running", 0, () => {})).toBe(false);
+    });
+
+    test("cancel prevents the callback", () => {
+      const clock = new FakeClock();
+      const timer = new IdleTimer(clock);
+      let fired = 0;
+
+      timer.arm("paused", 1000, () => fired++);
+      timer.cancel();
+      clock.advance(2000);
+      expect(fired).toBe(0);
+      expect(timer.reason).toBeNull();
+    });
+  });
+
+  describe("paused activity", () => {
+    let service: PresenceService | null = null;
+
+    afterEach(() => {
+      service?.destroy();
+      service = null;
+    });
+
+    test("shows the track as paused without timestamps", async () => {
+      service = new PresenceService({ idle: { ...DEFAULT_IDLE_CONFIG, pausedMode: "show" } });
+      const activity = await service.buildActivity(withState("paused"), null);
+
+      expect(activity?.details).toBe("Mrs Magic");
+      expect(activity?.state).toBe("Paused · Strawberry Guy");
+      expect(activity?.startTimestamp).toBeUndefined();
+      expect(activity?.endTimestamp).toBeUndefined();
+    });
+
+    test("clear mode keeps the old behaviour", async () => {
+      service = new PresenceService({ idle: { ...DEFAULT_IDLE_CONFIG, pausedMode: "clear" } });
+      expect(await service.buildActivity(withState("paused"), null)).toBeNull();
+    });
+
+    test("stopped playback is never shown", async () => {
+      service = new PresenceService({ idle: { ...DEFAULT_IDLE_CONFIG, pausedMode: "show" } });
+      expect(await service.buildActivity(withState("stopped"), null)).toBeNull();
+    });
+
+    test("playing tracks keep their timestamps", async () => {
+      service = new PresenceService({});
+      const activity = await service.buildActivity(withState("playing"), null);
+      expect(activity?.state).toBe("Strawberry Guy");
+      expect(activity?.startTimestamp).toBeNumber();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, test, beforeAll, afterEach } from "bun:test";
+import sharp from "sharp";
+import {
+  encodeWith,
+  getImageBackend,
+  getImageOptimizerStatus,
+  loadImageBackend,
+  optimizeWith,
+  setImageBackendPreference,
+  type ImageBackend,
+  type ImageBackendName,
+} from "../../src/image-backend.ts";
+import { resolveImageProfile, type ImageProfileConfig } from "../../src/image-profile.ts";
+
+async function solid(
+  width: number,
+  height: number,
+  format: "png" | "jpeg" = "png",
+  alpha?: number,
+): Promise<Uint8Array> {
+  const image = sharp({
+    create: {
+      width,
+      height,
+      channels: alpha === undefined ? 3 : 4,
+      background: { r: 30, g: 60, b: 220, alpha: alpha ?? 1 },
+    },
+  });
+  return new Uint8Array(await (format === "png" ? image.png() : image.jpeg()).toBuffer());
+}
+
+async function noise(size: number): Promise<Uint8Array> {
+  const image = sharp({
+    create: {
+      width: size,
+      height: size,
+      channels: 3,
+      background: "#000000",
+      noise: { type: "gaussian", mean: 128, sigma: 60 },
+    },
+  });
+  return new Uint8Array(await image.png().toBuffer());
+}
+
+// Outputs are checked with sharp whichever backend made them
+async function inspect(data: Uint8Array) {
+  const image = sharp(Buffer.from(data));
+  const { width, height, format } = await image.metadata();
+  const { data: pixels } = await image.raw().toBuffer({ resolveWithObject: true });
+  return { width, height, format, corner: [pixels[0], pixels[1], pixels[2]] };
+}
+
+const MIME = { png: "image/png", jpeg: "image/jpeg" };
+
+for (const name of ["sharp", "jimp"] as ImageBackendName[]) {
+  describe(`Image backend: ${name}`, () => {
+    let backend: ImageBackend;
+    let wide: Uint8Array;
+
+    beforeAll(async () => {
+      backend = (await loadImageBackend(name))!;
+      wide = await solid(900, 600);
+    });
+
+    function optimize(data: Uint8Array, config: ImageProfileConfig = {}, mimeType = MIME.png) {
+      return optimizeWith(backend, data, mimeType, resolveImageProfile(config));
+    }
+
+    test("is available", () => {
+      expect(backend?.name).toBe(name);
+    });
+
+    test("fits inside the target size as JPEG by default", async () => {
+      const result = await optimize(wide);
+      expect(result.mimeType).toBe("image/jpeg");
+      expect(await inspect(result.data)).toMatchObject({ width: 512, height: 341, format: "jpeg" });
+    });
+
+    test("crops to a square", async () => {
+      const result = await optimize(wide, { fit: "cover", size: 256 });
+      expect(await inspect(result.data)).toMatchObject({ width: 256, height: 256 });
+    });
+
+    test("pads to a square with the background color", async () => {
+      const result = await optimize(wide, { fit: "contain", size: 300, background: "#ff0000" });
+      const info = await inspect(result.data);
+      expect(info).toMatchObject({ width: 300, height: 300 });
+      const [r, g, b] = info.corner;
+      expect(r).toBeGreaterThan(200);
+      expect(g + b).toBeLessThan(60);
+    });
+
+    test("enlarges small images only with upscale", async () => {
+      const small = await solid(100, 100);
+      expect((await inspect((await optimize(small)).data)).width).toBe(100);
+      expect((await inspect((await optimize(small, { upscale: true })).data)).width).toBe(512);
+    });
+
+    test("writes PNG", async () => {
+      const result = await optimize(wide, { format: "png", size: 128 });
+      expect(result.mimeType).toBe("image/png");
+      expect(await inspect(result.data)).toMatchObject({ width: 128, height: 85, format: "png" });
+    });
+
+    test("writes WebP when supported, JPEG otherwise", async () => {
+      const result = await optimize(wide, { format: "webp" });
+      expect(result.mimeType).toBe(backend.formats.includes("webp") ? "image/webp" : "image/jpeg");
+    });
+
+    test("fills transparency with the background for JPEG", async () => {
+      const clear = await solid(64, 64, "png", 0);
+      const result = await optimize(clear, { background: "#ffffff" });
+      expect((await inspect(result.data)).corner).toEqual([255, 255, 255]);
+    });
+
+    test("keeps an image that already matches the profile", async () => {
+      const jpeg = await solid(400, 400, "jpeg");
+      const result = await optimize(jpeg, {}, MIME.jpeg);
+      expect(result.data).toBe(jpeg);
+    });
+
+    test("lowers the quality to reach the size limit", async () => {
+      const data = await noise(256);
+      const full = await optimize(data, { quality: 90, minQuality: 90 });
+      const limited = await optimize(data, { quality: 90, minQuality: 30, maxFileSizeKb: 1 });
+      expect(limited.data.length).toBeLessThan(full.data.length);
+    });
+
+    test("samples downscaled RGB pixels", async () => {
+      const sample = await backend.pixels(wide, 64);
+      expect(sample).toMatchObject({ width: 64, height: 43 });
+      expect(sample.data.length).toBe(64 * 43 * 3);
+      expect([...sample.data.subarray(0, 3)]).toEqual([30, 60, 220]);
+    });
+
+    test("encodes raw RGB pixels", async () => {
+      const data = new Uint8Array(40 * 20 * 3);
+      for (let i = 0; i < data.length; i += 3) data.set([200, 40, 40], i);
+      const image = await backend.create({ width: 40, height: 20, data });
+      const result = await encodeWith(backend, image, resolveImageProfile({ format: "png" }));
+      const { width, height, corner } = await inspect(result.data);
+      expect({ width, height, corner }).toEqual({ width: 40, height: 20, corner: [200, 40, 40] });
+    });
+
+    test("rejects corrupt images", async () => {
+      const jpeg = await solid(300, 300, "jpeg");
+      const truncated = jpeg.subarray(0, Math.floor(jpeg.length / 3));
+      expect(await backend.probe(jpeg)).toEqual({ width: 300, height: 300 });
+      await expect(backend.probe(truncated)).rejects.toThrow();
+    });
+  });
+}
+
+describe("Image backend selection", () => {
+  afterEach(() => {
+    setImageBackendPreference(undefined);
+  });
+
+  test("prefers sharp and reports each backend's health", async () => {
+    const status = await getImageOptimizerStatus();
+    expect(status).toMatchObject({ preference: "auto", backend: "sharp", sharp: true, jimp: true });
+    expect(status.backends).toEqual([
+      { name: "sharp", available: true },
+      { name: "jimp", available: true },
+    ]);
+  });
+
+  test("uses Jimp when configured", async () => {
+    setImageBackendPreference("jimp");
+    expect((await getImageBackend())?.name).toBe("jimp");
+    expect((await getImageOptimizerStatus()).backend).toBe("jimp");
+  });
+
+  test("ignores unknown preferences", async () => {
+    setImageBackendPreference("imagemagick" as never);
+    expect((await getImageBackend())?.name).toBe("sharp");
+  });
+});
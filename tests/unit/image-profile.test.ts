@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_IMAGE_PROFILE,
+  imageProfileKey,
+  resolveImageProfile,
+} from "../../src/image-profile.ts";
+
+describe("Image Profile", () => {
+  test("uses the defaults without config", () => {
+    expect(resolveImageProfile(undefined)).toEqual(DEFAULT_IMAGE_PROFILE);
+    expect(resolveImageProfile(null)).toEqual(DEFAULT_IMAGE_PROFILE);
+    expect(resolveImageProfile({})).toEqual(DEFAULT_IMAGE_PROFILE);
+  });
+
+  test("merges configured values over the defaults", () => {
+    expect(resolveImageProfile({ size: 640, format: "webp", fit: "cover", background: "#ABCDEF" }))
+      .toEqual({
+        ...DEFAULT_IMAGE_PROFILE,
+        size: 640,
+        format: "webp",
+        fit: "cover",
+        background: "#abcdef",
+      });
+  });
+
+  test("falls back to the default for invalid values", () => {
+    const profile = resolveImageProfile({
+      size: 0,
+      format: "gif" as never,
+      quality: 101,
+      fit: "stretch" as never,
+      upscale: "yes" as never,
+      background: "red",
+      maxFileSizeKb: 1.5,
+    });
+    expect(profile).toEqual(DEFAULT_IMAGE_PROFILE);
+  });
+
+  test("keeps minQuality at or below quality", () => {
+    expect(resolveImageProfile({ quality: 40 })).toMatchObject({ quality: 40, minQuality: 40 });
+    expect(resolveImageProfile({ quality: 80, minQuality: 70 })).toMatchObject({
+      quality: 80,
+      minQuality: 70,
+    });
+  });
+
+  test("the key is unset for the default profile and differs otherwise", () => {
+    expect(imageProfileKey(DEFAULT_IMAGE_PROFILE)).toBeUndefined();
+    expect(imageProfileKey(resolveImageProfile({ size: 512 }))).toBeUndefined();
+
+    const webp = imageProfileKey(resolveImageProfile({ format: "webp" }));
+    const cropped = imageProfileKey(resolveImageProfile({ fit: "cover" }));
+    expect(webp).toBeString();
+    expect(cropped).toBeString();
+    expect(webp).not.toBe(cropped);
+    expect(imageProfileKey(resolveImageProfile({ format: "webp" }))).toBe(webp!);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, test, beforeEach, afterEach, afterAll } from "bun:test";
+import { copyFileSync, mkdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { LibraryIndex } from "../../src/library-index.ts";
+import { findLocalFile, localFiles, saveConfig } from "../../src/local-files.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-library-index-${process.pid}`);
+const MUSIC_DIR = path.join(TEST_DIR, "Music");
+const FIXTURES = path.join(import.meta.dir, "../../test-music");
+
+// Tagged "Test Song One" by Test Artist, under an unhelpful name
+const SONG_ONE = path.join(MUSIC_DIR, "Album A", "01.mp3");
+// Tagged "Another Track" by Cool Band
+const ANOTHER = path.join(MUSIC_DIR, "Album B", "track2.mp3");
+// Named after the wrong song: its tags say "Third Song"
+const MISNAMED = path.join(MUSIC_DIR, "Album C", "Test Song One.mp3");
+const UNTAGGED = path.join(MUSIC_DIR, "Untagged", "Cool Band - Lost Song.mp3");
+
+function copyFixture(name: string, to: string) {
+  mkdirSync(path.dirname(to), { recursive: true });
+  copyFileSync(path.join(FIXTURES, name), to);
+}
+
+describe("LibraryIndex", () => {
+  let index: LibraryIndex;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    copyFixture("Test Song One.mp3", SONG_ONE);
+    copyFixture("Another Track.mp3", ANOTHER);
+    copyFixture("Third Song.mp3", MISNAMED);
+    mkdirSync(path.dirname(UNTAGGED), { recursive: true });
+    writeFileSync(UNTAGGED, "no tags here");
+    index = new LibraryIndex(":memory:");
+  });
+
+  afterEach(() => {
+    index.close();
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("indexes tags, duration and embedded art", async () => {
+    expect(index.ready).toBe(false);
+    const result = await index.scan([MUSIC_DIR], []);
+
+    expect(result).toEqual({ total: 4, added: 4, updated: 0, removed: 0 });
+    expect(index.ready).toBe(true);
+    expect(index.size).toBe(4);
+    expect(index.get(SONG_ONE)).toMatchObject({
+      title: "Test Song One",
+      artist: "Test Artist",
+      album: "Test Album",
+      hasCover: true,
+    });
+    expect(index.get(SONG_ONE)!.durationMs).toBeCloseTo(30_041, -2);
+    expect(index.get(UNTAGGED)).toMatchObject({ title: null, hasCover: false });
+  });
+
+  test("matches tags before file names", async () => {
+    await index.scan([MUSIC_DIR], []);
+
+    expect(index.find({ title: "Test Song One", artist: "Test Artist", album: "Test Album" })).toEqual({
+      path: SONG_ONE,
+      score: 140,
+      by: "tags",
+    });
+    // The track's length counts for or against a file
+    expect(index.find({ title: "Test Song One", durationMs: 30_000 })?.score).toBe(130);
+    expect(index.find({ title: "Test Song One", durationMs: 90_000 })?.score).toBe(70);
+    // Extras in brackets are ignored when nothing matches exactly
+    expect(index.find({ title: "Another Track (Live)", artist: "Cool Band" })).toMatchObject({
+      path: ANOTHER,
+      by: "tags",
+    });
+  });
+
+  test("falls back to file names for untagged files", async () => {
+    await index.scan([MUSIC_DIR], []);
+
+    expect(index.find({ title: "Lost Song", artist: "Cool Band" })).toMatchObject({
+      path: UNTAGGED,
+      by: "filename",
+    });
+    expect(index.find({ title: "Nothing Like It" })).toBeNull();
+  });
+
+  test("only hands over files whose names are like the title", async () => {
+    const short = path.join(MUSIC_DIR, "Untagged", "Cool Band - Go.mp3");
+    writeFileSync(short, "no tags here");
+    await index.scan([MUSIC_DIR], []);
+    const names = (title: string, artist?: string) =>
+      index
+        .getCandidates({ title, artist })
+        .filter((candidate) => !candidate.tags?.title)
+        .map((candidate) => candidate.path);
+
+    // The name holds the title, the title holds the name, or the name has
+    // the artist next to a short title
+    expect(names("Lost Song")).toEqual([UNTAGGED]);
+    expect(names("Cool Band - Lost Song - 2011 Remaster")).toEqual([UNTAGGED]);
+    expect(names("Go", "Cool Band")).toEqual([short]);
+    expect(names("Go")).toEqual([]);
+  });
+
+  test("indexes more files than fit in one write", async () => {
+    const many = path.join(MUSIC_DIR, "Many");
+    mkdirSync(many, { recursive: true });
+    for (let i = 0; i < 1200; i++) {
+      writeFileSync(path.join(many, `Song ${i}.mp3`), "no tags here");
+    }
+
+    expect((await index.scan([MUSIC_DIR], [])).added).toBe(1204);
+    expect(index.size).toBe(1204);
+    expect(index.find({ title: "Song 1199" })?.path).toBe(path.join(many, "Song 1199.mp3"));
+  });
+
+  test("rescans only read changed files and drop deleted ones", async () => {
+    await index.scan([MUSIC_DIR], []);
+    expect(await index.scan([MUSIC_DIR], [])).toEqual({ total: 4, added: 0, updated: 0, removed: 0 });
+
+    utimesSync(ANOTHER, new Date(), new Date(Date.now() + 5000));
+    rmSync(MISNAMED);
+    expect(await index.scan([MUSIC_DIR], [])).toEqual({ total: 3, added: 0, updated: 1, removed: 1 });
+
+    // Files outside the folders only stay while Spotify knows them
+    const elsewhere = path.join(TEST_DIR, "Elsewhere", "Song.mp3");
+    copyFixture("Test Song One.mp3", elsewhere);
+    expect((await index.scan([], [elsewhere])).removed).toBe(3);
+    expect(index.get(elsewhere)).not.toBeNull();
+  });
+
+  test("updates single files from watcher events", async () => {
+    await index.scan([MUSIC_DIR], []);
+    const added = path.join(MUSIC_DIR, "Album D", "03.mp3");
+    copyFixture("Third Song.mp3", added);
+
+    expect(await index.updateFile(added)).toBe(true);
+    expect(await index.updateFile(added)).toBe(false);
+    expect(index.get(added)?.title).toBe("Third Song");
+
+    rmSync(added);
+    rmSync(MISNAMED);
+    expect(await index.updateFile(added)).toBe(true);
+    expect(index.get(added)).toBeNull();
+    // Deleted files are dropped when a lookup runs into them
+    expect(index.find({ title: "Third Song" })).toBeNull();
+    expect(index.size).toBe(3);
+  });
+
+  test("keeps the index across restarts", async () => {
+    const dbPath = path.join(TEST_DIR, "config", "library.db");
+    const first = new LibraryIndex(dbPath);
+    await first.scan([MUSIC_DIR], []);
+    first.close();
+
+    const second = new LibraryIndex(dbPath);
+    expect(second.ready).toBe(true);
+    expect(second.find({ title: "Test Song One" })?.path).toBe(SONG_ONE);
+    second.close();
+  });
+
+  describe("findLocalFile", () => {
+    const originalHome = process.env.HOME;
+
+    beforeEach(() => {
+      process.env.HOME = TEST_DIR;
+      saveConfig({ musicFolders: [MUSIC_DIR] });
+    });
+
+    afterEach(() => {
+      localFiles.useLibrary(null);
+      process.env.HOME = originalHome;
+    });
+
+    test("looks tracks up in the library once it is indexed", async () => {
+      const trackId = "spotify:local:Test+Artist:Test+Album:Test+Song+One:30";
+      // Not indexed yet: the folder search goes by file name
+      expect(await findLocalFile(trackId)).toBe(MISNAMED);
+
+      localFiles.useLibrary(index);
+      await index.scan([MUSIC_DIR], []);
+      expect(await findLocalFile(trackId)).toBe(SONG_ONE);
+    });
+  });
+});
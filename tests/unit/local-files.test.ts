@@ -28,6 +28,14 @@ describe("Local Files", () => {
       expect(info?.title).toBe("Test Song One");
     });
 
+    test("reads the duration in seconds", () => {
+      const info = parseLocalTrackInfo("spotify:local:Test+Artist:Test+Album:Test+Song+One:30");
+      expect(info?.durationMs).toBe(30_000);
+
+      expect(parseLocalTrackInfo("spotify:local:Artist:Album:Song")?.durationMs).toBeNull();
+      expect(parseLocalTrackInfo("spotify:local:Artist:Album:Song:0")?.durationMs).toBeNull();
+    });
+
     test("handles URL-encoded characters", () => {
       const trackId = "spotify:local:Cool+Band:Great+Album:Another+Track:45";
       const info = parseLocalTrackInfo(trackId);
@@ -93,16 +101,16 @@ describe("Local Files", () => {
       expect(existsSync(expectedPath)).toBe(true);
     });
 
-    test("returns null for non-existent file", () => {
+    test("returns null for non-existent file", async () => {
       const trackId = "spotify:local:Unknown:Unknown:NonExistent+Song:999";
-      const result = findLocalFile(trackId);
+      const result = await findLocalFile(trackId);
 
       expect(result).toBeNull();
     });
 
-    test("returns null for spotify track", () => {
+    test("returns null for spotify track", async () => {
       const trackId = "spotify:track:abc123";
-      const result = findLocalFile(trackId);
+      const result = await findLocalFile(trackId);
 
       expect(result).toBeNull();
     });
@@ -205,12 +213,12 @@ describe("Local Files", () => {
       expect(paths1).toBe(paths2); // Same reference = cached
     });
 
-    test("findFileFromSpotifyDb finds existing file by title", () => {
+    test("findFileFromSpotifyDb finds existing file by title", async () => {
       const paths = getSpotifyLocalFilePaths();
 
       if (paths.length > 0) {
         // Use a known test file title
-        const found = findFileFromSpotifyDb("Test Song One");
+        const found = await findFileFromSpotifyDb("Test Song One");
         // Should return null or a valid path
         if (found) {
           expect(existsSync(found)).toBe(true);
@@ -218,17 +226,17 @@ describe("Local Files", () => {
       }
     });
 
-    test("findFileFromSpotifyDb returns null for non-existent title", () => {
-      const result = findFileFromSpotifyDb(
+    test("findFileFromSpotifyDb returns null for non-existent title", async () => {
+      const result = await findFileFromSpotifyDb(
         "this_file_definitely_does_not_exist_12345"
       );
       expect(result).toBeNull();
     });
 
-    test("findLocalFile uses Spotify database", () => {
+    test("findLocalFile uses Spotify database", async () => {
       // This tests the integration - findLocalFile should find files via the .bnk database
       const trackId = "spotify:local:Test+Artist:Test+Album:Test+Song+One:30";
-      const result = findLocalFile(trackId);
+      const result = await findLocalFile(trackId);
 
       // Should find the file either via database or folder fallback
       if (result) {
@@ -0,0 +1,144 @@
+import { describe, expect, test, beforeEach, afterEach, afterAll } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { MatchOverrides, getTupleKey } from "../../src/match-overrides.ts";
+import { explainMatch, findLocalFile, localFiles, saveConfig } from "../../src/local-files.ts";
+import { formatMatchReport } from "../../src/matching.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-match-overrides-${process.pid}`);
+const MUSIC_DIR = path.join(TEST_DIR, "Music");
+const OVERRIDES_PATH = path.join(TEST_DIR, "config", "match-overrides.json");
+
+const TRACK_ID = "spotify:local:Artist:Album:Intro:60";
+const INTRO = { title: "Intro", artist: "Artist", album: "Album" };
+// Matching picks this one for the track
+const MATCHED = path.join(MUSIC_DIR, "Album", "Intro.mp3");
+// The file the user wants instead
+const RIGHT = path.join(MUSIC_DIR, "Rips", "track01.mp3");
+const COVER = path.join(MUSIC_DIR, "Rips", "scan.jpg");
+
+describe("MatchOverrides", () => {
+  let now: number;
+  const createOverrides = () => new MatchOverrides({ path: OVERRIDES_PATH, now: () => now });
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(path.dirname(MATCHED), { recursive: true });
+    mkdirSync(path.dirname(RIGHT), { recursive: true });
+    for (const file of [MATCHED, RIGHT, COVER]) writeFileSync(file, "dummy");
+    now = 1_000;
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("keeps pins across restarts, by track ID or by title, artist and album", () => {
+    const overrides = createOverrides();
+    overrides.pin({ ...INTRO, trackId: TRACK_ID }, { filePath: RIGHT });
+    now = 2_000;
+    overrides.pin({ title: "Outro", artist: "Artist" }, { coverPath: COVER });
+
+    const reloaded = createOverrides();
+    expect(reloaded.get({ ...INTRO, trackId: TRACK_ID })).toEqual({
+      key: TRACK_ID,
+      trackId: TRACK_ID,
+      ...INTRO,
+      filePath: RIGHT,
+      pinnedAt: 1_000,
+    });
+    // Another ID (e.g. another length) for the same song doesn't match an ID pin...
+    expect(reloaded.get({ ...INTRO, trackId: "spotify:local:Artist:Album:Intro:61" })).toBeNull();
+    // ...but tuple pins apply to every ID, however the tags are written
+    expect(
+      reloaded.get({ title: "OUTRO", artist: "artist", trackId: "spotify:local:artist::OUTRO:90" }),
+    ).toMatchObject({ key: getTupleKey({ title: "Outro", artist: "Artist" }), coverPath: COVER });
+    expect(reloaded.list().map((override) => override.title)).toEqual(["Outro", "Intro"]);
+  });
+
+  test("pinning a cover keeps the pinned file, and unpinning drops both", () => {
+    const overrides = createOverrides();
+    const target = { ...INTRO, trackId: TRACK_ID };
+    overrides.pin(target, { filePath: RIGHT });
+    expect(overrides.pin(target, { coverPath: COVER })).toMatchObject({ filePath: RIGHT, coverPath: COVER });
+
+    expect(overrides.unpin(target)).toBe(true);
+    expect(overrides.get(target)).toBeNull();
+    expect(overrides.unpin(target)).toBe(false);
+    expect(JSON.parse(readFileSync(OVERRIDES_PATH, "utf-8")).overrides).toEqual({});
+  });
+
+  test("refuses pins to nothing or to missing files", () => {
+    const overrides = createOverrides();
+    expect(() => overrides.pin(INTRO, {})).toThrow("Nothing to pin");
+    expect(() => overrides.pin(INTRO, { filePath: path.join(MUSIC_DIR, "gone.mp3") })).toThrow(
+      "No such file",
+    );
+    expect(overrides.list()).toEqual([]);
+    expect(existsSync(OVERRIDES_PATH)).toBe(false);
+  });
+
+  test("drops pinned files once they are gone", () => {
+    const overrides = createOverrides();
+    overrides.pin(INTRO, { filePath: RIGHT, coverPath: COVER });
+    overrides.pin({ title: "Outro" }, { filePath: MATCHED });
+
+    rmSync(RIGHT);
+    const coverOnly = overrides.get(INTRO);
+    expect(coverOnly?.coverPath).toBe(COVER);
+    expect(coverOnly?.filePath).toBeUndefined();
+    rmSync(COVER);
+    expect(overrides.get(INTRO)).toBeNull();
+    rmSync(MATCHED);
+    expect(overrides.list()).toEqual([]);
+    expect(createOverrides().list()).toEqual([]);
+  });
+
+  test("a read-only instance skips gone pins without rewriting the file", () => {
+    const overrides = createOverrides();
+    overrides.pin(INTRO, { filePath: RIGHT });
+    const written = readFileSync(OVERRIDES_PATH, "utf-8");
+
+    rmSync(RIGHT);
+    const readOnly = new MatchOverrides({ path: OVERRIDES_PATH, readOnly: true });
+    expect(readOnly.get(INTRO)).toBeNull();
+    expect(readOnly.list()).toEqual([]);
+    expect(readFileSync(OVERRIDES_PATH, "utf-8")).toBe(written);
+  });
+
+  describe("matching", () => {
+    const originalHome = process.env.HOME;
+
+    beforeEach(() => {
+      process.env.HOME = TEST_DIR;
+      saveConfig({ musicFolders: [MUSIC_DIR] });
+      localFiles.clearCaches();
+    });
+
+    afterEach(() => {
+      localFiles.useMatchOverrides(null);
+      process.env.HOME = originalHome;
+    });
+
+    test("a pinned file wins over matching until it is gone", async () => {
+      expect(await findLocalFile(TRACK_ID)).toBe(MATCHED);
+
+      const overrides = createOverrides();
+      localFiles.useMatchOverrides(overrides);
+      overrides.pin({ ...INTRO, trackId: TRACK_ID }, { filePath: RIGHT });
+      expect(await findLocalFile(TRACK_ID)).toBe(RIGHT);
+
+      const report = await explainMatch({ ...INTRO, trackId: TRACK_ID });
+      expect(report.match?.path).toBe(MATCHED);
+      expect(report.pinned?.filePath).toBe(RIGHT);
+      const text = formatMatchReport(report);
+      expect(text).toContain(`Pinned file: ${RIGHT}`);
+      expect(text).not.toContain("<- picked");
+
+      rmSync(RIGHT);
+      expect(await findLocalFile(TRACK_ID)).toBe(MATCHED);
+      expect(overrides.list()).toEqual([]);
+    });
+  });
+});
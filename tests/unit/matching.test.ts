@@ -0,0 +1,204 @@
+import { describe, expect, test, beforeEach, afterEach, afterAll } from "bun:test";
+import { mkdirSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { LibraryIndex } from "../../src/library-index.ts";
+import { explainMatch, findLocalFile, localFiles, saveConfig } from "../../src/local-files.ts";
+import {
+  acceptMatch,
+  formatMatchReport,
+  rankCandidates,
+  scoreCandidate,
+  scoreCandidates,
+  type MatchCandidate,
+} from "../../src/matching.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-matching-${process.pid}`);
+const MUSIC_DIR = path.join(TEST_DIR, "Music");
+
+const rules = (match: { reasons: { rule: string; points: number }[] } | null) =>
+  match?.reasons.map(({ rule, points }) => [rule, points]);
+
+describe("matching", () => {
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe("scoreCandidate", () => {
+    test("explains the score rule by rule", () => {
+      const match = scoreCandidate(
+        {
+          path: "/Music/Greatest Hits/Intro.flac",
+          tags: { title: "Intro", artist: "The Band", album: "Greatest Hits" },
+          durationMs: 45_400,
+        },
+        { title: "Intro", artist: "The Band", album: "Greatest Hits", durationMs: 45_000 },
+      );
+
+      expect(match).toMatchObject({ score: 175, confidence: 1, by: "tags" });
+      expect(rules(match)).toEqual([
+        ["titleTag", 100],
+        ["artistTag", 20],
+        ["albumTag", 20],
+        ["durationClose", 30],
+        ["lossless", 5],
+      ]);
+      expect(match!.reasons[0].detail).toBe('Title tag "Intro" matches');
+    });
+
+    test("ranks exact names above names equal only without extras", () => {
+      const query = { title: "Song", artist: "Artist" };
+      const exact = scoreCandidate({ path: "/Music/Song.mp3" }, query);
+      const live = scoreCandidate({ path: "/Music/Song (Live).mp3" }, query);
+      const numbered = scoreCandidate({ path: "/Music/Artist - 01. Song.mp3" }, query);
+
+      expect(rules(exact)).toEqual([["titleName", 100]]);
+      expect(rules(live)).toEqual([["titleNameBase", 90]]);
+      expect(rules(numbered)).toEqual([
+        ["nameContainsTitle", 85],
+        ["artistName", 20],
+      ]);
+      expect(scoreCandidate({ path: "/Music/Other.mp3" }, query)).toBeNull();
+    });
+
+    test("counts tags that name another song against the file name", () => {
+      const match = scoreCandidate(
+        { path: "/Music/Intro.mp3", tags: { title: "Outro" } },
+        { title: "Intro" },
+      );
+      expect(rules(match)).toEqual([
+        ["titleName", 100],
+        ["tagTitleMismatch", -30],
+      ]);
+      expect(match!.by).toBe("filename");
+    });
+
+    test("uses album folders and penalizes other lengths", () => {
+      const match = scoreCandidate(
+        { path: "/Music/Greatest Hits (Remastered)/CD1/Intro.mp3", durationMs: 90_000 },
+        { title: "Intro", album: "Greatest Hits", durationMs: 45_000 },
+      );
+      expect(rules(match)).toEqual([
+        ["titleName", 100],
+        ["albumFolderPartial", 10],
+        ["durationOff", -30],
+      ]);
+      expect(match!.confidence).toBe(0.8);
+    });
+  });
+
+  test("points can be configured", () => {
+    const candidates = [{ path: "/Music/Song.mp3" }, { path: "/Music/Song.flac" }];
+    const ranked = scoreCandidates(candidates, { title: "Song" }, { points: { lossless: -50 } });
+    expect(ranked.map((match) => [match.path, match.score])).toEqual([
+      ["/Music/Song.mp3", 100],
+      ["/Music/Song.flac", 50],
+    ]);
+  });
+
+  test("reads durations only for candidates close to the best", async () => {
+    const candidates: MatchCandidate[] = [
+      { path: "/Music/Dance (Club Mix).mp3" },
+      { path: "/Music/Dance.mp3" },
+      { path: "/Music/Dance Dance Megamix.mp3", tags: { title: "Megamix" } },
+      { path: "/Music/Live/Dance.mp3", durationMs: null },
+    ];
+    const read: string[] = [];
+    const loadDuration = async (filePath: string) => {
+      read.push(filePath);
+      return filePath.includes("Club") ? 45_000 : 30_000;
+    };
+
+    const query = { title: "Dance", durationMs: 45_000 };
+    const ranked = await rankCandidates(candidates, query, { loadDuration });
+    expect(ranked[0].path).toBe("/Music/Dance (Club Mix).mp3");
+    // The megamix is too far behind, and the live take's length is unreadable
+    expect(read).toEqual(["/Music/Dance.mp3", "/Music/Dance (Club Mix).mp3"]);
+
+    read.length = 0;
+    await rankCandidates(candidates, { title: "Dance" }, { loadDuration });
+    expect(read).toEqual([]);
+  });
+
+  test("rejects matches below the confidence threshold", () => {
+    const ranked = scoreCandidates([{ path: "/Music/Intro.mp3", durationMs: 200_000 }], {
+      title: "Intro",
+      durationMs: 60_000,
+    });
+    expect(ranked[0].confidence).toBe(0.7);
+    expect(acceptMatch(ranked, { title: "Intro" }, 0.8)).toBeNull();
+    expect(acceptMatch(ranked, { title: "Intro" }, 0.5)?.path).toBe("/Music/Intro.mp3");
+    expect(acceptMatch([], { title: "Intro" })).toBeNull();
+  });
+
+  describe("explainMatch", () => {
+    const originalHome = process.env.HOME;
+
+    beforeEach(() => {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+      mkdirSync(path.join(MUSIC_DIR, "Album"), { recursive: true });
+      process.env.HOME = TEST_DIR;
+      saveConfig({ musicFolders: [MUSIC_DIR] });
+      localFiles.clearCaches();
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+    });
+
+    test("reports every candidate with its reasons", async () => {
+      writeFileSync(path.join(MUSIC_DIR, "Album", "Intro.mp3"), "dummy");
+      writeFileSync(path.join(MUSIC_DIR, "Intro (Live).mp3"), "dummy");
+
+      const report = await explainMatch({ title: "Intro", album: "Album" });
+      expect(report.searched).toEqual(["spotify", "folders"]);
+      const scores = report.candidates.map((match) => [path.relative(MUSIC_DIR, match.path), match.score]);
+      expect(scores).toEqual([
+        ["Album/Intro.mp3", 120],
+        ["Intro (Live).mp3", 90],
+      ]);
+      expect(report.match).toBe(report.candidates[0]);
+
+      const text = formatMatchReport(report);
+      expect(text).toContain("Searched: spotify, folders");
+      expect(text).toContain("Album/Intro.mp3  <- picked");
+      expect(text).toContain('+20  Folder "Album" is named after the album');
+    });
+
+    test("a configured threshold keeps weak matches from being used", async () => {
+      writeFileSync(path.join(MUSIC_DIR, "Intro and Outro Medley.mp3"), "dummy");
+      const trackId = "spotify:local:Artist:Album:Intro:60";
+      expect(await findLocalFile(trackId)).toEndWith("Intro and Outro Medley.mp3");
+
+      saveConfig({ musicFolders: [MUSIC_DIR], matching: { minConfidence: 0.9 } });
+      expect(await findLocalFile(trackId)).toBeNull();
+      const report = await explainMatch({ title: "Intro" });
+      expect(report).toMatchObject({ match: null, minConfidence: 0.9 });
+      expect(report.candidates[0].confidence).toBe(0.85);
+      expect(formatMatchReport(report)).toContain("below the confidence threshold (0.9)");
+    });
+
+    test("caches the file found per track until the files change", async () => {
+      const trackId = "spotify:local:Artist:Album:Intro:60";
+      writeFileSync(path.join(MUSIC_DIR, "Intro (Live).mp3"), "dummy");
+      expect(await findLocalFile(trackId)).toEndWith("Intro (Live).mp3");
+
+      writeFileSync(path.join(MUSIC_DIR, "Album", "Intro.mp3"), "dummy");
+      expect(await findLocalFile(trackId)).toEndWith("Intro (Live).mp3");
+      localFiles.notifyChange();
+      expect(await findLocalFile(trackId)).toEndWith(path.join("Album", "Intro.mp3"));
+
+      // A cached file that is gone is looked up again
+      renameSync(path.join(MUSIC_DIR, "Album", "Intro.mp3"), path.join(MUSIC_DIR, "Album", "Intro.flac"));
+      expect(await findLocalFile(trackId)).toEndWith(path.join("Album", "Intro.flac"));
+    });
+
+    test("doesn't walk the folders while the library index is being built", async () => {
+      writeFileSync(path.join(MUSIC_DIR, "Album", "Intro.mp3"), "dummy");
+      const library = new LibraryIndex(":memory:");
+      const report = await explainMatch({ title: "Intro" }, library);
+      library.close();
+      expect(report).toMatchObject({ searched: ["spotify"], candidates: [], match: null });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import dbus from "dbus-next";
+import {
+  MprisSource,
+  MPRIS_ANY_PLAYER,
+  parseMprisState,
+  toTrackId,
+} from "../../src/mpris.ts";
+import { SpotifyClient, type PlayerSource } from "../../src/spotify.ts";
+
+const { Interface, ACCESS_READ } = dbus.interface;
+const { Variant } = dbus;
+
+const HAS_DBUS = Bun.which("dbus-daemon") !== null;
+
+interface FakeTrack {
+  trackId: string;
+  title: string;
+  artists: string[];
+  album: string;
+  lengthUs: bigint;
+  url?: string;
+  artUrl?: string;
+}
+
+// Minimal org.mpris.MediaPlayer2.Player implementation for tests
+class FakePlayer extends Interface {
+  status = "Playing";
+  positionUs = 0n;
+  track: FakeTrack | null = null;
+
+  get PlaybackStatus() {
+    return this.status;
+  }
+
+  get Position() {
+    return this.positionUs;
+  }
+
+  get Metadata() {
+    if (!this.track) return {};
+    const metadata: Record<string, InstanceType<typeof Variant>> = {
+      "mpris:trackid": new Variant("o", this.track.trackId),
+      "mpris:length": new Variant("t", this.track.lengthUs),
+      "xesam:title": new Variant("s", this.track.title),
+      "xesam:artist": new Variant("as", this.track.artists),
+      "xesam:album": new Variant("s", this.track.album),
+    };
+    if (this.track.url) metadata["xesam:url"] = new Variant("s", this.track.url);
+    if (this.track.artUrl) metadata["mpris:artUrl"] = new Variant("s", this.track.artUrl);
+    return metadata;
+  }
+}
+
+FakePlayer.configureMembers({
+  properties: {
+    PlaybackStatus: { signature: "s", access: ACCESS_READ },
+    Position: { signature: "x", access: ACCESS_READ },
+    Metadata: { signature: "a{sv}", access: ACCESS_READ },
+  },
+});
+
+async function startFakePlayer(busAddress: string, name: string) {
+  const bus = dbus.sessionBus({ busAddress });
+  const player = new FakePlayer("org.mpris.MediaPlayer2.Player");
+  bus.export("/org/mpris/MediaPlayer2", player);
+  await bus.requestName(`org.mpris.MediaPlayer2.${name}`, 0);
+  return { bus, player };
+}
+
+describe("MPRIS", () => {
+  describe("toTrackId", () => {
+    test("maps Spotify object paths to spotify: URIs", () => {
+      const id = toTrackId({
+        "mpris:trackid": new Variant("o", "/com/spotify/track/4iV5W9uYEdYUVa79Axb7Rh"),
+      });
+      expect(id).toBe("spotify:track:4iV5W9uYEdYUVa79Axb7Rh");
+    });
+
+    test("maps open.spotify.com local URLs to spotify:local: URIs", () => {
+      const id = toTrackId({
+        "mpris:trackid": new Variant("o", "/org/mpris/MediaPlayer2/TrackList/NoTrack"),
+        "xesam:url": new Variant("s", "https://open.spotify.com/local/Test+Artist/Test+Album/Test+Song+One/30"),
+      });
+      expect(id).toBe("spotify:local:Test+Artist:Test+Album:Test+Song+One:30");
+    });
+
+    test("synthesizes a local ID for file:// tracks from other players", () => {
+      const id = toTrackId({
+        "mpris:trackid": new Variant("o", "/org/mpv/track/1"),
+        "mpris:length": new Variant("x", 180_000_000n),
+        "xesam:url": new Variant("s", "file:///music/Song.flac"),
+        "xesam:title": new Variant("s", "My Song"),
+        "xesam:artist": new Variant("as", ["Cool Band"]),
+        "xesam:album": new Variant("s", "Great Album"),
+      });
+      expect(id).toBe("spotify:local:Cool+Band:Great+Album:My+Song:180");
+    });
+  });
+
+  describe("parseMprisState", () => {
+    test("converts microseconds and playback status", () => {
+      const state = parseMprisState({
+        PlaybackStatus: new Variant("s", "Paused"),
+        Position: new Variant("x", 15_500_000n),
+        Metadata: new Variant("a{sv}", {
+          "mpris:trackid": new Variant("o", "/com/spotify/track/abc123"),
+          "mpris:length": new Variant("t", 221_929_000n),
+          "xesam:title": new Variant("s", "Mrs Magic"),
+          "xesam:artist": new Variant("as", ["Strawberry Guy"]),
+          "xesam:album": new Variant("s", "F Song & Mrs Magic"),
+          "mpris:artUrl": new Variant("s", "https://i.scdn.co/image/abc"),
+        }),
+      });
+
+      expect(state.isRunning).toBe(true);
+      if (!state.isRunning) return;
+      expect(state.state).toBe("paused");
+      expect(state.positionMs).toBe(15500);
+      expect(state.track.durationMs).toBe(221929);
+      expect(state.track.source).toBe("spotify");
+      expect(state.track.artworkUrl).toBe("https://i.scdn.co/image/abc");
+    });
+
+    test("returns not running when there is no track", () => {
+      const state = parseMprisState({
+        PlaybackStatus: new Variant("s", "Stopped"),
+        Metadata: new Variant("a{sv}", {}),
+      });
+      expect(state.isRunning).toBe(false);
+    });
+  });
+
+  describe.skipIf(!HAS_DBUS)("MprisSource against a local session bus", () => {
+    let daemon: ReturnType<typeof Bun.spawn>;
+    let busAddress = "";
+
+    beforeAll(async () => {
+      daemon = Bun.spawn(["dbus-daemon", "--session", "--nofork", "--print-address=1"], {
+        stdout: "pipe",
+        stderr: "ignore",
+      });
+      const reader = (daemon.stdout as ReadableStream<Uint8Array>).getReader();
+      const { value } = await reader.read();
+      reader.releaseLock();
+      busAddress = new TextDecoder().decode(value).trim().split("\n")[0];
+    });
+
+    afterAll(() => {
+      daemon?.kill();
+    });
+
+    test("reports not running when the player is absent", async () => {
+      const source = new MprisSource({ busAddress });
+      try {
+        const state = await source.getState();
+        expect(state.isRunning).toBe(false);
+      } finally {
+        source.dispose();
+      }
+    });
+
+    test("reads the Spotify player's state", async () => {
+      const fake = await startFakePlayer(busAddress, "spotify");
+      fake.player.positionUs = 42_000_000n;
+      fake.player.track = {
+        trackId: "/com/spotify/track/abc123",
+        title: "Test Song",
+        artists: ["Test Artist"],
+        album: "Test Album",
+        lengthUs: 200_000_000n,
+      };
+
+      const source = new MprisSource({ busAddress });
+      try {
+        const state = await source.getState();
+        expect(state.isRunning).toBe(true);
+        if (!state.isRunning) return;
+        expect(state.state).toBe("playing");
+        expect(state.positionMs).toBe(42000);
+        expect(state.track.id).toBe("spotify:track:abc123");
+        expect(state.track.title).toBe("Test Song");
+        expect(state.track.durationMs).toBe(200000);
+      } finally {
+        source.dispose();
+        fake.bus.disconnect();
+      }
+    });
+
+    test("introspects a player once, until it restarts", async () => {
+      const track = (title: string): FakeTrack => ({
+        trackId: `/com/spotify/track/${title}`,
+        title,
+        artists: ["Test Artist"],
+        album: "Test Album",
+        lengthUs: 60_000_000n,
+      });
+      let fake = await startFakePlayer(busAddress, "spotify");
+      fake.player.track = track("before");
+
+      // Every MessageBus shares the prototype; count the source's introspections
+      const proto = Object.getPrototypeOf(fake.bus) as dbus.MessageBus;
+      const getProxyObject = proto.getProxyObject;
+      const introspected: string[] = [];
+      proto.getProxyObject = function (
+        this: dbus.MessageBus,
+        name: string,
+        path: string,
+        xml?: string,
+      ) {
+        introspected.push(name);
+        return getProxyObject.call(this, name, path, xml);
+      };
+
+      const source = new MprisSource({ busAddress });
+      try {
+        await source.getState();
+        await source.getState();
+        expect(introspected).toEqual(["org.freedesktop.DBus", "org.mpris.MediaPlayer2.spotify"]);
+
+        fake.bus.disconnect();
+        fake = await startFakePlayer(busAddress, "spotify");
+        fake.player.track = track("after");
+        const state = await source.getState();
+        expect(state.isRunning && state.track.title).toBe("after");
+        expect(introspected).toHaveLength(3);
+      } finally {
+        proto.getProxyObject = getProxyObject;
+        source.dispose();
+        fake.bus.disconnect();
+      }
+    });
+
+    test("auto mode prefers the player that is playing", async () => {
+      const paused = await startFakePlayer(busAddress, "vlc");
+      paused.player.status = "Paused";
+      paused.player.track = {
+        trackId: "/org/videolan/track/1",
+        title: "Paused Song",
+        artists: ["Someone"],
+        album: "Somewhere",
+        lengthUs: 100_000_000n,
+        url: "file:///music/paused.mp3",
+      };
+      const playing = await startFakePlayer(busAddress, "mpv");
+      playing.player.track = {
+        trackId: "/org/mpv/track/2",
+        title: "Playing Song",
+        artists: ["Cool Band"],
+        album: "Great Album",
+        lengthUs: 180_000_000n,
+        url: "file:///music/playing.flac",
+      };
+
+      const source = new MprisSource({ busAddress, player: MPRIS_ANY_PLAYER });
+      try {
+        const state = await source.getState();
+        expect(state.isRunning).toBe(true);
+        if (!state.isRunning) return;
+        expect(state.track.title).toBe("Playing Song");
+        expect(state.track.source).toBe("local");
+        expect(state.track.id).toBe("spotify:local:Cool+Band:Great+Album:Playing+Song:180");
+      } finally {
+        source.dispose();
+        paused.bus.disconnect();
+        playing.bus.disconnect();
+      }
+    });
+
+    test("SpotifyClient polls through the configured source", async () => {
+      const fake = await startFakePlayer(busAddress, "spotify");
+      fake.player.track = {
+        trackId: "/com/spotify/track/xyz",
+        title: "Client Song",
+        artists: ["Client Artist"],
+        album: "Client Album",
+        lengthUs: 60_000_000n,
+      };
+
+      const client = new SpotifyClient(new MprisSource({ busAddress }));
+      try {
+        expect(client.sourceKind).toBe("mpris");
+        const track = await client.getCurrentTrack();
+        expect(track?.title).toBe("Client Song");
+        expect(await client.isPlaying()).toBe(true);
+      } finally {
+        client.setSource({ kind: "applescript", getState: async () => ({ isRunning: false }) } satisfies PlayerSource);
+        fake.bus.disconnect();
+      }
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { extractPalette } from "../../src/palette.ts";
+
+type Rgb = [number, number, number];
+
+// RGB pixels with each color repeated count times
+function pixels(...runs: [Rgb, number][]): Uint8Array {
+  const data: number[] = [];
+  for (const [color, count] of runs) {
+    for (let i = 0; i < count; i++) data.push(...color);
+  }
+  return new Uint8Array(data);
+}
+
+const GRAY: Rgb = [120, 120, 120];
+const RED: Rgb = [220, 30, 30];
+const DARK_BLUE: Rgb = [10, 20, 60];
+const YELLOW: Rgb = [250, 230, 40];
+
+describe("Palette", () => {
+  test("a single color is dominant and vibrant", () => {
+    expect(extractPalette(pixels([RED, 100]))).toEqual({
+      dominant: "#dc1e1e",
+      vibrant: "#dc1e1e",
+      onVibrant: "#ffffff",
+      colors: ["#dc1e1e"],
+    });
+  });
+
+  test("the most common color is dominant, the saturated one vibrant", () => {
+    const palette = extractPalette(pixels([GRAY, 70], [RED, 30]));
+    expect(palette?.dominant).toBe("#787878");
+    expect(palette?.vibrant).toBe("#dc1e1e");
+    expect(palette?.colors).toEqual(["#787878", "#dc1e1e"]);
+  });
+
+  test("grayscale covers use the dominant color as vibrant", () => {
+    const palette = extractPalette(pixels([GRAY, 60], [[20, 20, 20], 40]));
+    expect(palette?.vibrant).toBe(palette!.dominant);
+  });
+
+  test("ignores vibrant specks", () => {
+    const palette = extractPalette(pixels([DARK_BLUE, 995], [RED, 5]));
+    expect(palette?.vibrant).toBe("#0a143c");
+  });
+
+  test("similar shades count as one palette color", () => {
+    const palette = extractPalette(pixels([RED, 50], [[225, 35, 35], 50], [DARK_BLUE, 20]));
+    expect(palette?.colors).toHaveLength(2);
+  });
+
+  test("picks dark text on light colors", () => {
+    expect(extractPalette(pixels([YELLOW, 10]))?.onVibrant).toBe("#111111");
+  });
+
+  test("an empty image has no palette", () => {
+    expect(extractPalette(new Uint8Array())).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { perceptualHash } from "../../src/cover.ts";
+import { differenceHash, hammingDistance, DEFAULT_MAX_DISTANCE } from "../../src/perceptual-hash.ts";
+
+// Diagonal gradient with a bright square, as RGB pixels
+function artwork(size: number): Buffer {
+  const pixels = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 3;
+      const inSquare = x > size / 4 && x < size / 2 && y > size / 3 && y < (size * 2) / 3;
+      pixels[i] = inSquare ? 250 : Math.round((x / size) * 200);
+      pixels[i + 1] = inSquare ? 240 : Math.round((y / size) * 120);
+      pixels[i + 2] = inSquare ? 230 : 90;
+    }
+  }
+  return pixels;
+}
+
+async function jpeg(size: number, quality: number): Promise<Uint8Array> {
+  const raw = artwork(size);
+  return new Uint8Array(
+    await sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg({ quality }).toBuffer(),
+  );
+}
+
+describe("Perceptual hash", () => {
+  test("hashes to 16 hex digits and is null for an empty image", () => {
+    const hash = differenceHash({ width: 64, height: 64, data: new Uint8Array(artwork(64)) });
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(differenceHash({ width: 0, height: 0, data: new Uint8Array() })).toBeNull();
+  });
+
+  test("a flat image hashes to zero", () => {
+    const gray = new Uint8Array(32 * 32 * 3).fill(128);
+    expect(differenceHash({ width: 32, height: 32, data: gray })).toBe("0000000000000000");
+  });
+
+  test("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+
+  test("re-encoded and resized copies of the same art stay close", async () => {
+    const original = await perceptualHash(await jpeg(400, 95));
+    const copy = await perceptualHash(await jpeg(300, 40));
+    expect(original).not.toBeNull();
+    expect(hammingDistance(original!, copy!)).toBeLessThanOrEqual(DEFAULT_MAX_DISTANCE);
+  });
+
+  test("different art is far apart", async () => {
+    const art = await perceptualHash(await jpeg(200, 90));
+    const mirrored = new Uint8Array(await sharp(await jpeg(200, 90)).flop().toBuffer());
+    const flipped = await perceptualHash(mirrored);
+    expect(hammingDistance(art!, flipped!)).toBeGreaterThan(DEFAULT_MAX_DISTANCE);
+  });
+
+  test("undecodable data has no hash", async () => {
+    expect(await perceptualHash(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import {
+  evaluatePrivacy,
+  validatePrivacyRules,
+  type PrivacyRule,
+} from "../../src/privacy.ts";
+import { PresenceService } from "../../src/presence.ts";
+import type { PlaybackState, Track } from "../../src/spotify.ts";
+
+const spotifyTrack: Track = {
+  title: "Mrs Magic",
+  artist: "Strawberry Guy",
+  album: "F Song & Mrs Magic",
+  durationMs: 221929,
+  id: "spotify:track:abc123",
+  source: "spotify",
+  artworkUrl: "https://i.scdn.co/image/abc",
+};
+
+const localTrack: Track = {
+  title: "Interlude (Demo)",
+  artist: "Cool Band feat. Someone",
+  album: "Secret Tapes",
+  durationMs: 30000,
+  id: "spotify:local:Cool+Band:Secret+Tapes:Interlude:30",
+  source: "local",
+};
+
+function playing(track: Track): PlaybackState {
+  return { isRunning: true, track, positionMs: 1000, state: "playing" };
+}
+
+describe("Privacy Rules", () => {
+  describe("evaluatePrivacy", () => {
+    test("returns null when no rule matches", () => {
+      const rules: PrivacyRule[] = [{ action: "hide", match: { artist: "Nobody" } }];
+      expect(evaluatePrivacy(rules, spotifyTrack)).toBeNull();
+    });
+
+    test("matches artist case-insensitively, including featured artists", () => {
+      const rules: PrivacyRule[] = [{ action: "hide", match: { artist: "someone" } }];
+      expect(evaluatePrivacy(rules, localTrack)?.action).toBe("hide");
+      expect(evaluatePrivacy([{ action: "hide", match: { artist: "STRAWBERRY GUY" } }], spotifyTrack)?.action).toBe("hide");
+    });
+
+    test("matches album, title regex, source and URI", () => {
+      expect(evaluatePrivacy([{ action: "generic", match: { album: "secret tapes" } }], localTrack)?.action).toBe("generic");
+      expect(evaluatePrivacy([{ action: "generic", match: { title: "^interlude" } }], localTrack)?.action).toBe("generic");
+      expect(evaluatePrivacy([{ action: "generic", match: { source: "local" } }], spotifyTrack)).toBeNull();
+      expect(evaluatePrivacy([{ action: "hide", match: { uri: "spotify:track:abc123" } }], spotifyTrack)?.action).toBe("hide");
+    });
+
+    test("matches local folders by path prefix", () => {
+      const rules: PrivacyRule[] = [{ action: "hide-cover", match: { folder: "/music/private" } }];
+      expect(evaluatePrivacy(rules, localTrack, "/music/private/a/song.mp3")?.action).toBe("hide-cover");
+      expect(evaluatePrivacy(rules, localTrack, "/music/private-ish/song.mp3")).toBeNull();
+      expect(evaluatePrivacy(rules, localTrack, null)).toBeNull();
+    });
+
+    test("requires all conditions of a rule to match", () => {
+      const rules: PrivacyRule[] = [
+        { action: "hide", match: { artist: "Strawberry Guy", source: "local" } },
+      ];
+      expect(evaluatePrivacy(rules, spotifyTrack)).toBeNull();
+    });
+
+    test("strictest action wins", () => {
+      const rules: PrivacyRule[] = [
+        { action: "hide-cover", match: { source: "local" } },
+        { action: "hide", match: { album: "Secret Tapes" } },
+        { action: "generic", match: { title: "Interlude" } },
+      ];
+      expect(evaluatePrivacy(rules, localTrack)?.action).toBe("hide");
+    });
+
+    test("skips disabled rules and rules without conditions", () => {
+      const rules: PrivacyRule[] = [
+        { action: "hide", enabled: false, match: { source: "spotify" } },
+        { action: "hide", match: {} },
+        { action: "hide", match: { artist: "" } },
+      ];
+      expect(evaluatePrivacy(rules, spotifyTrack)).toBeNull();
+    });
+  });
+
+  describe("validatePrivacyRules", () => {
+    test("reports invalid rules", () => {
+      const errors = validatePrivacyRules([
+        { action: "hide", match: { artist: "ok" } },
+        { action: "explode" as never, match: { artist: "x" } },
+        { action: "hide", match: {} },
+        { action: "hide", match: { title: "(unclosed" } },
+      ]);
+      expect(errors.map((e) => e.index)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe("PresenceService integration", () => {
+    let service: PresenceService | null = null;
+
+    afterEach(() => {
+      service?.destroy();
+      service = null;
+    });
+
+    test("hide returns no activity", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "hide", match: { artist: "Strawberry Guy" } }],
+      });
+      expect(await service.buildActivity(playing(spotifyTrack), null)).toBeNull();
+    });
+
+    test("generic shows a generic activity without track details", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "generic", match: { source: "spotify" } }],
+      });
+      const activity = await service.buildActivity(playing(spotifyTrack), "https://cdn/cover.jpg");
+      expect(activity?.details).toBe("Listening to music");
+      expect(activity?.state).toBeUndefined();
+      expect(activity?.largeImageKey).toBe("spotify");
+      expect(activity?.startTimestamp).toBeUndefined();
+    });
+
+    test("hide-cover keeps text but drops cover and album", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "hide-cover", match: { source: "spotify" } }],
+      });
+      expect(await service.getCoverUrl(spotifyTrack)).toBeNull();
+
+      const activity = await service.buildActivity(playing(spotifyTrack), null);
+      expect(activity?.details).toBe("Mrs Magic");
+      expect(activity?.largeImageKey).toBe("spotify");
+      expect(activity?.largeImageText).toBeUndefined();
+    });
+
+    test("hide-cover keeps the album out of templates and buttons", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "hide-cover", match: { source: "spotify" } }],
+        templates: { details: "{title}[ from {album}]", state: "{artist} · {album}" },
+        buttons: [
+          { label: "Listen on Spotify", url: "{spotifyUrl}" },
+          { label: "Album on Bandcamp", url: "https://bandcamp.com/search?q={album}" },
+          { label: "Find on Bandcamp", url: "https://bandcamp.com/search?q={artist} {title}" },
+        ],
+      });
+
+      const activity = await service.buildActivity(playing(spotifyTrack), null);
+      expect(activity?.details).toBe("Mrs Magic");
+      expect(activity?.state).not.toContain("F Song");
+      expect(activity?.buttons?.map((button) => button.label)).toEqual(["Find on Bandcamp"]);
+    });
+
+    test("unmatched tracks are unaffected", async () => {
+      service = new PresenceService({
+        privacyRules: [{ action: "hide", match: { artist: "Nobody" } }],
+      });
+      expect(await service.getCoverUrl(spotifyTrack)).toBe("https://i.scdn.co/image/abc");
+      const activity = await service.buildActivity(playing(spotifyTrack), spotifyTrack.artworkUrl ?? null);
+      expect(activity?.largeImageKey).toBe("https://i.scdn.co/image/abc");
+      expect(activity?.largeImageText).toBe("F Song & Mrs Magic");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { copyFileSync, mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CoverCache } from "../../src/cover-cache.ts";
+import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
+import { localFiles } from "../../src/local-files.ts";
+import { PresenceService } from "../../src/presence.ts";
+import { isAbortError, SingleFlight } from "../../src/single-flight.ts";
+import type { Track } from "../../src/spotify.ts";
+import { mockFetch, restoreFetch } from "./helpers.ts";
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("SingleFlight", () => {
+  test("concurrent calls share one run", async () => {
+    const flights = new SingleFlight<string>();
+    const pending = deferred<string>();
+    let runs = 0;
+    const fn = () => {
+      runs++;
+      return pending.promise;
+    };
+
+    const first = flights.run("a", fn);
+    const second = flights.run("a", fn);
+    await settle();
+    expect(runs).toBe(1);
+    expect(flights.has("a")).toBe(true);
+
+    pending.resolve("done");
+    expect(await Promise.all([first, second])).toEqual(["done", "done"]);
+    expect(flights.size).toBe(0);
+  });
+
+  test("different keys run separately and finished keys run again", async () => {
+    const flights = new SingleFlight<number>();
+    let runs = 0;
+    const fn = async () => ++runs;
+
+    await Promise.all([flights.run("a", fn), flights.run("b", fn)]);
+    expect(runs).toBe(2);
+    expect(await flights.run("a", fn)).toBe(3);
+  });
+
+  test("errors reach every caller and clear the key", async () => {
+    const flights = new SingleFlight<string>();
+    const fn = async () => {
+      throw new Error("boom");
+    };
+
+    const results = await Promise.allSettled([flights.run("a", fn), flights.run("a", fn)]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(flights.has("a")).toBe(false);
+  });
+
+  test("an aborted caller leaves while others keep waiting", async () => {
+    const flights = new SingleFlight<string>();
+    const pending = deferred<string>();
+    let flightSignal: AbortSignal | undefined;
+    const fn = (signal: AbortSignal) => {
+      flightSignal = signal;
+      return pending.promise;
+    };
+
+    const controller = new AbortController();
+    const leaving = flights.run("a", fn, controller.signal);
+    const staying = flights.run("a", fn);
+    await settle();
+
+    controller.abort();
+    const error = await leaving.catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(flightSignal?.aborted).toBe(false);
+
+    pending.resolve("done");
+    expect(await staying).toBe("done");
+  });
+
+  test("the run is aborted once every caller has left", async () => {
+    const flights = new SingleFlight<string>();
+    let flightSignal: AbortSignal | undefined;
+    const fn = (signal: AbortSignal) => {
+      flightSignal = signal;
+      return new Promise<string>(() => {});
+    };
+
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = flights.run("a", fn, a.signal).catch((e) => e);
+    const second = flights.run("a", fn, b.signal).catch((e) => e);
+    await settle();
+
+    a.abort();
+    b.abort();
+    expect(isAbortError(await first)).toBe(true);
+    expect(isAbortError(await second)).toBe(true);
+    expect(flightSignal?.aborted).toBe(true);
+    expect(flights.has("a")).toBe(false);
+  });
+
+  test("an already aborted signal rejects without running", async () => {
+    const flights = new SingleFlight<string>();
+    let runs = 0;
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await flights
+      .run("a", async () => String(++runs), controller.signal)
+      .catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(runs).toBe(0);
+  });
+
+  describe("PresenceService with a slow CDN", () => {
+    const TEST_DIR = path.join(tmpdir(), `tini-single-flight-${process.pid}`);
+    const FIRST_PATH = path.join(TEST_DIR, "Music", "Test Song One.mp3");
+    const SECOND_PATH = path.join(TEST_DIR, "Music", "Test Song One Copy.mp3");
+    const CACHE_PATH = path.join(TEST_DIR, "cover-cache.json");
+
+    const track = (title: string): Track => ({
+      title,
+      artist: "Test Artist",
+      album: "Test Album",
+      durationMs: 1000,
+      id: `spotify:local:Test+Artist:Test+Album:${encodeURIComponent(title)}:1`,
+      source: "local",
+    });
+    const first = track("Test Song One");
+    const second = track("Test Song One Copy");
+
+    const originalFindFile = localFiles.findFile;
+    let puts: string[] = [];
+    let aborted = 0;
+    let finishPut: () => void = () => {};
+    let service: PresenceService | null = null;
+
+    beforeAll(() => {
+      setTestIdentity(TEST_IDENTITY);
+      rmSync(TEST_DIR, { recursive: true, force: true });
+      mkdirSync(path.dirname(FIRST_PATH), { recursive: true });
+      const source = path.join(import.meta.dir, "../../test-music/Test Song One.mp3");
+      copyFileSync(source, FIRST_PATH);
+      copyFileSync(source, SECOND_PATH);
+    });
+
+    afterAll(() => {
+      resetIdentity();
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+      puts = [];
+      aborted = 0;
+      rmSync(CACHE_PATH, { force: true });
+      localFiles.findFile = async (id: string) => (id === second.id ? SECOND_PATH : FIRST_PATH);
+      // HEAD says "missing"; PUT hangs until the test lets it finish
+      mockFetch(async (url: string, options?: RequestInit) => {
+        if (options?.method === "HEAD") return new Response(null, { status: 404 });
+        puts.push(String(url));
+        return new Promise<Response>((resolve, reject) => {
+          finishPut = () => resolve(new Response(`${String(url).split("?")[0]}\n`));
+          options?.signal?.addEventListener("abort", () => {
+            aborted++;
+            reject(options.signal?.reason);
+          });
+        });
+      });
+      service = new PresenceService({
+        upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+        // A track whose extraction finishes after the upload finds the URL here
+        coverCache: new CoverCache({ path: CACHE_PATH }),
+      });
+    });
+
+    afterEach(() => {
+      service?.destroy();
+      service = null;
+      restoreFetch();
+      localFiles.findFile = originalFindFile;
+    });
+
+    async function waitForPut(count = 1) {
+      for (let i = 0; i < 200 && puts.length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    }
+
+    test("repeated lookups during an upload send exactly one PUT", async () => {
+      const lookups = [1, 2, 3].map(() => service!.getCoverUrl(first));
+      await waitForPut();
+      // Another state update arrives mid-upload
+      lookups.push(service!.getCoverUrl(first));
+      await settle();
+      expect(puts).toHaveLength(1);
+
+      finishPut();
+      const urls = await Promise.all(lookups);
+      expect(new Set(urls).size).toBe(1);
+      expect(urls[0]).toStartWith("https://cdn.example.com/cdn");
+      expect(puts).toHaveLength(1);
+    });
+
+    test("tracks with the same artwork share one upload", async () => {
+      const lookups = [service!.getCoverUrl(first), service!.getCoverUrl(second)];
+      await waitForPut();
+      await settle();
+      expect(puts).toHaveLength(1);
+
+      finishPut();
+      const [a, b] = await Promise.all(lookups);
+      expect(a).toBe(b);
+      expect(puts).toHaveLength(1);
+    });
+
+    test("changing track cancels the upload without caching a result", async () => {
+      const controller = new AbortController();
+      const lookup = service!.getCoverUrl(first, controller.signal);
+      await waitForPut();
+
+      controller.abort();
+      expect(await lookup).toBeNull();
+      expect(aborted).toBe(1);
+
+      // Nothing was cached, so the next lookup uploads again
+      const retry = service!.getCoverUrl(first);
+      await waitForPut(2);
+      await settle();
+      expect(puts).toHaveLength(2);
+      finishPut();
+      expect(await retry).toStartWith("https://cdn.example.com/cdn");
+    });
+  });
+});
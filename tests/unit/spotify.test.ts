@@ -1,10 +1,35 @@
 import { describe, expect, test } from "bun:test";
 import {
+  PlaybackTracker,
+  SpotifyClient,
+  type PlaybackEvent,
+  type PlayerSource,
   type SpotifyState,
   type Track,
   type PlaybackState,
 } from "../../src/spotify.ts";
 
+function makeState(
+  overrides: Partial<Omit<PlaybackState, "track">> & { track?: Partial<Track> } = {}
+): PlaybackState {
+  return {
+    isRunning: true,
+    positionMs: overrides.positionMs ?? 0,
+    state: overrides.state ?? "playing",
+    track: {
+      title: "Test Song",
+      artist: "Test Artist",
+      album: "Test Album",
+      durationMs: 200000,
+      id: "spotify:track:test",
+      source: "spotify",
+      ...overrides.track,
+    },
+  };
+}
+
+const types = (events: PlaybackEvent[]) => events.map((e) => e.type);
+
 describe("Spotify Client", () => {
   describe("parseNumber", () => {
     const parseNumber = (value: string): number =>
@@ -182,4 +207,159 @@ describe("Spotify Client", () => {
       expect(endTimestamp - startTimestamp).toBe(180000);
     });
   });
+
+  describe("PlaybackTracker", () => {
+    test("announces the player and first track", () => {
+      const tracker = new PlaybackTracker();
+      expect(types(tracker.update(makeState(), 0))).toEqual([
+        "playerOpened",
+        "trackChanged",
+      ]);
+    });
+
+    test("emits nothing during steady playback", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState({ positionMs: 10000 }), 0);
+
+      // Position advances in step with the wall clock
+      expect(tracker.update(makeState({ positionMs: 11000 }), 1000)).toEqual([]);
+      expect(tracker.update(makeState({ positionMs: 12100 }), 2000)).toEqual([]);
+      expect(tracker.update(makeState({ positionMs: 12900 }), 3000)).toEqual([]);
+    });
+
+    test("detects seeks from position drift", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState({ positionMs: 10000 }), 0);
+
+      const forward = tracker.update(makeState({ positionMs: 60000 }), 1000);
+      expect(types(forward)).toEqual(["seeked"]);
+      expect(forward[0].type === "seeked" && forward[0].driftMs).toBe(49000);
+
+      const backward = tracker.update(makeState({ positionMs: 0 }), 2000);
+      expect(types(backward)).toEqual(["seeked"]);
+    });
+
+    test("detects seeks while paused", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState({ positionMs: 10000, state: "paused" }), 0);
+
+      // Paused position does not advance with the clock
+      expect(tracker.update(makeState({ positionMs: 10000, state: "paused" }), 5000)).toEqual([]);
+      expect(types(tracker.update(makeState({ positionMs: 90000, state: "paused" }), 6000))).toEqual(["seeked"]);
+    });
+
+    test("emits paused, resumed and stopped", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState({ positionMs: 0 }), 0);
+
+      expect(types(tracker.update(makeState({ positionMs: 1000, state: "paused" }), 1000))).toEqual(["paused"]);
+      expect(types(tracker.update(makeState({ positionMs: 1000 }), 5000))).toEqual(["resumed"]);
+      expect(types(tracker.update(makeState({ positionMs: 0, state: "stopped" }), 6000))).toEqual(["stopped"]);
+    });
+
+    test("emits trackChanged with the previous track", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState(), 0);
+
+      const events = tracker.update(makeState({ track: { id: "spotify:track:next", title: "Next" } }), 1000);
+      expect(types(events)).toEqual(["trackChanged"]);
+      expect(events[0].type === "trackChanged" && events[0].previous?.id).toBe("spotify:track:test");
+    });
+
+    test("emits playerClosed once and playerOpened on return", () => {
+      const tracker = new PlaybackTracker();
+      tracker.update(makeState(), 0);
+
+      expect(types(tracker.update({ isRunning: false }, 1000))).toEqual(["playerClosed"]);
+      expect(tracker.update({ isRunning: false }, 2000)).toEqual([]);
+      expect(types(tracker.update(makeState(), 3000))).toEqual(["playerOpened", "trackChanged"]);
+    });
+
+    test("reports a closed player on the first poll", () => {
+      const tracker = new PlaybackTracker();
+      expect(types(tracker.update({ isRunning: false }, 0))).toEqual(["playerClosed"]);
+    });
+  });
+
+  describe("SpotifyClient events", () => {
+    function fakeSource(states: SpotifyState[]): PlayerSource {
+      let index = 0;
+      return {
+        kind: "applescript",
+        getState: async () => states[Math.min(index++, states.length - 1)],
+      };
+    }
+
+    test("delivers typed events to subscribers", async () => {
+      const client = new SpotifyClient(
+        fakeSource([
+          makeState({ positionMs: 0 }),
+          makeState({ positionMs: 1000 }),
+          makeState({ positionMs: 1000, state: "paused" }),
+        ])
+      );
+
+      const received: string[] = [];
+      client.on("trackChanged", (event) => received.push(`track:${event.state.track.title}`));
+      client.on("paused", (event) => received.push(`paused:${event.state.positionMs}`));
+
+      await client.pollOnce(0);
+      await client.pollOnce(1000);
+      await client.pollOnce(2000);
+
+      expect(received).toEqual(["track:Test Song", "paused:1000"]);
+    });
+
+    test("unsubscribe stops delivery", async () => {
+      const client = new SpotifyClient(
+        fakeSource([makeState(), { isRunning: false }])
+      );
+
+      let closed = 0;
+      const unsubscribe = client.on("playerClosed", () => closed++);
+      await client.pollOnce(0);
+      unsubscribe();
+      await client.pollOnce(1000);
+
+      expect(closed).toBe(0);
+    });
+
+    test("setSource re-announces the player", async () => {
+      const client = new SpotifyClient(fakeSource([makeState()]));
+      const opened: string[] = [];
+      client.on("playerOpened", (event) => opened.push(event.state.track.id));
+
+      await client.pollOnce(0);
+      client.setSource(fakeSource([makeState()]));
+      await client.pollOnce(1000);
+
+      expect(opened).toEqual(["spotify:track:test", "spotify:track:test"]);
+      expect(client.lastState?.isRunning).toBe(true);
+    });
+
+    test("skips ticks while a slow poll is running", async () => {
+      let active = 0;
+      let peak = 0;
+      let polls = 0;
+      const client = new SpotifyClient({
+        kind: "applescript",
+        getState: async () => {
+          active++;
+          polls++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          active--;
+          return makeState();
+        },
+      });
+
+      const stop = client.start(10);
+      await new Promise((resolve) => setTimeout(resolve, 130));
+      stop();
+
+      expect(peak).toBe(1);
+      expect(polls).toBeGreaterThan(0);
+      expect(polls).toBeLessThanOrEqual(3);
+    });
+  });
 });
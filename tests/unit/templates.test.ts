@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildTemplateValues,
+  renderActivityText,
+  renderTemplate,
+  truncateText,
+  validateTemplate,
+  validateTemplates,
+  DISCORD_TEXT_LIMIT,
+} from "../../src/templates.ts";
+import type { Track } from "../../src/spotify.ts";
+
+const track: Track = {
+  title: "Comme des Garçons",
+  artist: "Rich Brian",
+  album: "The Sailor",
+  durationMs: 205000,
+  id: "spotify:local:Rich+Brian:The+Sailor:Comme+des+Gar%C3%A7ons:205",
+  source: "local",
+};
+
+const values = buildTemplateValues(track, { year: 2019, genre: "Hip-Hop", trackNumber: 7 });
+
+describe("Activity Templates", () => {
+  describe("renderTemplate", () => {
+    test("replaces placeholders", () => {
+      expect(renderTemplate("{artist} — {title}", values)).toBe("Rich Brian — Comme des Garçons");
+      expect(renderTemplate("{trackNumber}. {title} ({duration})", values)).toBe(
+        "7. Comme des Garçons (3:25)"
+      );
+    });
+
+    test("keeps conditional sections when fields are present", () => {
+      expect(renderTemplate("on {album}[ ({year})]", values)).toBe("on The Sailor (2019)");
+    });
+
+    test("drops conditional sections with empty fields", () => {
+      const noTags = buildTemplateValues(track);
+      expect(renderTemplate("on {album}[ ({year})]", noTags)).toBe("on The Sailor");
+      expect(renderTemplate("{title}[ · {genre}][ · {year}]", noTags)).toBe("Comme des Garçons");
+    });
+
+    test("supports escaped literals", () => {
+      expect(renderTemplate("\\[{source}\\] {title}", values)).toBe("[local] Comme des Garçons");
+    });
+
+    test("labels the track source", () => {
+      expect(values.sourceLabel).toBe("Local File");
+      expect(buildTemplateValues({ ...track, source: "spotify" }).sourceLabel).toBe("Spotify");
+    });
+  });
+
+  describe("truncation", () => {
+    test("truncateText cuts at a word boundary with an ellipsis", () => {
+      expect(truncateText("one two three four", 16)).toBe("one two three…");
+      expect(truncateText("short", 12)).toBe("short");
+    });
+
+    test("shortens the longest field first and keeps literal text", () => {
+      const long = buildTemplateValues({
+        ...track,
+        title: "A ".repeat(100).trim(),
+        artist: "Short Artist",
+      });
+      const result = renderTemplate("{artist} — {title}", long);
+
+      expect(result.length).toBeLessThanOrEqual(DISCORD_TEXT_LIMIT);
+      expect(result.startsWith("Short Artist — ")).toBe(true);
+      expect(result.endsWith("…")).toBe(true);
+    });
+
+    test("respects a custom limit", () => {
+      expect(renderTemplate("{title}", values, 10).length).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe("validation", () => {
+    test("accepts valid templates", () => {
+      expect(validateTemplate("{artist} — {title}[ ({year})]")).toEqual([]);
+    });
+
+    test("reports unknown placeholders", () => {
+      expect(validateTemplate("{artst}")).toEqual(['Unknown placeholder "{artst}"']);
+    });
+
+    test("reports unbalanced braces and sections", () => {
+      expect(validateTemplate("{title")).toHaveLength(1);
+      expect(validateTemplate("title}")).toHaveLength(1);
+      expect(validateTemplate("[{year}")).toEqual(['Unclosed "["']);
+      expect(validateTemplate("[[{year}]]")).toHaveLength(2);
+    });
+
+    test("validateTemplates tags errors with the activity field", () => {
+      const errors = validateTemplates({ details: "{title}", state: "{nope}" });
+      expect(errors).toEqual([{ field: "state", message: 'Unknown placeholder "{nope}"' }]);
+    });
+  });
+
+  describe("renderActivityText", () => {
+    test("matches the previous hard-coded text by default", () => {
+      expect(renderActivityText({}, track)).toEqual({
+        details: "Comme des Garçons",
+        state: "Rich Brian",
+        largeImageText: "The Sailor",
+        smallImageText: "Local File",
+      });
+    });
+
+    test("falls back to defaults for invalid or empty templates", () => {
+      const text = renderActivityText(
+        { details: "{nope}", state: "[{genre}]", largeImageText: "on {album}" },
+        track
+      );
+      expect(text.details).toBe("Comme des Garçons");
+      expect(text.state).toBe("Rich Brian");
+      expect(text.largeImageText).toBe("on The Sailor");
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CircuitBreaker } from "../../src/circuit-breaker.ts";
+import { CoverCache } from "../../src/cover-cache.ts";
+import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
+import { localFiles } from "../../src/local-files.ts";
+import { PresenceService } from "../../src/presence.ts";
+import type { Track } from "../../src/spotify.ts";
+import { UploadError } from "../../src/upload.ts";
+import { UploadQueue, type QueuedUpload } from "../../src/upload-queue.ts";
+import { mockFetch, restoreFetch } from "./helpers.ts";
+
+const TEST_DIR = path.join(tmpdir(), `tini-upload-queue-${process.pid}`);
+const QUEUE_DIR = path.join(TEST_DIR, "upload-queue");
+const TARGET = "https://cdn.example.com/cdn";
+const COVER = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+
+const upload = (hash: string, target = TARGET) => ({
+  hash,
+  target,
+  mimeType: "image/jpeg",
+  options: { album: "Album", folderName: "Music", hash, extension: "jpg" },
+});
+
+function createQueue(clock: { now: number }, options: { maxEntries?: number } = {}) {
+  const now = () => clock.now;
+  return new UploadQueue(
+    { dir: QUEUE_DIR, baseDelayMs: 1000, maxDelayMs: 4000, intervalMs: 60_000, now, ...options },
+    new CircuitBreaker({ threshold: 2, cooldownMs: 10_000, now }),
+  );
+}
+
+describe("UploadQueue", () => {
+  let clock = { now: 1_000_000 };
+  let queue: UploadQueue;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    clock = { now: 1_000_000 };
+    queue = createQueue(clock);
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("keeps queued covers across restarts", async () => {
+    queue.enqueue(upload("abc"), COVER, new Error("fetch failed"));
+    queue.enqueue(upload("abc"), COVER);
+    expect(queue.size).toBe(1);
+
+    const reloaded = createQueue(clock);
+    expect(reloaded.has("abc", TARGET)).toBe(true);
+    expect(reloaded.getStatus()).toMatchObject({
+      pending: 1,
+      nextAttemptAt: 1_001_000,
+      lastError: "fetch failed",
+      breaker: { state: "closed" },
+    });
+
+    const retried: Uint8Array[] = [];
+    clock.now += 1000;
+    reloaded.start(TARGET, async (_entry, data) => {
+      retried.push(data);
+    });
+    expect(await reloaded.processDue()).toBe(1);
+    reloaded.stop();
+    expect(retried).toEqual([COVER]);
+  });
+
+  test("retries due entries of the started target and reports uploads", async () => {
+    queue.enqueue(upload("abc"), COVER);
+    queue.enqueue(upload("other", "https://other.example.com"), COVER);
+    const retried: string[] = [];
+    const uploaded: QueuedUpload[] = [];
+    queue.onUploaded((entry) => uploaded.push(entry));
+    queue.start(TARGET, async (entry) => {
+      retried.push(entry.hash);
+    });
+
+    // Not due yet
+    expect(await queue.processDue()).toBe(0);
+
+    clock.now += 1000;
+    expect(await queue.processDue()).toBe(1);
+    expect(retried).toEqual(["abc"]);
+    expect(uploaded.map((entry) => entry.hash)).toEqual(["abc"]);
+    expect(queue.has("abc", TARGET)).toBe(false);
+    expect(queue.size).toBe(1);
+    // Only the other target's image is left
+    expect(readdirSync(QUEUE_DIR).filter((name) => name !== "queue.json")).toHaveLength(1);
+  });
+
+  test("failed retries back off and trip the breaker", async () => {
+    queue.enqueue(upload("a"), COVER);
+    queue.enqueue(upload("b"), COVER);
+    queue.enqueue(upload("c"), COVER);
+    let attempts = 0;
+    queue.start(TARGET, async () => {
+      attempts++;
+      throw new UploadError("Upload failed: 503", 503, true);
+    });
+
+    clock.now += 1000;
+    await queue.processDue();
+    // The breaker opened after two failures; "c" wasn't tried
+    expect(attempts).toBe(2);
+    expect(queue.getStatus()).toMatchObject({
+      pending: 3,
+      lastError: "Upload failed: 503",
+      breaker: { state: "open", failures: 2 },
+    });
+
+    // Half-open: one trial, which fails again
+    clock.now += 10_000;
+    await queue.processDue();
+    expect(attempts).toBe(3);
+
+    // Each failure doubles the entry's delay
+    const saved = JSON.parse(readFileSync(path.join(QUEUE_DIR, "queue.json"), "utf-8"));
+    const schedule = saved.entries.map((entry: QueuedUpload) => [
+      entry.hash,
+      entry.attempts,
+      entry.nextAttemptAt - 1_000_000,
+    ]);
+    expect(schedule).toEqual([
+      ["a", 2, 11_000 + 4000],
+      ["b", 1, 1000 + 2000],
+      ["c", 0, 1000],
+    ]);
+  });
+
+  test("drops uploads storage rejects", async () => {
+    queue.enqueue(upload("abc"), COVER);
+    queue.start(TARGET, async () => {
+      throw new UploadError("Upload failed: 403", 403, false);
+    });
+    clock.now += 1000;
+    expect(await queue.processDue()).toBe(0);
+    expect(queue.size).toBe(0);
+    expect(queue.breaker.state).toBe("closed");
+  });
+
+  test("drops the oldest entries once full", () => {
+    queue = createQueue(clock, { maxEntries: 2 });
+    queue.enqueue(upload("a"), COVER);
+    queue.enqueue(upload("b"), COVER);
+    queue.enqueue(upload("c"), COVER);
+    expect([queue.has("a", TARGET), queue.has("b", TARGET), queue.has("c", TARGET)]).toEqual([
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  describe("PresenceService", () => {
+    const AUDIO_PATH = path.join(TEST_DIR, "Music", "Test Song One.mp3");
+    const track: Track = {
+      title: "Test Song One",
+      artist: "Test Artist",
+      album: "Test Album",
+      durationMs: 1000,
+      id: "spotify:local:Test+Artist:Test+Album:Test+Song+One:1",
+      source: "local",
+    };
+
+    const originalFindFile = localFiles.findFile;
+    let requests: string[] = [];
+    let service: PresenceService | null = null;
+
+    beforeAll(() => {
+      setTestIdentity(TEST_IDENTITY);
+    });
+
+    afterAll(() => {
+      resetIdentity();
+    });
+
+    beforeEach(() => {
+      requests = [];
+      mkdirSync(path.dirname(AUDIO_PATH), { recursive: true });
+      copyFileSync(path.join(import.meta.dir, "../../test-music/Test Song One.mp3"), AUDIO_PATH);
+      localFiles.findFile = async () => AUDIO_PATH;
+      mockFetch(async (url: string, options?: RequestInit) => {
+        requests.push(options?.method ?? "GET");
+        if (options?.method === "HEAD") return new Response(null, { status: 404 });
+        return new Response(`${String(url).split("?")[0]}\n`);
+      });
+      service = new PresenceService({
+        upload: { baseUrl: "https://cdn.example.com", uploadPath: "/cdn", apiKey: "key" },
+        coverCache: new CoverCache({ path: path.join(TEST_DIR, "cover-cache.json") }),
+        uploadQueue: queue,
+      });
+    });
+
+    afterEach(() => {
+      service?.destroy();
+      service = null;
+      restoreFetch();
+      localFiles.findFile = originalFindFile;
+    });
+
+    test("queues covers while the breaker is open and shows them once uploaded", async () => {
+      queue.breaker.recordFailure();
+      queue.breaker.recordFailure();
+
+      expect(await service!.getCoverUrl(track)).toBeNull();
+      expect(requests).toEqual([]);
+      expect(queue.size).toBe(1);
+      // Remembered without a cover meanwhile
+      expect(await service!.getCoverUrl(track)).toBeNull();
+      expect(queue.size).toBe(1);
+
+      clock.now += 10_000;
+      expect(await queue.processDue()).toBe(1);
+      expect(requests).toEqual(["HEAD", "PUT"]);
+      expect(queue.breaker.state).toBe("closed");
+
+      requests = [];
+      const url = await service!.getCoverUrl(track);
+      expect(url).toStartWith(`${TARGET}/tini-presence/`);
+      expect(requests).toEqual([]);
+      expect(existsSync(path.join(QUEUE_DIR, "queue.json"))).toBe(true);
+      expect(queue.size).toBe(0);
+    });
+
+    test("a cover sync doesn't queue covers while storage is down", async () => {
+      queue.breaker.recordFailure();
+      queue.breaker.recordFailure();
+      await expect(service!.syncFileCover(AUDIO_PATH)).rejects.toThrow("unreachable");
+      expect(queue.size).toBe(0);
+    });
+  });
+});
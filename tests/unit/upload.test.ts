@@ -9,6 +9,7 @@ import {
 } from "../../src/upload.ts";
 import { setTestIdentity, resetIdentity, TEST_IDENTITY } from "../../src/identity.ts";
 import type { UploadConfig, RetryConfig } from "../../src/upload.ts";
+import { mockFetch } from "./helpers.ts";
 
 const testConfig: UploadConfig = {
   baseUrl: "https://example.com",
@@ -22,15 +23,6 @@ const fastRetryConfig: RetryConfig = {
   maxDelay: 100,
 };
 
-// Helper to mock fetch
-function mockFetch(impl: (url?: string, options?: any) => Promise<Response>): () => void {
-  const originalFetch = globalThis.fetch;
-  (globalThis as any).fetch = impl;
-  return () => {
-    globalThis.fetch = originalFetch;
-  };
-}
-
 describe("Upload Service", () => {
   beforeAll(() => {
     setTestIdentity(TEST_IDENTITY);
@@ -312,7 +304,8 @@ describe("Upload Service", () => {
           new Uint8Array([1, 2, 3]),
           "image/jpeg",
           {
-            songTitle: "My Song",
+            artist: "My Artist",
+            album: "My Album",
             folderName: "Music",
             hash: "abc123",
             extension: "jpg",
@@ -322,7 +315,7 @@ describe("Upload Service", () => {
         expect(headCalled).toBe(true);
         expect(putCalled).toBe(false); // File existed, no upload
         expect(result.existed).toBe(true);
-        expect(result.filename).toBe("tini-presence/test-machine-test1234/Music/My_Song-abc123.jpg");
+        expect(result.filename).toBe("tini-presence/test-machine-test1234/albums/My_Artist_-_My_Album-abc123.jpg");
       } finally {
         restore();
       }
@@ -337,14 +330,14 @@ describe("Upload Service", () => {
 
       try {
         const url = await service.coverExists({
-          songTitle: "Test Song",
+          album: "Test Album",
           folderName: "Music",
           hash: "xyz789",
           extension: "jpg",
         });
 
         expect(url).toContain("tini-presence");
-        expect(url).toContain("Test_Song");
+        expect(url).toContain("Test_Album");
       } finally {
         restore();
       }
@@ -369,18 +362,31 @@ describe("Upload Service", () => {
   describe("buildCoverPath", () => {
     test("builds correct path structure with test identity", () => {
       const path = buildCoverPath({
-        songTitle: "Test Song",
+        artist: "Test Artist",
+        album: "Test Album",
         folderName: "My Music",
         hash: "abcd1234",
         extension: "jpg",
       });
 
-      expect(path).toBe("tini-presence/test-machine-test1234/My_Music/Test_Song-abcd1234.jpg");
+      expect(path).toBe(
+        "tini-presence/test-machine-test1234/albums/Test_Artist_-_Test_Album-abcd1234.jpg",
+      );
+    });
+
+    test("names covers by album, else by folder", () => {
+      const options = { folderName: "My Music", hash: "abcd1234", extension: "jpg" };
+      expect(buildCoverPath({ ...options, album: "Test Album" })).toBe(
+        "tini-presence/test-machine-test1234/albums/Test_Album-abcd1234.jpg",
+      );
+      expect(buildCoverPath({ ...options, artist: "Test Artist" })).toBe(
+        "tini-presence/test-machine-test1234/albums/My_Music-abcd1234.jpg",
+      );
     });
 
     test("sanitizes special characters", () => {
       const path = buildCoverPath({
-        songTitle: "Song: With <Special> Chars?",
+        album: "Album: With <Special> Chars?",
         folderName: "Music/Folder",
         hash: "xyz789",
         extension: "png",
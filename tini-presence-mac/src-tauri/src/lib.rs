@@ -15,11 +15,16 @@ struct TrackStatus {
     artist: Option<String>,
     album: Option<String>,
     cover_url: Option<String>,
+    cover_source: Option<String>,
+    cover_colors: Option<serde_json::Value>,
+    upload_queue: Option<serde_json::Value>,
     source: Option<String>,
     position_ms: Option<f64>,
     duration_ms: Option<f64>,
     track_id: Option<String>,
     file_path: Option<String>,
+    match_pinned: Option<bool>,
+    privacy: Option<String>,
 }
 
 #[derive(Clone, serde::Serialize, serde::Deserialize)]
@@ -31,6 +36,29 @@ struct AppConfig {
     copyparty_url: Option<String>,
     copyparty_path: Option<String>,
     theme: Option<String>,
+    privacy_rules: Option<serde_json::Value>,
+    paused_presence: Option<String>,
+    paused_timeout_seconds: Option<f64>,
+    not_running_grace_seconds: Option<f64>,
+    activity_buttons: Option<serde_json::Value>,
+    cover_storage: Option<serde_json::Value>,
+    cover_image_names: Option<Vec<String>>,
+    cover_override_folder: Option<String>,
+    cover_placeholder: Option<bool>,
+    cover_image: Option<serde_json::Value>,
+    image_backend: Option<String>,
+    cover_dedupe: Option<String>,
+}
+
+#[derive(Clone, serde::Serialize, serde::Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct ConnectionState {
+    status: String,
+    client_id: String,
+    username: Option<String>,
+    attempt: u32,
+    next_retry_at: Option<f64>,
+    error: Option<String>,
 }
 
 #[derive(Clone, serde::Serialize, serde::Deserialize)]
@@ -44,6 +72,7 @@ struct AppState {
     is_running: bool,
     last_status: Option<TrackStatus>,
     last_config: Option<AppConfig>,
+    last_connection: Option<ConnectionState>,
 }
 
 impl Default for AppState {
@@ -53,6 +82,7 @@ impl Default for AppState {
             is_running: false,
             last_status: None,
             last_config: None,
+            last_connection: None,
         }
     }
 }
@@ -147,6 +177,40 @@ fn start_sidecar(app: &tauri::AppHandle, state: &Arc<Mutex<AppState>>) {
                                                         );
                                                     }
                                                 }
+                                                "connection" => {
+                                                    if let Ok(parsed) =
+                                                        serde_json::from_value::<ConnectionState>(
+                                                            message.payload,
+                                                        )
+                                                    {
+                                                        {
+                                                            let mut guard =
+                                                                state_for_events.lock().unwrap();
+                                                            guard.last_connection =
+                                                                Some(parsed.clone());
+                                                        }
+                                                        let _ = app_handle
+                                                            .emit("discord-connection", parsed);
+                                                    } else {
+                                                        let _ = app_handle.emit(
+                                                            "sidecar-log",
+                                                            "Failed to decode connection payload"
+                                                                .to_string(),
+                                                        );
+                                                    }
+                                                }
+                                                "cover-sync" => {
+                                                    let _ = app_handle
+                                                        .emit("cover-sync", message.payload);
+                                                }
+                                                "match" => {
+                                                    let _ =
+                                                        app_handle.emit("match", message.payload);
+                                                }
+                                                "match-overrides" => {
+                                                    let _ = app_handle
+                                                        .emit("match-overrides", message.payload);
+                                                }
                                                 _ => {
                                                     let _ = app_handle.emit(
                                                         "sidecar-log",
@@ -215,9 +279,11 @@ fn stop_sidecar(app: &tauri::AppHandle, state: &Arc<Mutex<AppState>>) {
         state_guard.is_running = false;
         state_guard.last_status = None;
         state_guard.last_config = None;
+        state_guard.last_connection = None;
         let _ = app.emit("service-status", false);
         let _ = app.emit::<Option<TrackStatus>>("track-status", None);
         let _ = app.emit::<Option<AppConfig>>("config-updated", None);
+        let _ = app.emit::<Option<ConnectionState>>("discord-connection", None);
         println!("Stopped tini-presence sidecar");
     }
 }
@@ -249,6 +315,13 @@ fn get_config(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> Option<AppConfig
     state.lock().unwrap().last_config.clone()
 }
 
+#[tauri::command]
+fn get_connection_state(
+    state: tauri::State<'_, Arc<Mutex<AppState>>>,
+) -> Option<ConnectionState> {
+    state.lock().unwrap().last_connection.clone()
+}
+
 #[tauri::command]
 fn request_config(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
     send_command(&state, "get-config", None).is_ok()
@@ -270,6 +343,53 @@ fn open_config(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
     send_command(&state, "open-config", None).is_ok()
 }
 
+#[tauri::command]
+fn clear_caches(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
+    send_command(&state, "clear-caches", None).is_ok()
+}
+
+#[tauri::command]
+fn sync_covers(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
+    send_command(&state, "sync-covers", None).is_ok()
+}
+
+#[tauri::command]
+fn cancel_cover_sync(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
+    send_command(&state, "cancel-cover-sync", None).is_ok()
+}
+
+#[tauri::command]
+fn find_matches(state: tauri::State<'_, Arc<Mutex<AppState>>>, track_id: String) -> bool {
+    let payload = serde_json::json!({ "trackId": track_id });
+    send_command(&state, "match", Some(payload)).is_ok()
+}
+
+#[tauri::command]
+fn pin_match(
+    state: tauri::State<'_, Arc<Mutex<AppState>>>,
+    track_id: String,
+    file_path: Option<String>,
+    pick: Option<String>,
+) -> bool {
+    let payload = serde_json::json!({
+        "trackId": track_id,
+        "filePath": file_path,
+        "pick": pick,
+    });
+    send_command(&state, "pin-match", Some(payload)).is_ok()
+}
+
+#[tauri::command]
+fn unpin_match(state: tauri::State<'_, Arc<Mutex<AppState>>>, track_id: String) -> bool {
+    let payload = serde_json::json!({ "trackId": track_id });
+    send_command(&state, "unpin-match", Some(payload)).is_ok()
+}
+
+#[tauri::command]
+fn list_matches(state: tauri::State<'_, Arc<Mutex<AppState>>>) -> bool {
+    send_command(&state, "list-matches", None).is_ok()
+}
+
 #[tauri::command]
 fn quit_app(app: tauri::AppHandle, state: tauri::State<'_, Arc<Mutex<AppState>>>) {
     stop_sidecar(&app, &state);
@@ -391,10 +511,18 @@ pub fn run() {
             get_service_status,
             get_track_status,
             get_config,
+            get_connection_state,
             request_config,
             update_config,
             add_folder,
             open_config,
+            clear_caches,
+            sync_covers,
+            cancel_cover_sync,
+            find_matches,
+            pin_match,
+            unpin_match,
+            list_matches,
             quit_app
         ])
         .build(tauri::generate_context!())
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useState, type CSSProperties } from "react";
 import { getVersion } from "@tauri-apps/api/app";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
@@ -18,6 +18,16 @@ import {
   ScrollText,
   Loader2,
   History,
+  EyeOff,
+  Plus,
+  Trash2,
+  Pause,
+  ImageUp,
+  CloudOff,
+  Pin,
+  PinOff,
+  FileMusic,
+  FileImage,
 } from "lucide-react";
 import "@/index.css";
 
@@ -28,14 +38,115 @@ interface TrackStatus {
   artist?: string;
   album?: string;
   coverUrl?: string | null;
+  coverSource?: CoverSource | null;
+  coverColors?: CoverColors | null;
+  uploadQueue?: UploadQueueStatus | null;
   source?: string;
   positionMs?: number;
   durationMs?: number;
   trackId?: string;
   filePath?: string | null;
+  // The user pinned this track's file or cover
+  matchPinned?: boolean;
+  privacy?: PrivacyAction;
 }
 
-type ThemeColor = "cyan" | "red" | "green" | "purple" | "orange";
+type PrivacyAction = "hide" | "generic" | "hide-cover";
+
+type CoverSource = "embedded" | "folder" | "override" | "placeholder" | "pinned" | "spotify";
+
+// Picked from local covers by the sidecar
+interface CoverColors {
+  dominant: string;
+  vibrant: string;
+  onVibrant: string;
+  colors: string[];
+  thumbnail: string;
+}
+
+interface UploadQueueStatus {
+  pending: number;
+  breaker: {
+    state: "closed" | "open" | "half-open";
+    failures: number;
+    retryAt: number | null;
+  };
+  nextAttemptAt: number | null;
+  lastError: string | null;
+}
+
+// A file that may be the track, as ranked by src/matching.ts
+interface RankedMatch {
+  path: string;
+  score: number;
+  confidence: number;
+  by: "tags" | "filename";
+  reasons: { rule: string; points: number; detail: string }[];
+}
+
+interface MatchResult {
+  request: { trackId?: string };
+  report: {
+    candidates: RankedMatch[];
+    match: RankedMatch | null;
+    pinned: { filePath?: string; coverPath?: string } | null;
+  } | null;
+  error?: string;
+}
+
+interface MatchOverridesStatus {
+  error?: string;
+}
+
+interface CoverSyncStatus {
+  state: "running" | "done" | "cancelled";
+  total: number;
+  done: number;
+  uploaded: number;
+  skipped: number;
+  failed: number;
+  resumed: number;
+  error?: string;
+}
+
+interface ConnectionState {
+  status: "idle" | "connecting" | "connected" | "backoff";
+  clientId: string;
+  username?: string | null;
+  attempt: number;
+  nextRetryAt?: number | null;
+  error?: string | null;
+}
+
+type PrivacyMatchField = "artist" | "album" | "title" | "source" | "folder" | "uri";
+
+interface PrivacyRule {
+  name?: string;
+  enabled?: boolean;
+  action: PrivacyAction;
+  match: Partial<Record<PrivacyMatchField, string>>;
+}
+
+interface ButtonRule {
+  enabled?: boolean;
+  label: string;
+  url: string;
+  source?: "spotify" | "local";
+  folder?: string;
+}
+
+type PausedPresenceMode = "show" | "timeout" | "clear";
+
+type CoverStorageType = "copyparty" | "s3" | "webdav" | "local";
+
+const coverStorageLabels: Record<CoverStorageType, string> = {
+  copyparty: "Copyparty",
+  s3: "S3-compatible",
+  webdav: "WebDAV",
+  local: "local folder",
+};
+
+type ThemeColor = "cyan" | "red" | "green" | "purple" | "orange" | "adaptive";
 
 interface AppConfig {
   musicFolders: string[];
@@ -44,6 +155,19 @@ interface AppConfig {
   copypartyUrl?: string;
   copypartyPath?: string;
   theme?: ThemeColor;
+  privacyRules?: PrivacyRule[] | null;
+  pausedPresence?: PausedPresenceMode | null;
+  pausedTimeoutSeconds?: number | null;
+  notRunningGraceSeconds?: number | null;
+  activityButtons?: ButtonRule[] | null;
+  // Edited in config.json; kept here so saving settings doesn't drop it
+  coverStorage?: { type: CoverStorageType } | null;
+  coverImageNames?: string[] | null;
+  coverOverrideFolder?: string | null;
+  coverPlaceholder?: boolean | null;
+  coverImage?: Record<string, unknown> | null;
+  imageBackend?: "auto" | "sharp" | "jimp" | null;
+  coverDedupe?: "exact" | "perceptual" | null;
 }
 
 const defaultConfig: AppConfig = {
@@ -55,12 +179,65 @@ const defaultConfig: AppConfig = {
   theme: "cyan",
 };
 
+// Mirrors DEFAULT_BUTTONS in src/buttons.ts
+const defaultButtons: ButtonRule[] = [
+  { label: "Listen on Spotify", url: "{spotifyUrl}", source: "spotify" },
+];
+
+const buttonSourceOptions: { value: ButtonRule["source"] | ""; label: string }[] = [
+  { value: "", label: "Any track" },
+  { value: "spotify", label: "Spotify" },
+  { value: "local", label: "Local files" },
+];
+
+const pausedPresenceOptions: { value: PausedPresenceMode; label: string }[] = [
+  { value: "show", label: "Keep showing as paused" },
+  { value: "timeout", label: "Show as paused, then clear" },
+  { value: "clear", label: "Clear immediately" },
+];
+
+const privacyActionOptions: { value: PrivacyAction; label: string }[] = [
+  { value: "hide", label: "Hide entirely" },
+  { value: "generic", label: "Show generic" },
+  { value: "hide-cover", label: "Hide cover/album" },
+];
+
+const privacyMatchOptions: { value: PrivacyMatchField; label: string; placeholder: string }[] = [
+  { value: "artist", label: "Artist", placeholder: "Artist name" },
+  { value: "album", label: "Album", placeholder: "Album name" },
+  { value: "title", label: "Title (regex)", placeholder: "^Interlude" },
+  { value: "source", label: "Source", placeholder: "local or spotify" },
+  { value: "folder", label: "Folder", placeholder: "~/Music/Private" },
+  { value: "uri", label: "Spotify URI", placeholder: "spotify:track:..." },
+];
+
+const coverSourceText: Record<CoverSource, string> = {
+  embedded: "Cover from the file's tags",
+  folder: "Cover from an image in the album folder",
+  override: "Cover from the override folder",
+  placeholder: "Generated placeholder cover",
+  pinned: "Cover picked by you",
+  spotify: "Cover from Spotify",
+};
+
+const privacyBadgeText: Record<PrivacyAction, string> = {
+  hide: "Hidden from Discord",
+  generic: "Shown as generic music",
+  "hide-cover": "Cover hidden on Discord",
+};
+
 const themeOptions: { value: ThemeColor; label: string; color: string }[] = [
   { value: "cyan", label: "Cyan", color: "bg-[oklch(0.75_0.15_200)]" },
   { value: "red", label: "Red", color: "bg-[oklch(0.65_0.22_25)]" },
   { value: "green", label: "Green", color: "bg-[oklch(0.72_0.19_145)]" },
   { value: "purple", label: "Purple", color: "bg-[oklch(0.7_0.18_300)]" },
   { value: "orange", label: "Orange", color: "bg-[oklch(0.75_0.18_55)]" },
+  {
+    value: "adaptive",
+    label: "Adaptive (follows the album art)",
+    color:
+      "bg-gradient-to-br from-[oklch(0.7_0.18_300)] via-[oklch(0.75_0.15_200)] to-[oklch(0.75_0.18_55)]",
+  },
 ];
 
 function formatTime(ms?: number) {
@@ -71,17 +248,52 @@ function formatTime(ms?: number) {
   return `${minutes}:${seconds.toString().padStart(2, "0")}`;
 }
 
+function fileName(filePath: string): string {
+  return filePath.split("/").pop() ?? filePath;
+}
+
+function connectionLabel(connection: ConnectionState | null, now: number) {
+  switch (connection?.status) {
+    case "connected":
+      return "Connected";
+    case "connecting":
+      return "Connecting…";
+    case "backoff": {
+      const seconds = Math.max(
+        0,
+        Math.ceil(((connection.nextRetryAt ?? now) - now) / 1000)
+      );
+      return `Discord unavailable · retry in ${seconds}s`;
+    }
+    default:
+      return "Starting…";
+  }
+}
+
+function uploadQueueText(queue: UploadQueueStatus): string {
+  const covers = `${queue.pending} cover${queue.pending === 1 ? "" : "s"} waiting to upload`;
+  return queue.breaker.state === "closed" ? covers : `Storage unreachable · ${covers}`;
+}
+
 function App() {
   const [isRunning, setIsRunning] = useState(false);
   const [trackStatus, setTrackStatus] = useState<TrackStatus | null>(null);
+  const [connection, setConnection] = useState<ConnectionState | null>(null);
   const [config, setConfig] = useState<AppConfig>(defaultConfig);
   const [showSettings, setShowSettings] = useState(false);
   const [appVersion, setAppVersion] = useState<string>("");
   const [logs, setLogs] = useState<{ id: number; text: string }[]>([]);
+  const [coverSync, setCoverSync] = useState<CoverSyncStatus | null>(null);
+  const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
+  const [matchError, setMatchError] = useState<string | null>(null);
+  // Status is only sent on playback events, so extrapolate position locally
+  const [statusReceivedAt, setStatusReceivedAt] = useState(Date.now());
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     invoke<boolean>("get_service_status").then(setIsRunning);
     invoke<TrackStatus | null>("get_track_status").then(setTrackStatus);
+    invoke<ConnectionState | null>("get_connection_state").then(setConnection);
     invoke<AppConfig | null>("get_config").then((value) => {
       if (value) {
         setConfig({ ...defaultConfig, ...value });
@@ -99,6 +311,16 @@ function App() {
       "track-status",
       (event) => {
         setTrackStatus(event.payload ?? null);
+        setStatusReceivedAt(Date.now());
+        setNow(Date.now());
+      }
+    );
+
+    const unlistenConnection = listen<ConnectionState | null>(
+      "discord-connection",
+      (event) => {
+        setConnection(event.payload ?? null);
+        setNow(Date.now());
       }
     );
 
@@ -106,6 +328,21 @@ function App() {
       setConfig({ ...defaultConfig, ...event.payload });
     });
 
+    const unlistenCoverSync = listen<CoverSyncStatus>("cover-sync", (event) => {
+      setCoverSync(event.payload);
+    });
+
+    const unlistenMatch = listen<MatchResult>("match", (event) => {
+      setMatchResult(event.payload);
+    });
+
+    const unlistenMatchOverrides = listen<MatchOverridesStatus>(
+      "match-overrides",
+      (event) => {
+        setMatchError(event.payload.error ?? null);
+      }
+    );
+
     const unlistenLog = listen<string>("sidecar-log", (event) => {
       setLogs((prev) =>
         [{ id: Date.now(), text: event.payload }, ...prev].slice(0, 20)
@@ -117,7 +354,11 @@ function App() {
     return () => {
       unlistenService.then((fn) => fn());
       unlistenTrack.then((fn) => fn());
+      unlistenConnection.then((fn) => fn());
       unlistenConfig.then((fn) => fn());
+      unlistenCoverSync.then((fn) => fn());
+      unlistenMatch.then((fn) => fn());
+      unlistenMatchOverrides.then((fn) => fn());
       unlistenLog.then((fn) => fn());
     };
   }, []);
@@ -126,6 +367,16 @@ function App() {
     getVersion().then(setAppVersion);
   }, []);
 
+  // Tick while something on screen counts: playback progress or a retry countdown
+  const ticking = trackStatus?.playing || connection?.status === "backoff";
+  useEffect(() => {
+    if (!ticking) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [ticking]);
+
+  const discordConnected = isRunning && connection?.status === "connected";
+
   const handleToggle = async () => {
     const newStatus = await invoke<boolean>("toggle_service");
     setIsRunning(newStatus);
@@ -134,23 +385,46 @@ function App() {
   const handleQuit = () => invoke("quit_app");
   const handleAddFolder = () => invoke("add_folder");
   const handleOpenConfig = () => invoke("open_config");
+  const handleClearCaches = () => invoke("clear_caches");
+  const handleSyncCovers = () => invoke("sync_covers");
+  const handleCancelCoverSync = () => invoke("cancel_cover_sync");
+  const handleFindMatches = (trackId: string) => {
+    setMatchResult(null);
+    setMatchError(null);
+    invoke("find_matches", { trackId });
+  };
+  const handlePinMatch = (trackId: string, filePath: string | null, pick: "file" | "cover" | null) =>
+    invoke("pin_match", { trackId, filePath, pick });
+  const handleUnpinMatch = (trackId: string) => invoke("unpin_match", { trackId });
 
   const handleSaveConfig = () => {
     invoke("update_config", { config });
     invoke("request_config");
   };
 
+  const positionMs = Math.min(
+    (trackStatus?.positionMs ?? 0) +
+      (trackStatus?.playing ? now - statusReceivedAt : 0),
+    trackStatus?.durationMs ?? Number.POSITIVE_INFINITY
+  );
+
   const progressPercent = trackStatus?.durationMs
-    ? Math.min(
-        100,
-        ((trackStatus.positionMs ?? 0) / trackStatus.durationMs) * 100
-      )
+    ? Math.min(100, (positionMs / trackStatus.durationMs) * 100)
     : 0;
 
   const themeClass = `theme-${config.theme || "cyan"}`;
+  // The adaptive theme falls back to cyan until a local cover has colors
+  const coverColors = trackStatus?.coverColors;
+  const themeStyle =
+    config.theme === "adaptive" && coverColors
+      ? ({
+          "--cover-accent": coverColors.vibrant,
+          "--cover-accent-foreground": coverColors.onVibrant,
+        } as CSSProperties)
+      : undefined;
 
   return (
-    <div className={`h-full flex flex-col ${themeClass}`}>
+    <div className={`h-full flex flex-col ${themeClass}`} style={themeStyle}>
       <div className="rounded-2xl bg-card border border-border overflow-hidden shadow-2xl shadow-black/20 h-full flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between px-4 py-3 border-b border-border">
@@ -182,20 +456,27 @@ function App() {
                   Settings
                 </span>
               ) : (
-                <div className="flex items-center gap-1.5">
+                <div
+                  className="flex items-center gap-1.5"
+                  title={
+                    connection?.username
+                      ? `Signed in as ${connection.username}`
+                      : connection?.error ?? undefined
+                  }
+                >
                   <div
                     className={`w-1.5 h-1.5 rounded-full ${
-                      isRunning
+                      discordConnected
                         ? "bg-primary animate-pulse-glow text-primary"
                         : "bg-muted-foreground/40"
                     }`}
                   />
                   <span
                     className={`text-[10px] font-medium ${
-                      isRunning ? "text-primary" : "text-muted-foreground"
+                      discordConnected ? "text-primary" : "text-muted-foreground"
                     }`}
                   >
-                    {isRunning ? "Connected" : "Offline"}
+                    {isRunning ? connectionLabel(connection, now) : "Offline"}
                   </span>
                 </div>
               )}
@@ -227,16 +508,26 @@ function App() {
             onSave={handleSaveConfig}
             onAddFolder={handleAddFolder}
             onOpenConfig={handleOpenConfig}
+            onClearCaches={handleClearCaches}
+            coverSync={coverSync}
+            onSyncCovers={handleSyncCovers}
+            onCancelCoverSync={handleCancelCoverSync}
             logs={logs}
           />
         ) : (
           <MainView
             isRunning={isRunning}
             trackStatus={trackStatus}
+            positionMs={positionMs}
             progressPercent={progressPercent}
             onToggle={handleToggle}
             onQuit={handleQuit}
             appVersion={appVersion}
+            matchResult={matchResult}
+            matchError={matchError}
+            onFindMatches={handleFindMatches}
+            onPinMatch={handlePinMatch}
+            onUnpinMatch={handleUnpinMatch}
           />
         )}
       </div>
@@ -247,17 +538,29 @@ function App() {
 function MainView({
   isRunning,
   trackStatus,
+  positionMs,
   progressPercent,
   onToggle,
   onQuit,
   appVersion,
+  matchResult,
+  matchError,
+  onFindMatches,
+  onPinMatch,
+  onUnpinMatch,
 }: {
   isRunning: boolean;
   trackStatus: TrackStatus | null;
+  positionMs: number;
   progressPercent: number;
   onToggle: () => void;
   onQuit: () => void;
   appVersion: string;
+  matchResult: MatchResult | null;
+  matchError: string | null;
+  onFindMatches: (trackId: string) => void;
+  onPinMatch: (trackId: string, filePath: string | null, pick: "file" | "cover" | null) => void;
+  onUnpinMatch: (trackId: string) => void;
 }) {
   return (
     <div className="flex flex-col">
@@ -266,11 +569,24 @@ function MainView({
         <div className="rounded-xl bg-secondary/50 p-4">
           {trackStatus?.title ? (
             <div className="flex items-start gap-4 w-full animate-slide-up">
-              <div className="w-16 h-16 rounded-xl bg-muted overflow-hidden flex-shrink-0 shadow-lg">
+              <div
+                className="w-16 h-16 rounded-xl bg-muted bg-cover bg-center overflow-hidden flex-shrink-0 shadow-lg"
+                // Blurry preview while the cover loads
+                style={
+                  trackStatus.coverUrl && trackStatus.coverColors
+                    ? { backgroundImage: `url(${trackStatus.coverColors.thumbnail})` }
+                    : undefined
+                }
+              >
                 {trackStatus.coverUrl ? (
                   <img
                     src={trackStatus.coverUrl}
                     alt="Album cover"
+                    title={
+                      trackStatus.coverSource
+                        ? coverSourceText[trackStatus.coverSource]
+                        : undefined
+                    }
                     className="w-full h-full object-cover"
                   />
                 ) : (
@@ -289,9 +605,30 @@ function MainView({
                 <p className="text-xs text-muted-foreground/60 truncate">
                   {trackStatus.album}
                 </p>
+                {trackStatus.reason === "paused" && (
+                  <p className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1">
+                    <Pause className="w-3 h-3" />
+                    Paused
+                  </p>
+                )}
+                {trackStatus.uploadQueue && (
+                  <p
+                    className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1"
+                    title={trackStatus.uploadQueue.lastError ?? undefined}
+                  >
+                    <CloudOff className="w-3 h-3" />
+                    {uploadQueueText(trackStatus.uploadQueue)}
+                  </p>
+                )}
+                {trackStatus.privacy && (
+                  <p className="flex items-center gap-1 text-[10px] text-primary mt-1">
+                    <EyeOff className="w-3 h-3" />
+                    {privacyBadgeText[trackStatus.privacy]}
+                  </p>
+                )}
                 <div className="flex items-center gap-2 mt-3">
                   <span className="text-[10px] text-muted-foreground tabular-nums">
-                    {formatTime(trackStatus.positionMs)}
+                    {formatTime(positionMs)}
                   </span>
                   <div className="flex-1 h-1 rounded-full bg-muted overflow-hidden">
                     <div
@@ -327,6 +664,17 @@ function MainView({
             </div>
           )}
         </div>
+        {trackStatus?.source === "local" && trackStatus.trackId && (
+          <MatchPicker
+            trackStatus={trackStatus}
+            trackId={trackStatus.trackId}
+            matchResult={matchResult}
+            matchError={matchError}
+            onFindMatches={onFindMatches}
+            onPinMatch={onPinMatch}
+            onUnpinMatch={onUnpinMatch}
+          />
+        )}
       </div>
 
       {/* Description */}
@@ -424,12 +772,444 @@ function ChangelogSection() {
   );
 }
 
+const selectClass =
+  "h-8 rounded-md border border-border bg-input px-2 text-xs text-foreground";
+
+function IdlePresenceSection({
+  config,
+  setConfig,
+}: {
+  config: AppConfig;
+  setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
+}) {
+  const mode = config.pausedPresence ?? "timeout";
+
+  const setSeconds = (
+    key: "pausedTimeoutSeconds" | "notRunningGraceSeconds",
+    value: string,
+  ) =>
+    setConfig((prev) => ({
+      ...prev,
+      [key]: value === "" ? null : Math.max(0, Number(value)),
+    }));
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground">
+        When Paused
+      </Label>
+      <div className="flex items-center gap-2">
+        <select
+          className={`${selectClass} flex-1`}
+          value={mode}
+          onChange={(e) =>
+            setConfig((prev) => ({
+              ...prev,
+              pausedPresence: e.target.value as PausedPresenceMode,
+            }))
+          }
+        >
+          {pausedPresenceOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {mode === "timeout" && (
+          <Input
+            type="number"
+            min={0}
+            placeholder="300"
+            title="Clear after (seconds)"
+            value={config.pausedTimeoutSeconds ?? ""}
+            onChange={(e) => setSeconds("pausedTimeoutSeconds", e.target.value)}
+            className="h-8 w-20 bg-input border-border text-xs"
+          />
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          Keep presence after Spotify quits (s)
+        </span>
+        <Input
+          type="number"
+          min={0}
+          placeholder="15"
+          value={config.notRunningGraceSeconds ?? ""}
+          onChange={(e) => setSeconds("notRunningGraceSeconds", e.target.value)}
+          className="h-8 w-20 bg-input border-border text-xs"
+        />
+      </div>
+    </div>
+  );
+}
+
+function ActivityButtonsSection({
+  config,
+  setConfig,
+}: {
+  config: AppConfig;
+  setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
+}) {
+  const buttons = config.activityButtons ?? defaultButtons;
+
+  const setButtons = (next: ButtonRule[]) =>
+    setConfig((prev) => ({ ...prev, activityButtons: next }));
+
+  const updateButton = (index: number, button: ButtonRule) =>
+    setButtons(buttons.map((b, i) => (i === index ? button : b)));
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground">
+        Activity Buttons
+      </Label>
+      <div className="rounded-lg border border-border bg-input p-3 space-y-2">
+        {buttons.length === 0 ? (
+          <span className="text-xs text-muted-foreground/60">No buttons</span>
+        ) : (
+          buttons.map((button, index) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: buttons have no stable id
+            <div key={index} className="space-y-1.5">
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={button.enabled !== false}
+                  onChange={(e) =>
+                    updateButton(index, { ...button, enabled: e.target.checked })
+                  }
+                  title="Enabled"
+                />
+                <Input
+                  value={button.label}
+                  placeholder="Label"
+                  maxLength={32}
+                  onChange={(e) =>
+                    updateButton(index, { ...button, label: e.target.value })
+                  }
+                  className="h-8 flex-1 min-w-0 bg-input border-border text-xs"
+                />
+                <select
+                  className={selectClass}
+                  value={button.source ?? ""}
+                  onChange={(e) =>
+                    updateButton(index, {
+                      ...button,
+                      source: (e.target.value || undefined) as ButtonRule["source"],
+                    })
+                  }
+                >
+                  {buttonSourceOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setButtons(buttons.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                  title="Remove button"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <Input
+                value={button.url}
+                placeholder="https://bandcamp.com/search?q={artist} {title}"
+                onChange={(e) =>
+                  updateButton(index, { ...button, url: e.target.value })
+                }
+                className="h-8 bg-input border-border text-xs"
+              />
+            </div>
+          ))
+        )}
+      </div>
+      <p className="text-[10px] text-muted-foreground/60">
+        Discord shows the first two buttons that apply to a track.
+      </p>
+      <Button
+        variant="secondary"
+        size="sm"
+        className="h-8 text-xs font-medium"
+        onClick={() => setButtons([...buttons, { label: "", url: "", source: "local" }])}
+      >
+        <Plus className="w-3.5 h-3.5 mr-1.5" />
+        Add button
+      </Button>
+    </div>
+  );
+}
+
+function PrivacyRulesSection({
+  config,
+  setConfig,
+}: {
+  config: AppConfig;
+  setConfig: React.Dispatch<React.SetStateAction<AppConfig>>;
+}) {
+  const rules = config.privacyRules ?? [];
+
+  const setRules = (next: PrivacyRule[]) =>
+    setConfig((prev) => ({ ...prev, privacyRules: next }));
+
+  const updateRule = (index: number, rule: PrivacyRule) =>
+    setRules(rules.map((r, i) => (i === index ? rule : r)));
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground">
+        Privacy Rules
+      </Label>
+      <div className="rounded-lg border border-border bg-input p-3 space-y-2">
+        {rules.length === 0 ? (
+          <span className="text-xs text-muted-foreground/60">
+            Every track is shared
+          </span>
+        ) : (
+          rules.map((rule, index) => {
+            const fields = Object.keys(rule.match ?? {}) as PrivacyMatchField[];
+            const field = fields[0] ?? "artist";
+            return (
+              // biome-ignore lint/suspicious/noArrayIndexKey: rules have no stable id
+              <div key={index} className="flex items-center gap-1.5">
+                {fields.length > 1 ? (
+                  <span className="flex-1 truncate text-xs text-muted-foreground">
+                    {fields.map((f) => `${f}: ${rule.match[f]}`).join(", ")}
+                  </span>
+                ) : (
+                  <>
+                    <select
+                      className={selectClass}
+                      value={field}
+                      onChange={(e) =>
+                        updateRule(index, {
+                          ...rule,
+                          match: {
+                            [e.target.value]: rule.match?.[field] ?? "",
+                          },
+                        })
+                      }
+                    >
+                      {privacyMatchOptions.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      value={rule.match?.[field] ?? ""}
+                      placeholder={
+                        privacyMatchOptions.find((o) => o.value === field)
+                          ?.placeholder
+                      }
+                      onChange={(e) =>
+                        updateRule(index, {
+                          ...rule,
+                          match: { [field]: e.target.value },
+                        })
+                      }
+                      className="h-8 flex-1 min-w-0 bg-input border-border text-xs"
+                    />
+                  </>
+                )}
+                <select
+                  className={selectClass}
+                  value={rule.action}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      ...rule,
+                      action: e.target.value as PrivacyAction,
+                    })
+                  }
+                >
+                  {privacyActionOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+      <Button
+        variant="secondary"
+        size="sm"
+        className="h-8 text-xs font-medium"
+        onClick={() =>
+          setRules([...rules, { action: "hide", match: { artist: "" } }])
+        }
+      >
+        <Plus className="w-3.5 h-3.5 mr-1.5" />
+        Add rule
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * "Wrong file? Pick another": the files matching ranked for the playing
+ * local track, to pin one of them, another file, or just a cover image
+ */
+function MatchPicker({
+  trackStatus,
+  trackId,
+  matchResult,
+  matchError,
+  onFindMatches,
+  onPinMatch,
+  onUnpinMatch,
+}: {
+  trackStatus: TrackStatus;
+  trackId: string;
+  matchResult: MatchResult | null;
+  matchError: string | null;
+  onFindMatches: (trackId: string) => void;
+  onPinMatch: (trackId: string, filePath: string | null, pick: "file" | "cover" | null) => void;
+  onUnpinMatch: (trackId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  // Another track is playing: its matches haven't been asked for
+  useEffect(() => {
+    setOpen(false);
+  }, [trackId]);
+
+  const result = matchResult?.request.trackId === trackId ? matchResult : null;
+  const candidates = result?.report?.candidates.slice(0, 5) ?? [];
+
+  const pin = (filePath: string | null, pick: "file" | "cover" | null) => {
+    onPinMatch(trackId, filePath, pick);
+    setOpen(false);
+  };
+
+  return (
+    <div className="mt-2 px-1">
+      <div className="flex items-center justify-between gap-2">
+        {trackStatus.matchPinned ? (
+          <span className="flex items-center gap-1 text-[10px] text-primary">
+            <Pin className="w-3 h-3" />
+            Picked by you
+          </span>
+        ) : (
+          <span
+            className="text-[10px] text-muted-foreground/70 truncate"
+            title={trackStatus.filePath ?? undefined}
+          >
+            {trackStatus.filePath ? fileName(trackStatus.filePath) : "No file found"}
+          </span>
+        )}
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {trackStatus.matchPinned && (
+            <button
+              type="button"
+              onClick={() => onUnpinMatch(trackId)}
+              className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <PinOff className="w-3 h-3" />
+              Unpin
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              if (!open) onFindMatches(trackId);
+              setOpen(!open);
+            }}
+            className="text-[10px] text-muted-foreground hover:text-foreground transition-colors font-medium"
+          >
+            {open
+              ? "Cancel"
+              : trackStatus.filePath
+                ? "Wrong file? Pick another"
+                : "Pick a file"}
+          </button>
+        </div>
+      </div>
+
+      {matchError && (
+        <p className="text-[10px] text-destructive mt-1">{matchError}</p>
+      )}
+
+      {open && (
+        <div className="mt-2 rounded-lg border border-border p-1.5 space-y-0.5 animate-slide-up">
+          {!result ? (
+            <div className="flex items-center gap-2 p-1.5 text-[10px] text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Looking for files…
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="p-1.5 text-[10px] text-muted-foreground">
+              {result.error ?? "No matching files in your music folders"}
+            </p>
+          ) : (
+            candidates.map((candidate) => (
+              <button
+                key={candidate.path}
+                type="button"
+                onClick={() => pin(candidate.path, null)}
+                title={[candidate.path, ...candidate.reasons.map((reason) => reason.detail)].join("\n")}
+                className="w-full flex items-center gap-2 p-1.5 rounded-md hover:bg-secondary text-left transition-colors"
+              >
+                {candidate.path === trackStatus.filePath ? (
+                  <Check className="w-3 h-3 text-primary flex-shrink-0" />
+                ) : (
+                  <FileMusic className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                )}
+                <span className="flex-1 min-w-0 text-[11px] text-foreground truncate">
+                  {fileName(candidate.path)}
+                </span>
+                <span className="text-[10px] text-muted-foreground tabular-nums">
+                  {Math.round(candidate.confidence * 100)}%
+                </span>
+              </button>
+            ))
+          )}
+          <div className="flex gap-1 pt-1 border-t border-border">
+            <button
+              type="button"
+              onClick={() => pin(null, "file")}
+              className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded-md text-[10px] text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+            >
+              <Folder className="w-3 h-3" />
+              Choose file…
+            </button>
+            <button
+              type="button"
+              onClick={() => pin(null, "cover")}
+              className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded-md text-[10px] text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+            >
+              <FileImage className="w-3 h-3" />
+              Choose cover image…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SettingsView({
   config,
   setConfig,
   onSave,
   onAddFolder,
   onOpenConfig,
+  onClearCaches,
+  coverSync,
+  onSyncCovers,
+  onCancelCoverSync,
   logs,
 }: {
   config: AppConfig;
@@ -437,6 +1217,10 @@ function SettingsView({
   onSave: () => void;
   onAddFolder: () => void;
   onOpenConfig: () => void;
+  onClearCaches: () => void;
+  coverSync: CoverSyncStatus | null;
+  onSyncCovers: () => void;
+  onCancelCoverSync: () => void;
   logs: { id: number; text: string }[];
 }) {
   const [logsExpanded, setLogsExpanded] = useState(false);
@@ -499,68 +1283,79 @@ function SettingsView({
           />
         </div>
 
-        {/* Copyparty API Key */}
-        <div className="space-y-2">
-          <Label
-            htmlFor="copyparty-api-key"
-            className="text-xs font-medium text-muted-foreground"
-          >
-            Copyparty API Key
-          </Label>
-          <Input
-            id="copyparty-api-key"
-            placeholder="Optional"
-            value={config.copypartyApiKey || ""}
-            onChange={(e) =>
-              setConfig((prev) => ({
-                ...prev,
-                copypartyApiKey: e.target.value,
-              }))
-            }
-            className="h-10 bg-input border-border text-sm"
-          />
-        </div>
+        {config.coverStorage && config.coverStorage.type !== "copyparty" ? (
+          <p className="text-xs text-muted-foreground">
+            Covers are uploaded to{" "}
+            {coverStorageLabels[config.coverStorage.type] ??
+              config.coverStorage.type}{" "}
+            storage, set by <code>coverStorage</code> in config.json.
+          </p>
+        ) : (
+          <>
+            {/* Copyparty API Key */}
+            <div className="space-y-2">
+              <Label
+                htmlFor="copyparty-api-key"
+                className="text-xs font-medium text-muted-foreground"
+              >
+                Copyparty API Key
+              </Label>
+              <Input
+                id="copyparty-api-key"
+                placeholder="Optional"
+                value={config.copypartyApiKey || ""}
+                onChange={(e) =>
+                  setConfig((prev) => ({
+                    ...prev,
+                    copypartyApiKey: e.target.value,
+                  }))
+                }
+                className="h-10 bg-input border-border text-sm"
+              />
+            </div>
 
-        {/* URL and Path */}
-        <div className="grid grid-cols-2 gap-3">
-          <div className="space-y-2">
-            <Label
-              htmlFor="copyparty-url"
-              className="text-xs font-medium text-muted-foreground"
-            >
-              Copyparty URL
-            </Label>
-            <Input
-              id="copyparty-url"
-              placeholder="https://example.com"
-              value={config.copypartyUrl || ""}
-              onChange={(e) =>
-                setConfig((prev) => ({ ...prev, copypartyUrl: e.target.value }))
-              }
-              className="h-10 bg-input border-border text-sm"
-            />
-          </div>
-          <div className="space-y-2">
-            <Label
-              htmlFor="copyparty-path"
-              className="text-xs font-medium text-muted-foreground"
-            >
-              Path
-            </Label>
-            <Input
-              id="copyparty-path"
-              placeholder="/cdn"
-              value={config.copypartyPath || ""}
-              onChange={(e) =>
-                setConfig((prev) => ({
-                  ...prev,
-                  copypartyPath: e.target.value,
-                }))
-              }
-              className="h-10 bg-input border-border text-sm"
-            />
-          </div>
-        </div>
+            {/* URL and Path */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label
+                  htmlFor="copyparty-url"
+                  className="text-xs font-medium text-muted-foreground"
+                >
+                  Copyparty URL
+                </Label>
+                <Input
+                  id="copyparty-url"
+                  placeholder="https://example.com"
+                  value={config.copypartyUrl || ""}
+                  onChange={(e) =>
+                    setConfig((prev) => ({ ...prev, copypartyUrl: e.target.value }))
+                  }
+                  className="h-10 bg-input border-border text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label
+                  htmlFor="copyparty-path"
+                  className="text-xs font-medium text-muted-foreground"
+                >
+                  Path
+                </Label>
+                <Input
+                  id="copyparty-path"
+                  placeholder="/cdn"
+                  value={config.copypartyPath || ""}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      copypartyPath: e.target.value,
+                    }))
+                  }
+                  className="h-10 bg-input border-border text-sm"
+                />
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Music Folders */}
         <div className="space-y-2">
@@ -586,7 +1381,7 @@ function SettingsView({
               </div>
             )}
           </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <Button
               variant="secondary"
               size="sm"
@@ -605,9 +1400,60 @@ function SettingsView({
               <FileText className="w-3.5 h-3.5 mr-1.5" />
               Open config
             </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="h-8 text-xs font-medium"
+              onClick={onClearCaches}
+              title="Forget cached cover art lookups"
+            >
+              <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+              Clear caches
+            </Button>
+            {coverSync?.state === "running" ? (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-8 text-xs font-medium"
+                onClick={onCancelCoverSync}
+                title="Stop syncing; the next sync resumes where this one stopped"
+              >
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                Cancel sync
+              </Button>
+            ) : (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-8 text-xs font-medium"
+                onClick={onSyncCovers}
+                title="Upload the cover of every file in your library now"
+              >
+                <ImageUp className="w-3.5 h-3.5 mr-1.5" />
+                Sync covers
+              </Button>
+            )}
           </div>
+          {coverSync && (
+            <p className="text-[10px] text-muted-foreground">
+              {coverSync.error
+                ? `Cover sync: ${coverSync.error}`
+                : `Covers: ${coverSync.done}/${coverSync.total} files` +
+                  (coverSync.failed > 0 ? ` · ${coverSync.failed} failed` : "") +
+                  (coverSync.state === "cancelled" ? " · cancelled" : "")}
+            </p>
+          )}
         </div>
 
+        {/* Paused / Idle Presence */}
+        <IdlePresenceSection config={config} setConfig={setConfig} />
+
+        {/* Activity Buttons */}
+        <ActivityButtonsSection config={config} setConfig={setConfig} />
+
+        {/* Privacy Rules */}
+        <PrivacyRulesSection config={config} setConfig={setConfig} />
+
         {/* Changelog Section */}
         <div className="space-y-3 pt-2 border-t border-border/30">
           <div className="flex items-center justify-between text-[10px] text-muted-foreground">